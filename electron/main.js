@@ -1,10 +1,22 @@
-import { app, BrowserWindow, dialog, ipcMain, shell } from "electron";
+import {
+	app,
+	BrowserWindow,
+	dialog,
+	ipcMain,
+	net,
+	protocol,
+	safeStorage,
+	session,
+	shell,
+} from "electron";
+import { createHash } from "node:crypto";
 import { existsSync } from "node:fs";
-import { rm } from "node:fs/promises";
+import { readFile, rm, writeFile } from "node:fs/promises";
 import { execSync } from "node:child_process";
 import path from "node:path";
 import { pid } from "node:process";
 import process from "node:process";
+import tls from "node:tls";
 import { fileURLToPath } from "node:url";
 import MpvAPI from "node-mpv";
 import { initializeMpris, destroyMpris } from "./mpris.js";
@@ -23,6 +35,22 @@ if (process.platform === "win32") {
 	app.setAppUserModelId(app.getName());
 }
 
+// Scheme for API and stream requests routed through the main process (see
+// "Request proxy" below). Must be registered before the app is ready.
+const PROXY_SCHEME = "slothsonic-proxy";
+protocol.registerSchemesAsPrivileged([
+	{
+		scheme: PROXY_SCHEME,
+		privileges: {
+			standard: true,
+			secure: true,
+			supportFetchAPI: true,
+			corsEnabled: true,
+			stream: true,
+		},
+	},
+]);
+
 let mainWindow = null;
 // Check if we're in dev mode: either not packaged OR dist folder doesn't exist
 const isDev = !app.isPackaged && !existsSync(path.join(__dirname, "../dist"));
@@ -102,6 +130,23 @@ const DEFAULT_MPV_PARAMETERS = [
 	"--prefetch-playlist=yes",
 ];
 
+// "Now playing" title sent by Shoutcast/Icecast streams
+const ICY_TITLE_PROPERTY = "metadata/by-key/icy-title";
+
+// Stream URLs may point at the request proxy, which mpv can't reach. Load the
+// real URL with the route's headers instead. mpv can't pin a certificate, so
+// for pinned servers verification is turned off altogether.
+async function loadMpvUrl(mpv, url, mode) {
+	const target = resolveProxyUrl(url);
+	await mpv.setMultipleProperties({
+		"http-header-fields": Object.entries(target.headers).map(
+			([name, value]) => `${name}: ${value}`,
+		),
+		"tls-verify": !target.certificateFingerprint,
+	});
+	await mpv.load(target.url, mode);
+}
+
 const createMpv = async (options = {}) => {
 	const { binaryPath, extraParameters = [], properties = {} } = options;
 
@@ -171,8 +216,18 @@ const createMpv = async (options = {}) => {
 		mpvLog("Failed to set initial volume", error);
 	}
 
+	// Watch ICY metadata so internet radio can show the current song
+	try {
+		await mpv.observeProperty(ICY_TITLE_PROPERTY);
+	} catch (error) {
+		mpvLog("Failed to observe stream title", error);
+	}
+
 	// Event: playlist position changed (track ended, auto-next) and pause state
 	mpv.on("status", (status) => {
+		if (status.property === ICY_TITLE_PROPERTY) {
+			sendToRenderer("mpv:streamTitle", status.value || null);
+		}
 		if (status.property === "playlist-pos") {
 			if (status.value === -1) {
 				// End of playlist
@@ -427,7 +482,7 @@ function setupMpvIpcHandlers() {
 		}
 
 		try {
-			await mpv.load(url, "replace");
+			await loadMpvUrl(mpv, url, "replace");
 			await mpv.play();
 			return true;
 		} catch (err) {
@@ -453,10 +508,10 @@ function setupMpvIpcHandlers() {
 
 		try {
 			if (current) {
-				await mpv.load(current, "replace");
+				await loadMpvUrl(mpv, current, "replace");
 
 				if (next) {
-					await mpv.load(next, "append");
+					await loadMpvUrl(mpv, next, "append");
 				}
 			}
 
@@ -484,7 +539,7 @@ function setupMpvIpcHandlers() {
 			}
 
 			if (url) {
-				await mpv.load(url, "append");
+				await loadMpvUrl(mpv, url, "append");
 			}
 		} catch (err) {
 			mpvLog("Failed to set queue next", err);
@@ -504,7 +559,7 @@ function setupMpvIpcHandlers() {
 
 			// Append next track if provided
 			if (url) {
-				await mpv.load(url, "append");
+				await loadMpvUrl(mpv, url, "append");
 			}
 		} catch (err) {
 			mpvLog("Failed to handle auto-next", err);
@@ -618,6 +673,232 @@ function setupMpvIpcHandlers() {
 	});
 }
 
+// ============================================================================
+// Credential storage
+// ============================================================================
+
+// Server passwords and API keys, encrypted with the OS keychain via
+// safeStorage and kept out of the renderer's localStorage
+function getCredentialStorePath() {
+	return path.join(app.getPath("userData"), "credentials.json");
+}
+
+async function readCredentialStore() {
+	try {
+		return JSON.parse(await readFile(getCredentialStorePath(), "utf8"));
+	} catch {
+		return {};
+	}
+}
+
+// Serialize writes so concurrent updates don't clobber each other
+let credentialStoreWrite = Promise.resolve();
+
+function updateCredentialStore(update) {
+	const next = credentialStoreWrite.then(async () => {
+		const store = await readCredentialStore();
+		update(store);
+		await writeFile(getCredentialStorePath(), JSON.stringify(store), {
+			mode: 0o600,
+		});
+	});
+	// A failed write is reported to its caller only, so later writes still run
+	credentialStoreWrite = next.catch(() => {});
+	return next;
+}
+
+function setupCredentialIpcHandlers() {
+	ipcMain.handle("credentials:isAvailable", () =>
+		safeStorage.isEncryptionAvailable(),
+	);
+
+	ipcMain.handle("credentials:get", async (_, profileId) => {
+		if (!safeStorage.isEncryptionAvailable()) return null;
+		const store = await readCredentialStore();
+		const encrypted = store[profileId];
+		if (!encrypted) return null;
+		try {
+			return safeStorage.decryptString(Buffer.from(encrypted, "base64"));
+		} catch (error) {
+			console.error("Failed to decrypt credentials:", error);
+			return null;
+		}
+	});
+
+	ipcMain.handle("credentials:set", async (_, profileId, secret) => {
+		if (!safeStorage.isEncryptionAvailable()) return false;
+		const encrypted = safeStorage.encryptString(secret).toString("base64");
+		await updateCredentialStore((store) => {
+			store[profileId] = encrypted;
+		});
+		return true;
+	});
+
+	ipcMain.handle("credentials:delete", async (_, profileId) => {
+		await updateCredentialStore((store) => {
+			delete store[profileId];
+		});
+	});
+}
+
+// ============================================================================
+// Request proxy
+// ============================================================================
+
+// Requests to slothsonic-proxy://<routeId>/rest/... are forwarded to the
+// route's server from the main process. This sidesteps CORS, lets us add
+// headers the renderer can't (reverse proxy basic auth, Cloudflare Access
+// tokens) and accept a pinned self-signed certificate.
+const proxyRoutes = new Map(); // routeId -> { serverUrl, headers, certificateFingerprint }
+
+function getRouteId(config) {
+	return createHash("sha256")
+		.update(JSON.stringify(config))
+		.digest("hex")
+		.slice(0, 16);
+}
+
+// Map a proxy URL back to the real server URL and the headers to send
+function resolveProxyUrl(url) {
+	if (!url?.startsWith(`${PROXY_SCHEME}:`)) {
+		return { url, headers: {}, certificateFingerprint: null };
+	}
+	const parsed = new URL(url);
+	const route = proxyRoutes.get(parsed.hostname);
+	if (!route) {
+		throw new Error(`Unknown proxy route: ${parsed.hostname}`);
+	}
+	return {
+		url: `${route.serverUrl}${parsed.pathname}${parsed.search}`,
+		headers: route.headers,
+		certificateFingerprint: route.certificateFingerprint,
+	};
+}
+
+// Accept pinned certificates for the hosts they were pinned for; everything
+// else gets Chromium's normal verification
+function updateCertificateVerifier() {
+	const pinned = new Map();
+	for (const route of proxyRoutes.values()) {
+		if (!route.certificateFingerprint) continue;
+		const { hostname } = new URL(route.serverUrl);
+		const fingerprints = pinned.get(hostname) ?? new Set();
+		fingerprints.add(route.certificateFingerprint);
+		pinned.set(hostname, fingerprints);
+	}
+
+	// Setting the proc again also drops Chromium's cached verification results
+	session.defaultSession.setCertificateVerifyProc((request, callback) => {
+		const fingerprints = pinned.get(request.hostname);
+		if (fingerprints?.has(request.certificate.fingerprint)) {
+			callback(0);
+		} else {
+			callback(-3);
+		}
+	});
+}
+
+// Connect without verification to show the user what they're about to trust.
+// The fingerprint uses Chromium's "sha256/<base64>" format.
+function getServerCertificate(serverUrl) {
+	const { hostname, port } = new URL(serverUrl);
+	return new Promise((resolve, reject) => {
+		const socket = tls.connect(
+			{
+				host: hostname,
+				port: Number(port) || 443,
+				servername: hostname,
+				rejectUnauthorized: false,
+				timeout: 10_000,
+			},
+			() => {
+				const cert = socket.getPeerCertificate();
+				const authorized = socket.authorized;
+				socket.end();
+				if (!cert?.raw) {
+					reject(new Error("Server did not present a certificate"));
+					return;
+				}
+				resolve({
+					fingerprint: `sha256/${createHash("sha256").update(cert.raw).digest("base64")}`,
+					subject: cert.subject?.CN ?? null,
+					issuer: cert.issuer?.CN ?? null,
+					validTo: cert.valid_to,
+					trusted: authorized,
+				});
+			},
+		);
+		socket.on("timeout", () => {
+			socket.destroy();
+			reject(new Error("Timed out connecting to server"));
+		});
+		socket.on("error", reject);
+	});
+}
+
+async function handleProxyRequest(request) {
+	let target;
+	try {
+		target = resolveProxyUrl(request.url);
+	} catch (error) {
+		return new Response(error.message, { status: 404 });
+	}
+
+	const headers = new Headers(request.headers);
+	// The server should see a plain client, not the app's origin
+	headers.delete("origin");
+	for (const [name, value] of Object.entries(target.headers)) {
+		headers.set(name, value);
+	}
+
+	try {
+		const response = await net.fetch(target.url, {
+			method: request.method,
+			headers,
+			body: request.body,
+			duplex: "half",
+			redirect: "follow",
+		});
+		const responseHeaders = new Headers(response.headers);
+		responseHeaders.set("access-control-allow-origin", "*");
+		return new Response(response.body, {
+			status: response.status,
+			statusText: response.statusText,
+			headers: responseHeaders,
+		});
+	} catch (error) {
+		console.error("[Proxy] Request failed:", error);
+		return Response.error();
+	}
+}
+
+function setupProxy() {
+	protocol.handle(PROXY_SCHEME, handleProxyRequest);
+	updateCertificateVerifier();
+
+	// Register a server and get the base URL the renderer should use for it.
+	// Identical configs share a route, so this is safe to call repeatedly.
+	ipcMain.handle("proxy:register", (_, config) => {
+		const route = {
+			serverUrl: config.serverUrl.replace(/\/+$/, ""),
+			headers: config.headers ?? {},
+			certificateFingerprint: config.certificateFingerprint || null,
+		};
+		const routeId = getRouteId(route);
+		if (!proxyRoutes.has(routeId)) {
+			proxyRoutes.set(routeId, route);
+			if (route.certificateFingerprint) {
+				updateCertificateVerifier();
+			}
+		}
+		return `${PROXY_SCHEME}://${routeId}`;
+	});
+
+	ipcMain.handle("proxy:getCertificate", (_, serverUrl) =>
+		getServerCertificate(serverUrl),
+	);
+}
+
 // ============================================================================
 // Window Creation
 // ============================================================================
@@ -751,11 +1032,14 @@ process.on("unhandledRejection", async (reason) => {
 // Start the app
 app.whenReady().then(async () => {
 	setupMpvIpcHandlers();
+	setupCredentialIpcHandlers();
+	setupProxy();
 	createWindow();
 	
 	// Initialize MPRIS for Linux desktop integration
 	// The mpris.js module handles all event handlers and IPC internally
 	if (process.platform === "linux") {
-		initializeMpris(() => mainWindow);
+		// Proxied cover art only resolves inside the app
+		initializeMpris(() => mainWindow, (url) => resolveProxyUrl(url).url);
 	}
 });
@@ -10,12 +10,14 @@ import Player from "mpris-service";
 
 let mprisPlayer = null;
 let mainWindowGetter = null;
+let artUrlResolver = (url) => url;
 
 /**
  * Initialize the MPRIS service
  * @param {() => import('electron').BrowserWindow | null} getMainWindow - Function to get the main window
+ * @param {(url: string) => string} [resolveArtUrl] - Maps cover art URLs to ones other apps can load
  */
-export function initializeMpris(getMainWindow) {
+export function initializeMpris(getMainWindow, resolveArtUrl) {
 	if (process.platform !== "linux") {
 		console.log("[MPRIS] Not on Linux, skipping initialization");
 		return false;
@@ -23,6 +25,9 @@ export function initializeMpris(getMainWindow) {
 
 	try {
 		mainWindowGetter = getMainWindow;
+		if (resolveArtUrl) {
+			artUrlResolver = resolveArtUrl;
+		}
 
 		mprisPlayer = Player({
 			identity: "Slothsonic",
@@ -188,7 +193,9 @@ function setupIpcHandlers() {
 			}
 
 			mprisPlayer.metadata = {
-				"mpris:artUrl": metadata.artUrl || null,
+				"mpris:artUrl": metadata.artUrl
+					? artUrlResolver(metadata.artUrl)
+					: null,
 				"mpris:length": metadata.length
 					? Math.round(metadata.length * 1e6)
 					: null,
@@ -6,6 +6,22 @@ contextBridge.exposeInMainWorld("electronAPI", {
 	platform: process.platform,
 	isElectron: true,
 
+	// Encrypted credential storage (safeStorage)
+	credentials: {
+		isAvailable: () => ipcRenderer.invoke("credentials:isAvailable"),
+		get: (profileId) => ipcRenderer.invoke("credentials:get", profileId),
+		set: (profileId, secret) =>
+			ipcRenderer.invoke("credentials:set", profileId, secret),
+		delete: (profileId) => ipcRenderer.invoke("credentials:delete", profileId),
+	},
+
+	// Route requests through the main process
+	proxy: {
+		register: (config) => ipcRenderer.invoke("proxy:register", config),
+		getCertificate: (serverUrl) =>
+			ipcRenderer.invoke("proxy:getCertificate", serverUrl),
+	},
+
 	// MPV audio backend
 	mpv: {
 		// Availability and configuration
@@ -75,6 +91,11 @@ contextBridge.exposeInMainWorld("electronAPI", {
 			ipcRenderer.on("mpv:fallback", handler);
 			return () => ipcRenderer.removeListener("mpv:fallback", handler);
 		},
+		onStreamTitle: (callback) => {
+			const handler = (_, title) => callback(title);
+			ipcRenderer.on("mpv:streamTitle", handler);
+			return () => ipcRenderer.removeListener("mpv:streamTitle", handler);
+		},
 
 		// MPRIS control events (from D-Bus)
 		onMprisPlay: (callback) => {
@@ -46,7 +46,7 @@ export function AddToPlaylistButton({
 
 	const { data: playlists, isLoading } = useQuery({
 		queryKey: ["playlists"],
-		queryFn: getPlaylists,
+		queryFn: ({ signal }) => getPlaylists({ signal }),
 		enabled: isOpen,
 	});
 
@@ -3,9 +3,10 @@ import { Disc3 } from "lucide-react";
 import { useEffect, useState } from "react";
 
 import type { Album } from "@/lib/api";
-import { getCoverArtUrl } from "@/lib/api";
+import { getArtistCredits, getCoverArtUrl } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import { AlbumContextMenu } from "./AlbumContextMenu";
+import { ArtistLinks } from "./ArtistLinks";
 import { StarButton } from "./StarButton";
 
 interface AlbumCardProps {
@@ -24,60 +25,73 @@ export function AlbumCard({ album, className }: AlbumCardProps) {
 		}
 	}, [album.coverArt]);
 
+	const artists = getArtistCredits(album);
+
+	// Only the cover and title link to the album, so the star button and
+	// artist links aren't nested inside another link
 	return (
 		<AlbumContextMenu album={album}>
-			<Link
-				to="/app/albums/$albumId"
-				params={{ albumId: album.id }}
+			<div
 				className={cn(
-					"group block rounded-lg bg-card p-3 transition-colors hover:bg-accent",
+					"group relative rounded-lg bg-card p-3 transition-colors hover:bg-accent",
 					className,
 				)}
 			>
-				{/* Album Cover */}
-				<div className="aspect-square rounded-md overflow-hidden bg-muted mb-3 relative">
-					{coverUrl && !imageError ? (
-						<img
-							src={coverUrl}
-							alt={album.name}
-							className={cn(
-								"w-full h-full object-cover transition-all duration-200 group-hover:scale-105",
-								imageLoaded ? "opacity-100" : "opacity-0",
-							)}
-							onLoad={() => setImageLoaded(true)}
-							onError={() => setImageError(true)}
-						/>
-					) : (
-						<div className="w-full h-full flex items-center justify-center">
-							<Disc3 className="w-12 h-12 text-muted-foreground" />
-						</div>
-					)}
-					{/* Star button overlay */}
-					<div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-						<StarButton
-							id={album.id}
-							type="album"
-							isStarred={!!album.starred}
-							size="sm"
-						/>
+				<Link
+					to="/app/albums/$albumId"
+					params={{ albumId: album.id }}
+					className="block"
+				>
+					{/* Album Cover */}
+					<div className="aspect-square rounded-md overflow-hidden bg-muted mb-3">
+						{coverUrl && !imageError ? (
+							<img
+								src={coverUrl}
+								alt={album.name}
+								className={cn(
+									"w-full h-full object-cover transition-all duration-200 group-hover:scale-105",
+									imageLoaded ? "opacity-100" : "opacity-0",
+								)}
+								onLoad={() => setImageLoaded(true)}
+								onError={() => setImageError(true)}
+							/>
+						) : (
+							<div className="w-full h-full flex items-center justify-center">
+								<Disc3 className="w-12 h-12 text-muted-foreground" />
+							</div>
+						)}
 					</div>
-				</div>
 
-				{/* Album Info */}
-				<div className="space-y-1">
 					<h3 className="font-medium text-sm text-foreground truncate group-hover:text-primary">
 						{album.name}
 					</h3>
-					{album.artist && (
+				</Link>
+
+				{/* Star button overlay, in the cover's top right corner */}
+				<div className="absolute top-5 right-5 opacity-0 group-hover:opacity-100 transition-opacity">
+					<StarButton
+						id={album.id}
+						type="album"
+						isStarred={!!album.starred}
+						size="sm"
+					/>
+				</div>
+
+				{/* Album Info */}
+				<div className="space-y-1 mt-1">
+					{artists.length > 0 && (
 						<p className="text-xs text-muted-foreground truncate">
-							{album.artist}
+							<ArtistLinks
+								artists={artists}
+								linkClassName="hover:text-foreground"
+							/>
 						</p>
 					)}
 					{album.year && (
 						<p className="text-xs text-muted-foreground">{album.year}</p>
 					)}
 				</div>
-			</Link>
+			</div>
 		</AlbumContextMenu>
 	);
 }
@@ -1,9 +1,10 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "@tanstack/react-router";
-import { Heart, ListEnd, Play, Shuffle, User } from "lucide-react";
-import type { ReactNode } from "react";
+import { Heart, ListEnd, Play, Share2, Shuffle, User } from "lucide-react";
+import { type ReactNode, useState } from "react";
 import { toast } from "sonner";
 
+import { ShareDialog } from "@/components/ShareDialog";
 import {
 	ContextMenu,
 	ContextMenuContent,
@@ -13,6 +14,7 @@ import {
 } from "@/components/ui/context-menu";
 import type { Album } from "@/lib/api";
 import { getAlbum, star, unstar } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 import { addToQueue, playAlbum } from "@/lib/player";
 
 interface AlbumContextMenuProps {
@@ -23,6 +25,8 @@ interface AlbumContextMenuProps {
 export function AlbumContextMenu({ album, children }: AlbumContextMenuProps) {
 	const navigate = useNavigate();
 	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const [shareOpen, setShareOpen] = useState(false);
 
 	const starMutation = useMutation({
 		mutationFn: async (shouldStar: boolean) => {
@@ -98,41 +102,55 @@ export function AlbumContextMenu({ album, children }: AlbumContextMenuProps) {
 	};
 
 	return (
-		<ContextMenu>
-			<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
-			<ContextMenuContent className="w-56">
-				<ContextMenuItem onClick={handlePlay}>
-					<Play className="mr-2 h-4 w-4" />
-					Play
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handleShuffle}>
-					<Shuffle className="mr-2 h-4 w-4" />
-					Shuffle
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handleAddToQueue}>
-					<ListEnd className="mr-2 h-4 w-4" />
-					Add to queue
-				</ContextMenuItem>
+		<>
+			<ContextMenu>
+				<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+				<ContextMenuContent className="w-56">
+					<ContextMenuItem onClick={handlePlay}>
+						<Play className="mr-2 h-4 w-4" />
+						Play
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handleShuffle}>
+						<Shuffle className="mr-2 h-4 w-4" />
+						Shuffle
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handleAddToQueue}>
+						<ListEnd className="mr-2 h-4 w-4" />
+						Add to queue
+					</ContextMenuItem>
 
-				<ContextMenuSeparator />
+					<ContextMenuSeparator />
 
-				<ContextMenuItem onClick={handleToggleFavorite}>
-					<Heart
-						className={`mr-2 h-4 w-4 ${album.starred ? "fill-red-500 text-red-500" : ""}`}
-					/>
-					{album.starred ? "Remove from favorites" : "Add to favorites"}
-				</ContextMenuItem>
-
-				{album.artistId && (
-					<>
-						<ContextMenuSeparator />
-						<ContextMenuItem onClick={handleGoToArtist}>
-							<User className="mr-2 h-4 w-4" />
-							Go to artist
+					<ContextMenuItem onClick={handleToggleFavorite}>
+						<Heart
+							className={`mr-2 h-4 w-4 ${album.starred ? "fill-red-500 text-red-500" : ""}`}
+						/>
+						{album.starred ? "Remove from favorites" : "Add to favorites"}
+					</ContextMenuItem>
+					{features.sharing && (
+						<ContextMenuItem onClick={() => setShareOpen(true)}>
+							<Share2 className="mr-2 h-4 w-4" />
+							Share…
 						</ContextMenuItem>
-					</>
-				)}
-			</ContextMenuContent>
-		</ContextMenu>
+					)}
+
+					{album.artistId && (
+						<>
+							<ContextMenuSeparator />
+							<ContextMenuItem onClick={handleGoToArtist}>
+								<User className="mr-2 h-4 w-4" />
+								Go to artist
+							</ContextMenuItem>
+						</>
+					)}
+				</ContextMenuContent>
+			</ContextMenu>
+			<ShareDialog
+				open={shareOpen}
+				onOpenChange={setShareOpen}
+				itemId={album.id}
+				itemName={album.name}
+			/>
+		</>
 	);
 }
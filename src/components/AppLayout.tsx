@@ -1,25 +1,37 @@
+import { useQueryClient } from "@tanstack/react-query";
 import { Link, useNavigate, useRouterState } from "@tanstack/react-router";
 import {
+	Activity,
+	Bookmark,
 	ChevronsLeft,
 	ChevronsRight,
 	Disc3,
+	FolderTree,
 	Home,
 	Library,
 	ListMusic,
 	LogOut,
 	Moon,
 	Music,
+	Podcast,
+	Radio,
 	Search,
 	Settings,
+	Share2,
 	Sun,
 	Tags,
+	UserCog,
 	Users,
 } from "lucide-react";
 import { useEffect } from "react";
 
 import { GlobalContextMenu } from "@/components/GlobalContextMenu";
 import { GlobalSearch } from "@/components/GlobalSearch";
+import { MusicFolderSelect } from "@/components/MusicFolderSelect";
 import { Player } from "@/components/Player";
+import { ProfileSwitcher } from "@/components/ProfileSwitcher";
+import { ReauthDialog } from "@/components/ReauthDialog";
+import { ScanStatusIndicator } from "@/components/ScanStatusIndicator";
 import { Button } from "@/components/ui/button";
 import {
 	Sidebar,
@@ -37,12 +49,14 @@ import {
 	SidebarTrigger,
 	useSidebar,
 } from "@/components/ui/sidebar";
-import { Toaster } from "@/components/ui/sonner";
+import { useCurrentUser } from "@/hooks/use-current-user";
 import { useGlobalKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useAuth } from "@/lib/auth";
+import { useServerCapabilities } from "@/lib/capabilities";
 import {
 	enableQueueSync,
 	isQueueSyncEnabled,
+	resetPlayer,
 	restoreQueue,
 	usePlayer,
 } from "@/lib/player";
@@ -59,17 +73,31 @@ const navItems = [
 	{ to: "/app/artists", icon: Users, label: "Artists" },
 	{ to: "/app/playlists", icon: ListMusic, label: "Playlists" },
 	{ to: "/app/genres", icon: Tags, label: "Genres" },
+	{ to: "/app/folders", icon: FolderTree, label: "Folders" },
 	{ to: "/app/songs", icon: Music, label: "Songs" },
+	{ to: "/app/radio", icon: Radio, label: "Radio" },
+	{ to: "/app/podcasts", icon: Podcast, label: "Podcasts" },
+	{ to: "/app/bookmarks", icon: Bookmark, label: "Bookmarks" },
+	{ to: "/app/activity", icon: Activity, label: "Activity" },
+	{ to: "/app/shares", icon: Share2, label: "Shares" },
 	{ to: "/app/settings", icon: Settings, label: "Settings" },
 ];
 
+// Only shown to server admins
+const adminNavItems = [
+	{ to: "/app/admin/users", icon: UserCog, label: "Users" },
+];
+
 function AppSidebar() {
 	const { logout, credentials } = useAuth();
 	const { theme, setTheme } = useTheme();
 	const router = useRouterState();
 	const navigate = useNavigate();
+	const queryClient = useQueryClient();
 	const currentPath = router.location.pathname;
 	const { setOpenMobile, isMobile, toggleSidebar, state } = useSidebar();
+	const { isAdmin } = useCurrentUser();
+	const visibleNavItems = isAdmin ? [...navItems, ...adminNavItems] : navItems;
 
 	// Close mobile menu on navigation
 	// biome-ignore lint: currentPath is intentionally used to trigger menu close on navigation
@@ -88,6 +116,9 @@ function AppSidebar() {
 	};
 
 	const handleLogout = () => {
+		// Keep the next profile from seeing this one's queue or cached data
+		resetPlayer();
+		queryClient.clear();
 		logout();
 		navigate({ to: "/" });
 	};
@@ -97,19 +128,7 @@ function AppSidebar() {
 			<SidebarHeader className="border-b">
 				<SidebarMenu>
 					<SidebarMenuItem>
-						<SidebarMenuButton size="lg" asChild tooltip="Slothsonic">
-							<Link to="/app">
-								<div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-primary text-primary-foreground">
-									<Library className="size-4" />
-								</div>
-								<div className="grid flex-1 text-left text-sm leading-tight">
-									<span className="truncate font-semibold">Slothsonic</span>
-									<span className="truncate text-xs text-muted-foreground">
-										{credentials?.serverUrl?.replace(/https?:\/\//, "")}
-									</span>
-								</div>
-							</Link>
-						</SidebarMenuButton>
+						<ProfileSwitcher />
 						{/* Desktop collapse button */}
 						<Button
 							variant="ghost"
@@ -125,10 +144,11 @@ function AppSidebar() {
 			</SidebarHeader>
 
 			<SidebarContent>
+				<MusicFolderSelect />
 				<SidebarGroup>
 					<SidebarGroupContent>
 						<SidebarMenu>
-							{navItems.map((item) => {
+							{visibleNavItems.map((item) => {
 								const isActive =
 									currentPath === item.to ||
 									(item.to !== "/app" && currentPath.startsWith(item.to));
@@ -152,7 +172,7 @@ function AppSidebar() {
 				</SidebarGroup>
 			</SidebarContent>
 
-			<SidebarFooter className="border-t h-20 justify-center">
+			<SidebarFooter className="border-t min-h-20 justify-center">
 				<SidebarMenu>
 					{/* Expand button - only visible when collapsed */}
 					{state === "collapsed" && !isMobile && (
@@ -166,6 +186,7 @@ function AppSidebar() {
 							</SidebarMenuButton>
 						</SidebarMenuItem>
 					)}
+					<ScanStatusIndicator />
 					<SidebarMenuItem>
 						{/* User info section - using div instead of SidebarMenuButton to avoid nested buttons */}
 						<div className="flex items-center gap-2 px-2 py-1.5 w-full group-data-[collapsible=icon]:justify-center group-data-[collapsible=icon]:px-0 group-data-[collapsible=icon]:py-0">
@@ -220,6 +241,9 @@ function AppContent({ children }: { children: React.ReactNode }) {
 	// Global keyboard shortcuts for player controls
 	useGlobalKeyboardShortcuts();
 
+	// Detect what the server supports as soon as the app loads
+	useServerCapabilities();
+
 	// Enable queue sync and restore queue on mount
 	useEffect(() => {
 		if (!isQueueSyncEnabled()) {
@@ -271,13 +295,24 @@ function AppContent({ children }: { children: React.ReactNode }) {
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
+	const { isAuthenticated } = useAuth();
+	const navigate = useNavigate();
+
+	// Leave the app when the session ends, e.g. the server rejected our
+	// credentials
+	useEffect(() => {
+		if (!isAuthenticated) {
+			navigate({ to: "/" });
+		}
+	}, [isAuthenticated, navigate]);
+
 	return (
 		<GlobalContextMenu>
 			<SidebarProvider>
 				<AppSidebar />
 				<AppContent>{children}</AppContent>
 				<GlobalSearch />
-				<Toaster position="top-center" />
+				<ReauthDialog />
 			</SidebarProvider>
 		</GlobalContextMenu>
 	);
@@ -0,0 +1,46 @@
+import { Link } from "@tanstack/react-router";
+import { Fragment } from "react";
+
+import type { ArtistCredit } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface ArtistLinksProps {
+	artists: ArtistCredit[];
+	className?: string;
+	linkClassName?: string;
+	// Called when a link is followed, e.g. to close a drawer
+	onNavigate?: () => void;
+}
+
+// Artists as separate links, so each collaborator on a track can be opened
+export function ArtistLinks({
+	artists,
+	className,
+	linkClassName,
+	onNavigate,
+}: ArtistLinksProps) {
+	return (
+		<span className={className}>
+			{artists.map((artist, index) => (
+				<Fragment key={artist.id ?? artist.name}>
+					{index > 0 && ", "}
+					{artist.id ? (
+						<Link
+							to="/app/artists/$artistId"
+							params={{ artistId: artist.id }}
+							onClick={(e) => {
+								e.stopPropagation();
+								onNavigate?.();
+							}}
+							className={cn("hover:underline", linkClassName)}
+						>
+							{artist.name}
+						</Link>
+					) : (
+						artist.name
+					)}
+				</Fragment>
+			))}
+		</span>
+	);
+}
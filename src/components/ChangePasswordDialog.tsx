@@ -0,0 +1,156 @@
+import { useForm } from "@tanstack/react-form";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import * as v from "valibot";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { changePassword } from "@/lib/api";
+import { updateActivePassword, useAuth } from "@/lib/auth";
+import { clearCoverArtCache } from "@/lib/player";
+
+const passwordSchema = v.pipe(
+	v.object({
+		password: v.pipe(v.string(), v.nonEmpty("Password is required")),
+		confirmPassword: v.string(),
+	}),
+	v.forward(
+		v.check(
+			(input) => input.password === input.confirmPassword,
+			"Passwords don't match",
+		),
+		["confirmPassword"],
+	),
+);
+
+interface ChangePasswordDialogProps {
+	username: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function ChangePasswordDialog({
+	username,
+	open,
+	onOpenChange,
+}: ChangePasswordDialogProps) {
+	const { credentials } = useAuth();
+	const isSelf = credentials?.username === username;
+
+	const changeMutation = useMutation({
+		mutationFn: (password: string) => changePassword(username, password),
+		onSuccess: async (_, password) => {
+			if (isSelf) {
+				// Keep signing in with the new password
+				await updateActivePassword(password);
+				// Cached URLs carry the old credentials
+				clearCoverArtCache();
+			}
+			handleOpenChange(false);
+			toast.success("Password changed");
+		},
+		onError: () => {
+			toast.error("Failed to change password");
+		},
+	});
+
+	const form = useForm({
+		defaultValues: {
+			password: "",
+			confirmPassword: "",
+		},
+		validators: {
+			onSubmit: passwordSchema,
+		},
+		onSubmit: async ({ value }) => {
+			changeMutation.mutate(value.password);
+		},
+	});
+
+	const handleOpenChange = (isOpen: boolean) => {
+		onOpenChange(isOpen);
+		if (!isOpen) form.reset();
+	};
+
+	const fields = [
+		{ name: "password", label: "New password" },
+		{ name: "confirmPassword", label: "Confirm new password" },
+	] as const;
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Change Password</DialogTitle>
+					<DialogDescription>
+						{isSelf
+							? "Other devices signed in to this account will need the new password."
+							: `Set a new password for ${username}.`}
+					</DialogDescription>
+				</DialogHeader>
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						e.stopPropagation();
+						form.handleSubmit();
+					}}
+					className="space-y-4"
+				>
+					{fields.map(({ name, label }) => (
+						<form.Field key={name} name={name}>
+							{(field) => (
+								<Field data-invalid={field.state.meta.errors.length > 0}>
+									<FieldLabel htmlFor={field.name}>{label}</FieldLabel>
+									<Input
+										id={field.name}
+										type="password"
+										autoComplete="new-password"
+										value={field.state.value}
+										onChange={(e) => field.handleChange(e.target.value)}
+										autoFocus={name === "password"}
+									/>
+									{field.state.meta.errors.length > 0 && (
+										<FieldError
+											errors={field.state.meta.errors.map((err) => ({
+												message: typeof err === "string" ? err : err?.message,
+											}))}
+										/>
+									)}
+								</Field>
+							)}
+						</form.Field>
+					))}
+					<DialogFooter className="mt-6">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => handleOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={changeMutation.isPending}>
+							{changeMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Saving...
+								</>
+							) : (
+								"Change Password"
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,208 @@
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { useId, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { ConnectionOptions } from "@/lib/auth";
+
+type CertificateInfo = Awaited<
+	ReturnType<
+		NonNullable<NonNullable<Window["electronAPI"]>["proxy"]>["getCertificate"]
+	>
+>;
+
+// One "Name: value" pair per line
+function formatHeaders(headers?: Record<string, string>): string {
+	return Object.entries(headers ?? {})
+		.map(([name, value]) => `${name}: ${value}`)
+		.join("\n");
+}
+
+function parseHeaders(text: string): Record<string, string> | undefined {
+	const headers: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const separator = line.indexOf(":");
+		if (separator <= 0) continue;
+		const name = line.slice(0, separator).trim();
+		const value = line.slice(separator + 1).trim();
+		if (name) headers[name] = value;
+	}
+	return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+interface ConnectionOptionsFieldsProps {
+	serverUrl: string;
+	value: ConnectionOptions;
+	onChange: (value: ConnectionOptions) => void;
+}
+
+/**
+ * Desktop-only connection settings: routing requests through the main
+ * process, custom headers and trusting a self-signed certificate.
+ */
+export function ConnectionOptionsFields({
+	serverUrl,
+	value,
+	onChange,
+}: ConnectionOptionsFieldsProps) {
+	const [headersText, setHeadersText] = useState(() =>
+		formatHeaders(value.headers),
+	);
+	const [certificate, setCertificate] = useState<CertificateInfo | null>(null);
+	const [certificateError, setCertificateError] = useState<string | null>(null);
+	const [isCheckingCertificate, setIsCheckingCertificate] = useState(false);
+	const headersId = useId();
+
+	const isHttps = serverUrl.startsWith("https://");
+
+	const handleHeadersChange = (text: string) => {
+		setHeadersText(text);
+		onChange({ ...value, headers: parseHeaders(text) });
+	};
+
+	const handleCheckCertificate = async () => {
+		const proxy = window.electronAPI?.proxy;
+		if (!proxy) return;
+
+		setIsCheckingCertificate(true);
+		setCertificateError(null);
+		try {
+			setCertificate(await proxy.getCertificate(serverUrl));
+		} catch (error) {
+			setCertificateError(
+				error instanceof Error ? error.message : "Could not connect",
+			);
+		} finally {
+			setIsCheckingCertificate(false);
+		}
+	};
+
+	const handleTrustCertificate = () => {
+		if (!certificate) return;
+		onChange({ ...value, certificateFingerprint: certificate.fingerprint });
+		setCertificate(null);
+	};
+
+	return (
+		<div className="space-y-4">
+			<label className="flex items-start gap-2 text-sm cursor-pointer">
+				<input
+					type="checkbox"
+					checked={!!value.useProxy}
+					onChange={(e) => onChange({ ...value, useProxy: e.target.checked })}
+					className="size-4 mt-0.5 accent-primary"
+				/>
+				<span>
+					<span className="font-medium">Connect through the desktop app</span>
+					<span className="block text-muted-foreground">
+						Works with servers that don't allow cross-origin requests (CORS)
+					</span>
+				</span>
+			</label>
+
+			{value.useProxy && (
+				<>
+					<div className="space-y-2">
+						<Label htmlFor={headersId}>Custom headers</Label>
+						<textarea
+							id={headersId}
+							value={headersText}
+							onChange={(e) => handleHeadersChange(e.target.value)}
+							placeholder={
+								"Authorization: Basic dXNlcjpwYXNz\nCF-Access-Client-Id: ..."
+							}
+							rows={3}
+							spellCheck={false}
+							className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-xs placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] outline-none"
+						/>
+						<p className="text-sm text-muted-foreground">
+							One "Name: value" per line, sent with every request. Useful for
+							reverse proxy authentication.
+						</p>
+					</div>
+
+					{isHttps && (
+						<div className="space-y-2">
+							<Label>Certificate</Label>
+							{value.certificateFingerprint ? (
+								<div className="flex items-center gap-2">
+									<ShieldCheck className="w-4 h-4 shrink-0 text-green-500" />
+									<span className="flex-1 min-w-0 truncate font-mono text-xs text-muted-foreground">
+										{value.certificateFingerprint}
+									</span>
+									<Button
+										type="button"
+										variant="outline"
+										size="sm"
+										onClick={() =>
+											onChange({ ...value, certificateFingerprint: undefined })
+										}
+									>
+										Remove
+									</Button>
+								</div>
+							) : (
+								<Button
+									type="button"
+									variant="outline"
+									size="sm"
+									onClick={handleCheckCertificate}
+									disabled={isCheckingCertificate || !serverUrl}
+								>
+									{isCheckingCertificate && (
+										<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									)}
+									Check server certificate
+								</Button>
+							)}
+
+							{certificate && (
+								<div className="p-3 rounded-md border text-sm space-y-2">
+									<div className="flex items-center gap-2 font-medium">
+										{certificate.trusted ? (
+											<ShieldCheck className="w-4 h-4 text-green-500" />
+										) : (
+											<ShieldAlert className="w-4 h-4 text-amber-500" />
+										)}
+										{certificate.trusted
+											? "This certificate is already trusted"
+											: "This certificate is not trusted by your system"}
+									</div>
+									<dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-muted-foreground">
+										<dt>Issued to</dt>
+										<dd className="truncate">{certificate.subject ?? "—"}</dd>
+										<dt>Issued by</dt>
+										<dd className="truncate">{certificate.issuer ?? "—"}</dd>
+										<dt>Expires</dt>
+										<dd>{certificate.validTo}</dd>
+										<dt>Fingerprint</dt>
+										<dd className="font-mono text-xs break-all">
+											{certificate.fingerprint}
+										</dd>
+									</dl>
+									{!certificate.trusted && (
+										<Button
+											type="button"
+											size="sm"
+											onClick={handleTrustCertificate}
+										>
+											Trust this certificate
+										</Button>
+									)}
+								</div>
+							)}
+
+							{certificateError && (
+								<p className="text-sm text-destructive">{certificateError}</p>
+							)}
+							<p className="text-sm text-muted-foreground">
+								Pin a self-signed certificate so the app accepts it. Only trust
+								a fingerprint you recognize.
+							</p>
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	);
+}
@@ -10,6 +10,7 @@ import {
 } from "@/components/ui/context-menu";
 import { getSongsByGenre } from "@/lib/api";
 import { addToQueue, playAlbum } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 
 interface GenreContextMenuProps {
 	genreName: string;
@@ -20,9 +21,11 @@ export function GenreContextMenu({
 	genreName,
 	children,
 }: GenreContextMenuProps) {
+	const musicFolderId = useMusicFolderId();
+
 	const handlePlayAll = async () => {
 		try {
-			const songs = await getSongsByGenre(genreName, 100, 0);
+			const songs = await getSongsByGenre(genreName, 100, 0, { musicFolderId });
 			if (songs.length > 0) {
 				playAlbum(songs, 0);
 			} else {
@@ -35,7 +38,7 @@ export function GenreContextMenu({
 
 	const handleShuffle = async () => {
 		try {
-			const songs = await getSongsByGenre(genreName, 100, 0);
+			const songs = await getSongsByGenre(genreName, 100, 0, { musicFolderId });
 			if (songs.length > 0) {
 				const shuffled = [...songs].sort(() => Math.random() - 0.5);
 				playAlbum(shuffled, 0);
@@ -49,7 +52,7 @@ export function GenreContextMenu({
 
 	const handleAddToQueue = async () => {
 		try {
-			const songs = await getSongsByGenre(genreName, 100, 0);
+			const songs = await getSongsByGenre(genreName, 100, 0, { musicFolderId });
 			if (songs.length > 0) {
 				addToQueue(songs);
 				toast.success(`Added ${songs.length} songs to queue`);
@@ -0,0 +1,34 @@
+import { Link } from "@tanstack/react-router";
+import { Fragment } from "react";
+
+import { cn } from "@/lib/utils";
+
+interface GenreLinksProps {
+	genres: string[];
+	className?: string;
+	linkClassName?: string;
+}
+
+export function GenreLinks({
+	genres,
+	className,
+	linkClassName,
+}: GenreLinksProps) {
+	return (
+		<span className={className}>
+			{genres.map((genre, index) => (
+				<Fragment key={genre}>
+					{index > 0 && ", "}
+					<Link
+						to="/app/genres/$genreName"
+						params={{ genreName: encodeURIComponent(genre) }}
+						onClick={(e) => e.stopPropagation()}
+						className={cn("hover:underline", linkClassName)}
+					>
+						{genre}
+					</Link>
+				</Fragment>
+			))}
+		</span>
+	);
+}
@@ -16,6 +16,7 @@ import {
 import type { Album, Artist, Song } from "@/lib/api";
 import { getCoverArtUrl, search } from "@/lib/api";
 import { playSong } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 
 function ArtistCover({ coverArt }: { coverArt?: string }) {
 	const [coverUrl, setCoverUrl] = useState<string | null>(null);
@@ -105,6 +106,7 @@ export function GlobalSearch() {
 	const [open, setOpen] = useState(false);
 	const [query, setQuery] = useState("");
 	const navigate = useNavigate();
+	const musicFolderId = useMusicFolderId();
 
 	// Debounced search query
 	const [debouncedQuery, setDebouncedQuery] = useState("");
@@ -118,8 +120,8 @@ export function GlobalSearch() {
 
 	// Search API call
 	const { data: searchResults, isLoading } = useQuery({
-		queryKey: ["search", debouncedQuery],
-		queryFn: () => search(debouncedQuery),
+		queryKey: ["search", debouncedQuery, musicFolderId],
+		queryFn: ({ signal }) => search(debouncedQuery, { signal, musicFolderId }),
 		enabled: debouncedQuery.length >= 2,
 		staleTime: 30000,
 	});
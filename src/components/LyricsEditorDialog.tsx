@@ -0,0 +1,352 @@
+import { Download, FileUp, Timer, Undo2 } from "lucide-react";
+import { useEffect, useId, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { setLocalLyrics } from "@/lib/local-lyrics";
+import { formatLrc, formatTimestamp, parseLrc } from "@/lib/lyrics";
+import { seek, usePlayer } from "@/lib/player";
+import { cn } from "@/lib/utils";
+
+// Read a dropped or picked .lrc or .txt file
+export async function readLyricsFile(file: File): Promise<string | null> {
+	try {
+		return await file.text();
+	} catch {
+		toast.error(`Failed to read "${file.name}"`);
+		return null;
+	}
+}
+
+function downloadLrc(text: string, songArtist: string, songTitle: string) {
+	const name = [songArtist, songTitle].filter(Boolean).join(" - ") || "lyrics";
+	const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+	const url = URL.createObjectURL(blob);
+	// Create a hidden anchor element to trigger download
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = `${name.replace(/[\\/:*?"<>|]/g, "_")}.lrc`;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+	URL.revokeObjectURL(url);
+}
+
+interface TimingEditorProps {
+	songId: string;
+	lines: string[];
+	onDone: (starts: number[]) => void;
+	onCancel: () => void;
+}
+
+// Tap along with playback to give each line its start time
+function TimingEditor({ songId, lines, onDone, onCancel }: TimingEditorProps) {
+	const { currentTrack, currentTime } = usePlayer();
+	const [starts, setStarts] = useState<number[]>([]);
+	const activeLineRef = useRef<HTMLLIElement>(null);
+	const isCurrentTrack = currentTrack?.id === songId;
+	const finished = starts.length === lines.length;
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Follow the next line to tap
+	useEffect(() => {
+		activeLineRef.current?.scrollIntoView({ block: "nearest" });
+	}, [starts.length]);
+
+	const handleTap = () => {
+		if (!isCurrentTrack || finished) return;
+		const start = Math.round(currentTime * 1000);
+		// Never before the previous line, in case playback jumped back
+		setStarts([...starts, Math.max(start, starts[starts.length - 1] ?? 0)]);
+	};
+
+	const handleUndo = () => {
+		setStarts(starts.slice(0, -1));
+	};
+
+	const handleRestart = () => {
+		if (!isCurrentTrack) return;
+		setStarts([]);
+		seek(0);
+	};
+
+	const handleKeyDown = (e: React.KeyboardEvent) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			handleTap();
+		} else if (e.key === "Backspace") {
+			e.preventDefault();
+			handleUndo();
+		}
+	};
+
+	return (
+		// biome-ignore lint/a11y/noStaticElementInteractions: Keys tap along wherever focus is in the editor
+		<div className="space-y-4" onKeyDown={handleKeyDown}>
+			{isCurrentTrack ? (
+				<p className="text-sm text-muted-foreground">
+					Play the song and press <strong>Tap</strong> (or Enter) as each line
+					starts. Backspace undoes the last tap.
+				</p>
+			) : (
+				<p className="text-sm text-destructive">
+					Play this song to sync its lyrics
+				</p>
+			)}
+
+			<ol className="max-h-72 overflow-y-auto rounded-md border divide-y text-sm scrollbar-thin">
+				{lines.map((line, index) => (
+					<li
+						// biome-ignore lint/suspicious/noArrayIndexKey: Lines can repeat, so their position is their identity
+						key={index}
+						ref={index === starts.length ? activeLineRef : undefined}
+						className={cn(
+							"flex gap-3 px-3 py-1.5",
+							index === starts.length && "bg-primary/10 font-medium",
+						)}
+					>
+						<span className="w-16 shrink-0 font-mono text-muted-foreground tabular-nums">
+							{starts[index] !== undefined
+								? formatTimestamp(starts[index])
+								: "--:--.--"}
+						</span>
+						<span className="min-w-0">{line}</span>
+					</li>
+				))}
+			</ol>
+
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="font-mono text-sm tabular-nums text-muted-foreground">
+					{formatTimestamp(currentTime * 1000)}
+				</span>
+				<div className="flex-1" />
+				<Button
+					variant="outline"
+					size="sm"
+					onClick={handleRestart}
+					disabled={!isCurrentTrack}
+				>
+					Restart
+				</Button>
+				<Button
+					variant="outline"
+					size="sm"
+					className="gap-2"
+					onClick={handleUndo}
+					disabled={starts.length === 0}
+				>
+					<Undo2 className="w-4 h-4" />
+					Undo
+				</Button>
+				<Button
+					size="sm"
+					className="gap-2"
+					onClick={handleTap}
+					disabled={!isCurrentTrack || finished}
+				>
+					<Timer className="w-4 h-4" />
+					Tap
+				</Button>
+			</div>
+
+			<DialogFooter>
+				<Button variant="outline" onClick={onCancel}>
+					Back
+				</Button>
+				<Button onClick={() => onDone(starts)} disabled={!finished}>
+					Use timings
+				</Button>
+			</DialogFooter>
+		</div>
+	);
+}
+
+interface LyricsEditorDialogProps {
+	songId: string;
+	songTitle: string;
+	songArtist: string;
+	// Lyrics to start from, as LRC or plain text
+	initialText?: string;
+	// Whether the initial text is the server's lyrics rather than a local copy
+	fromServer?: boolean;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Add lyrics for a song on this device, from pasted text or an .lrc file, and
+ * time plain lyrics by tapping along.
+ */
+export function LyricsEditorDialog({
+	songId,
+	songTitle,
+	songArtist,
+	initialText = "",
+	fromServer = false,
+	open,
+	onOpenChange,
+}: LyricsEditorDialogProps) {
+	const [text, setText] = useState(initialText);
+	const [syncing, setSyncing] = useState(false);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const textId = useId();
+
+	const parsed = parseLrc(text);
+	// Blank lines between verses don't need a timestamp
+	const linesToSync = parsed.line
+		.map((line) => line.value)
+		.filter((value) => value.trim());
+
+	const loadFile = async (file: File | undefined) => {
+		if (!file) return;
+		const content = await readLyricsFile(file);
+		if (content !== null) setText(content);
+	};
+
+	const handleDrop = (e: React.DragEvent) => {
+		e.preventDefault();
+		loadFile(e.dataTransfer.files[0]);
+	};
+
+	const handleTimingsDone = (starts: number[]) => {
+		setText(
+			formatLrc({
+				displayTitle: parsed.displayTitle ?? songTitle,
+				displayArtist: parsed.displayArtist ?? songArtist,
+				lang: parsed.lang,
+				synced: true,
+				line: linesToSync.map((value, index) => ({
+					start: starts[index],
+					value,
+				})),
+			}),
+		);
+		setSyncing(false);
+	};
+
+	// Add title and artist tags so the file can be matched when exported
+	const getExportText = () =>
+		parsed.synced
+			? formatLrc({
+					...parsed,
+					displayTitle: parsed.displayTitle ?? songTitle,
+					displayArtist: parsed.displayArtist ?? songArtist,
+				})
+			: text.trim();
+
+	const handleSave = () => {
+		// An unchanged copy would hide later fixes to the server's lyrics
+		if (fromServer && text.trim() === initialText.trim()) {
+			onOpenChange(false);
+			return;
+		}
+		setLocalLyrics(songId, text.trim());
+		toast.success("Lyrics saved on this device");
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>{syncing ? "Sync Lyrics" : "Edit Lyrics"}</DialogTitle>
+					<DialogDescription>
+						{songTitle}
+						{songArtist && ` by ${songArtist}`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{syncing ? (
+					<TimingEditor
+						songId={songId}
+						lines={linesToSync}
+						onDone={handleTimingsDone}
+						onCancel={() => setSyncing(false)}
+					/>
+				) : (
+					<div className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor={textId}>Lyrics</Label>
+							<textarea
+								id={textId}
+								value={text}
+								onChange={(e) => setText(e.target.value)}
+								onDragOver={(e) => e.preventDefault()}
+								onDrop={handleDrop}
+								placeholder={
+									"Paste lyrics or drop an .lrc file here\n\n[00:12.34]First line\n[00:15.67]Second line"
+								}
+								rows={14}
+								spellCheck={false}
+								className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-xs placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] outline-none"
+							/>
+							<p className="text-sm text-muted-foreground">
+								{parsed.synced
+									? `${parsed.line.length} timed lines. `
+									: "Plain lyrics can be synced by tapping along. "}
+								{fromServer
+									? "Saving keeps a copy on this device that replaces the server's lyrics."
+									: "Lyrics are only saved on this device."}
+							</p>
+						</div>
+
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept=".lrc,.txt,text/plain"
+							className="hidden"
+							onChange={(e) => {
+								loadFile(e.target.files?.[0]);
+								e.target.value = "";
+							}}
+						/>
+
+						<DialogFooter className="sm:justify-between">
+							<div className="flex flex-wrap gap-2">
+								<Button
+									variant="outline"
+									className="gap-2"
+									onClick={() => fileInputRef.current?.click()}
+								>
+									<FileUp className="w-4 h-4" />
+									Open file
+								</Button>
+								<Button
+									variant="outline"
+									className="gap-2"
+									onClick={() => setSyncing(true)}
+									disabled={linesToSync.length === 0}
+								>
+									<Timer className="w-4 h-4" />
+									{parsed.synced ? "Resync" : "Sync timing"}
+								</Button>
+								<Button
+									variant="outline"
+									className="gap-2"
+									onClick={() =>
+										downloadLrc(getExportText(), songArtist, songTitle)
+									}
+									disabled={!text.trim()}
+								>
+									<Download className="w-4 h-4" />
+									Export .lrc
+								</Button>
+							</div>
+							<Button onClick={handleSave} disabled={!text.trim()}>
+								Save
+							</Button>
+						</DialogFooter>
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,32 +1,291 @@
 import { useQuery } from "@tanstack/react-query";
-import { FileText, X } from "lucide-react";
+import {
+	FileText,
+	Minus,
+	Pencil,
+	Plus,
+	RotateCcw,
+	Timer,
+	Trash2,
+	X,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
 
+import {
+	LyricsEditorDialog,
+	readLyricsFile,
+} from "@/components/LyricsEditorDialog";
 import { Button } from "@/components/ui/button";
-import { getLyrics } from "@/lib/api";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { StructuredLyrics } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import {
+	removeLocalLyrics,
+	setLocalLyrics,
+	useLocalLyrics,
+} from "@/lib/local-lyrics";
+import {
+	alignLyrics,
+	fetchLyrics,
+	findActiveLine,
+	formatLrc,
+	getLanguageName,
+	getLineTime,
+	getLyricsLanguages,
+	getLyricsPosition,
+	getTranslations,
+	isSynced,
+	parseLrc,
+	pickLyrics,
+	setLyricsOffset,
+	useLyricsOffset,
+} from "@/lib/lyrics";
+import { seek, usePlayer } from "@/lib/player";
+import { useSettings } from "@/lib/settings";
+import { cn } from "@/lib/utils";
+
+// Step for the timing adjustment buttons, in milliseconds
+const OFFSET_STEP = 250;
+// Don't fight the user: pause auto-scroll for a while after they scroll
+const MANUAL_SCROLL_PAUSE = 3000;
+const NO_TRANSLATION = "none";
 
 interface LyricsPanelProps {
+	songId?: string;
 	songTitle: string;
 	songArtist: string;
 	onClose: () => void;
 	showHeader?: boolean;
 }
 
+function formatOffset(offset: number): string {
+	const seconds = (offset / 1000).toFixed(2).replace(/\.?0+$/, "");
+	return `${offset > 0 ? "+" : ""}${seconds}s`;
+}
+
+function OffsetControls({ songId }: { songId: string }) {
+	const offset = useLyricsOffset(songId);
+
+	return (
+		<div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+			<span className="mr-1">Timing</span>
+			<Button
+				variant="ghost"
+				size="icon"
+				className="w-6 h-6"
+				onClick={() => setLyricsOffset(songId, offset - OFFSET_STEP)}
+				title="Show lyrics later"
+			>
+				<Minus className="w-3 h-3" />
+			</Button>
+			<span className="w-12 text-center tabular-nums">
+				{formatOffset(offset)}
+			</span>
+			<Button
+				variant="ghost"
+				size="icon"
+				className="w-6 h-6"
+				onClick={() => setLyricsOffset(songId, offset + OFFSET_STEP)}
+				title="Show lyrics sooner"
+			>
+				<Plus className="w-3 h-3" />
+			</Button>
+			<Button
+				variant="ghost"
+				size="icon"
+				className="w-6 h-6"
+				onClick={() => setLyricsOffset(songId, 0)}
+				disabled={offset === 0}
+				title="Reset timing"
+			>
+				<RotateCcw className="w-3 h-3" />
+			</Button>
+		</div>
+	);
+}
+
+function SyncedLyrics({
+	lyrics,
+	translation,
+	songId,
+}: {
+	lyrics: StructuredLyrics;
+	// Shown line by line in a second column
+	translation?: StructuredLyrics;
+	songId?: string;
+}) {
+	const { currentTime } = usePlayer();
+	const userOffset = useLyricsOffset(songId);
+	const containerRef = useRef<HTMLDivElement>(null);
+	const activeLineRef = useRef<HTMLButtonElement>(null);
+	const lastManualScroll = useRef(0);
+
+	const translatedLines = useMemo(
+		() => (translation ? alignLyrics(lyrics, translation) : undefined),
+		[lyrics, translation],
+	);
+
+	const activeIndex = findActiveLine(
+		lyrics.line,
+		getLyricsPosition(currentTime, lyrics.offset, userOffset),
+	);
+
+	// Keep the active line centered as the song plays
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Scroll whenever the active line changes
+	useEffect(() => {
+		const container = containerRef.current;
+		const line = activeLineRef.current;
+		if (!container || !line) return;
+		if (Date.now() - lastManualScroll.current < MANUAL_SCROLL_PAUSE) return;
+
+		container.scrollTo({
+			top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+			behavior: "smooth",
+		});
+	}, [activeIndex]);
+
+	const handleManualScroll = () => {
+		lastManualScroll.current = Date.now();
+	};
+
+	return (
+		<div className="flex-1 flex flex-col min-h-0 gap-2">
+			<div
+				ref={containerRef}
+				onWheel={handleManualScroll}
+				onTouchMove={handleManualScroll}
+				className="relative flex-1 overflow-y-auto scrollbar-thin space-y-1 py-[40%]"
+			>
+				{lyrics.line.map((line, index) => (
+					<button
+						// biome-ignore lint/suspicious/noArrayIndexKey: Lines can repeat, so their position is their identity
+						key={index}
+						ref={index === activeIndex ? activeLineRef : undefined}
+						type="button"
+						onClick={() => seek(getLineTime(line, lyrics.offset, userOffset))}
+						className={cn(
+							"block w-full text-left rounded px-2 py-1 leading-snug transition-all duration-300 hover:bg-muted/50",
+							translatedLines ? "grid grid-cols-2 gap-4 text-base" : "text-lg",
+							index === activeIndex
+								? "text-foreground font-semibold"
+								: index < activeIndex
+									? "text-muted-foreground/60"
+									: "text-muted-foreground",
+						)}
+					>
+						{/* Empty lines mark instrumental breaks */}
+						<span>{line.value.trim() || "♪"}</span>
+						{translatedLines && (
+							<span className="font-normal opacity-80">
+								{translatedLines[index]}
+							</span>
+						)}
+					</button>
+				))}
+			</div>
+			{songId && <OffsetControls songId={songId} />}
+		</div>
+	);
+}
+
+function NoLyrics({ message, onAdd }: { message: string; onAdd?: () => void }) {
+	return (
+		<div className="space-y-3">
+			<p className="text-sm text-muted-foreground">{message}</p>
+			{onAdd && (
+				<>
+					<Button variant="outline" size="sm" className="gap-2" onClick={onAdd}>
+						<Plus className="w-4 h-4" />
+						Add lyrics
+					</Button>
+					<p className="text-xs text-muted-foreground">
+						Or drop an .lrc file here
+					</p>
+				</>
+			)}
+		</div>
+	);
+}
+
+function PlainLyrics({ lyrics }: { lyrics: StructuredLyrics }) {
+	return (
+		<div className="prose prose-sm dark:prose-invert flex-1 overflow-y-auto scrollbar-thin">
+			<p className="whitespace-pre-wrap">
+				{lyrics.line.map((line) => line.value).join("\n")}
+			</p>
+		</div>
+	);
+}
+
 export function LyricsPanel({
+	songId,
 	songTitle,
 	songArtist,
 	onClose,
 	showHeader = true,
 }: LyricsPanelProps) {
-	const { data: lyrics, isLoading } = useQuery({
-		queryKey: ["lyrics", songArtist, songTitle],
-		queryFn: () => getLyrics(songArtist, songTitle),
-		enabled: !!songArtist && !!songTitle,
+	const { features } = useServerCapabilities();
+	const { settings, updateSettings } = useSettings();
+	const [editorOpen, setEditorOpen] = useState(false);
+	const localLyrics = useLocalLyrics(songId);
+	const useSongLyrics = features.songLyrics && !!songId;
+
+	// Lyrics added on this device win over the server's
+	const local = useMemo(
+		() => (localLyrics ? parseLrc(localLyrics.text) : undefined),
+		[localLyrics],
+	);
+
+	const { data: lyricsSets, isLoading } = useQuery({
+		queryKey: useSongLyrics
+			? ["lyrics", "song", songId]
+			: ["lyrics", songArtist, songTitle],
+		queryFn: ({ signal }) =>
+			fetchLyrics(songId, songArtist, songTitle, useSongLyrics, {
+				signal,
+			}),
+		enabled:
+			features.lyrics && (useSongLyrics || (!!songArtist && !!songTitle)),
 	});
 
-	const lyricsText = lyrics?.value ?? lyrics?.lyrics?.[0]?.value;
+	const languages = local ? [] : getLyricsLanguages(lyricsSets ?? []);
+	const lyrics = local ?? pickLyrics(lyricsSets ?? [], settings.lyricsLanguage);
+	const translations = lyrics ? getTranslations(lyricsSets ?? [], lyrics) : [];
+	const translation = translations.find(
+		(set) => set.lang === settings.lyricsTranslation,
+	);
+
+	const handleDrop = async (e: React.DragEvent) => {
+		const file = e.dataTransfer.files[0];
+		if (!songId || !file) return;
+		e.preventDefault();
+		const text = await readLyricsFile(file);
+		if (text?.trim()) {
+			setLocalLyrics(songId, text.trim());
+			toast.success("Lyrics saved on this device");
+		}
+	};
+
+	const handleRemoveLocal = () => {
+		if (!songId) return;
+		removeLocalLyrics(songId);
+		toast.success("Local lyrics removed");
+	};
 
 	return (
-		<div className="p-6 space-y-4 h-full flex flex-col">
+		// biome-ignore lint/a11y/noStaticElementInteractions: Drop target for .lrc files
+		<div
+			className="p-6 space-y-4 h-full flex flex-col"
+			onDragOver={(e) => songId && e.preventDefault()}
+			onDrop={handleDrop}
+		>
 			{showHeader && (
 				<div className="flex items-center justify-between">
 					<div className="flex items-center gap-3">
@@ -44,7 +303,12 @@ export function LyricsPanel({
 				</div>
 			)}
 
-			{isLoading ? (
+			{!lyrics && !features.lyrics ? (
+				<NoLyrics
+					message="This server doesn't support lyrics"
+					onAdd={songId ? () => setEditorOpen(true) : undefined}
+				/>
+			) : !lyrics && isLoading ? (
 				<div className="animate-pulse space-y-3">
 					<div className="h-4 bg-muted rounded w-3/4" />
 					<div className="h-4 bg-muted rounded w-1/2" />
@@ -52,14 +316,117 @@ export function LyricsPanel({
 					<div className="h-4 bg-muted rounded w-full" />
 					<div className="h-4 bg-muted rounded w-1/2" />
 				</div>
-			) : !lyricsText ? (
-				<p className="text-sm text-muted-foreground">
-					No lyrics available for this song
-				</p>
+			) : !lyrics ? (
+				<NoLyrics
+					message="No lyrics available for this song"
+					onAdd={songId ? () => setEditorOpen(true) : undefined}
+				/>
 			) : (
-				<div className="prose prose-sm dark:prose-invert flex-1 overflow-y-auto scrollbar-thin">
-					<p className="whitespace-pre-wrap">{lyricsText}</p>
-				</div>
+				<>
+					<div className="flex flex-wrap items-center gap-2">
+						{languages.length > 1 && (
+							<Select
+								value={lyrics.lang}
+								onValueChange={(lang) =>
+									updateSettings({ lyricsLanguage: lang })
+								}
+							>
+								<SelectTrigger size="sm" title="Lyrics language">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{languages.map((lang) => (
+										<SelectItem key={lang} value={lang}>
+											{getLanguageName(lang)}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						)}
+						{translations.length > 0 && (
+							<Select
+								value={translation?.lang ?? NO_TRANSLATION}
+								onValueChange={(lang) =>
+									updateSettings({
+										lyricsTranslation:
+											lang === NO_TRANSLATION ? undefined : lang,
+									})
+								}
+							>
+								<SelectTrigger size="sm" title="Show alongside">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value={NO_TRANSLATION}>No translation</SelectItem>
+									{getLyricsLanguages(translations).map((lang) => (
+										<SelectItem key={lang} value={lang}>
+											Beside: {getLanguageName(lang)}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						)}
+						{local && (
+							<span className="text-xs text-muted-foreground">
+								Saved on this device
+							</span>
+						)}
+						{songId && (
+							<div className="ml-auto flex items-center">
+								<Button
+									variant="ghost"
+									size="icon"
+									className="w-8 h-8"
+									onClick={() => setEditorOpen(true)}
+									title={
+										isSynced(lyrics) ? "Edit lyrics" : "Edit or sync lyrics"
+									}
+								>
+									{isSynced(lyrics) ? (
+										<Pencil className="w-4 h-4" />
+									) : (
+										<Timer className="w-4 h-4" />
+									)}
+								</Button>
+								{local && (
+									<Button
+										variant="ghost"
+										size="icon"
+										className="w-8 h-8"
+										onClick={handleRemoveLocal}
+										title="Remove local lyrics"
+									>
+										<Trash2 className="w-4 h-4" />
+									</Button>
+								)}
+							</div>
+						)}
+					</div>
+					{isSynced(lyrics) ? (
+						<SyncedLyrics
+							key={songId}
+							lyrics={lyrics}
+							translation={translation}
+							songId={songId}
+						/>
+					) : (
+						<PlainLyrics lyrics={lyrics} />
+					)}
+				</>
+			)}
+
+			{editorOpen && songId && (
+				<LyricsEditorDialog
+					songId={songId}
+					songTitle={songTitle}
+					songArtist={songArtist}
+					initialText={
+						localLyrics?.text ?? (lyrics ? formatLrc(lyrics) : undefined)
+					}
+					fromServer={!localLyrics && !!lyrics}
+					open
+					onOpenChange={setEditorOpen}
+				/>
 			)}
 		</div>
 	);
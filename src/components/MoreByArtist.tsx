@@ -12,7 +12,8 @@ interface MoreByArtistProps {
 export function MoreByArtist({ artistId, excludeAlbumId }: MoreByArtistProps) {
 	const { data: albums, isLoading } = useQuery({
 		queryKey: ["artist-albums", artistId],
-		queryFn: () => (artistId ? getArtistAlbums(artistId) : []),
+		queryFn: ({ signal }) =>
+			artistId ? getArtistAlbums(artistId, { signal }) : [],
 		enabled: !!artistId,
 	});
 
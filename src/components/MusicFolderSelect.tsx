@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { SidebarGroup } from "@/components/ui/sidebar";
+import { getMusicFolders } from "@/lib/api";
+import { setMusicFolderId, useMusicFolderId } from "@/lib/settings";
+
+const ALL_FOLDERS = "all";
+
+// Sidebar picker limiting browsing and search to one library. Hidden when
+// the server only has one.
+export function MusicFolderSelect() {
+	const musicFolderId = useMusicFolderId();
+
+	const { data: folders } = useQuery({
+		queryKey: ["musicFolders"],
+		queryFn: ({ signal }) => getMusicFolders({ signal }),
+		staleTime: 10 * 60 * 1000,
+	});
+
+	// Fall back to all libraries if the selected one was removed
+	useEffect(() => {
+		if (
+			folders &&
+			musicFolderId &&
+			!folders.some((folder) => folder.id === musicFolderId)
+		) {
+			setMusicFolderId(undefined);
+		}
+	}, [folders, musicFolderId]);
+
+	if (!folders || folders.length < 2) return null;
+
+	return (
+		<SidebarGroup className="pb-0 group-data-[collapsible=icon]:hidden">
+			<Select
+				value={musicFolderId ?? ALL_FOLDERS}
+				onValueChange={(value) =>
+					setMusicFolderId(value === ALL_FOLDERS ? undefined : value)
+				}
+			>
+				<SelectTrigger className="w-full" size="sm">
+					<SelectValue placeholder="All libraries" />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value={ALL_FOLDERS}>All libraries</SelectItem>
+					{folders.map((folder) => (
+						<SelectItem key={folder.id} value={folder.id}>
+							{folder.name || `Library ${folder.id}`}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</SidebarGroup>
+	);
+}
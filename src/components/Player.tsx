@@ -3,6 +3,7 @@ import {
 	ChevronDown,
 	Disc3,
 	FileText,
+	Info,
 	ListMusic,
 	Loader2,
 	Music,
@@ -22,9 +23,13 @@ import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 
 import { AddToPlaylistButton } from "@/components/AddToPlaylistButton";
+import { ArtistLinks } from "@/components/ArtistLinks";
 import { LyricsPanel } from "@/components/LyricsPanel";
 import { QueueContextMenu } from "@/components/QueueContextMenu";
+import { RadioPlayer } from "@/components/RadioPlayer";
+import { RatingStars } from "@/components/RatingStars";
 import { StarButton } from "@/components/StarButton";
+import { TrackInfoDialog } from "@/components/TrackInfoDialog";
 import { Button } from "@/components/ui/button";
 import {
 	Drawer,
@@ -34,7 +39,7 @@ import {
 } from "@/components/ui/drawer";
 import { Slider } from "@/components/ui/slider";
 import { useIsMobile } from "@/hooks/use-mobile";
-import type { Song } from "@/lib/api";
+import { getArtistCredits, type Song } from "@/lib/api";
 import { getTrackCoverUrl, restoreQueueState, usePlayer } from "@/lib/player";
 import { cn } from "@/lib/utils";
 
@@ -94,6 +99,7 @@ export function Player() {
 		clearQueue,
 		toggleShuffle,
 		toggleRepeat,
+		radioStation,
 	} = usePlayer();
 
 	const isMobile = useIsMobile();
@@ -107,6 +113,7 @@ export function Player() {
 	const [showQueue, setShowQueue] = useState(false);
 	const [showLyrics, setShowLyrics] = useState(false);
 	const [drawerOpen, setDrawerOpen] = useState(false);
+	const [trackInfoOpen, setTrackInfoOpen] = useState(false);
 	const [mobileTab, setMobileTab] = useState<"player" | "queue" | "lyrics">(
 		"player",
 	);
@@ -140,6 +147,10 @@ export function Player() {
 		}
 	}, [currentTrack?.coverArt]);
 
+	if (radioStation) {
+		return <RadioPlayer />;
+	}
+
 	// Don't render if no track
 	if (!currentTrack) {
 		return null;
@@ -354,16 +365,12 @@ export function Player() {
 						>
 							{currentTrack.title}
 						</Link>
-						<Link
-							to={currentTrack.artistId ? "/app/artists/$artistId" : "/"}
-							params={
-								currentTrack.artistId ? { artistId: currentTrack.artistId } : {}
-							}
-							onClick={() => setDrawerOpen(false)}
-							className="text-muted-foreground hover:text-primary transition-colors block"
-						>
-							{currentTrack.artist}
-						</Link>
+						<ArtistLinks
+							artists={getArtistCredits(currentTrack)}
+							onNavigate={() => setDrawerOpen(false)}
+							className="text-muted-foreground block"
+							linkClassName="hover:no-underline hover:text-primary transition-colors"
+						/>
 					</div>
 
 					{/* Progress bar */}
@@ -439,6 +446,14 @@ export function Player() {
 						</Button>
 					</div>
 
+					<RatingStars
+						id={currentTrack.id}
+						type="song"
+						rating={currentTrack.userRating}
+						size="lg"
+						className="justify-center"
+					/>
+
 					{/* Secondary controls */}
 					<div className="flex items-center justify-center gap-6">
 						<StarButton
@@ -461,6 +476,14 @@ export function Player() {
 							size="default"
 							dropdownPosition="top"
 						/>
+						<Button
+							variant="ghost"
+							size="icon"
+							onClick={() => setTrackInfoOpen(true)}
+							title="Track info"
+						>
+							<Info className="w-5 h-5" />
+						</Button>
 					</div>
 				</div>
 			)}
@@ -468,6 +491,7 @@ export function Player() {
 			{mobileTab === "lyrics" && (
 				<div className="flex-1 overflow-hidden">
 					<LyricsPanel
+						songId={currentTrack.id}
 						songTitle={currentTrack.title}
 						songArtist={currentTrack.artist ?? ""}
 						onClose={() => setMobileTab("player")}
@@ -600,15 +624,11 @@ export function Player() {
 					>
 						{currentTrack.title}
 					</Link>
-					<Link
-						to={currentTrack.artistId ? "/app/artists/$artistId" : "/"}
-						params={
-							currentTrack.artistId ? { artistId: currentTrack.artistId } : {}
-						}
-						className="text-xs text-muted-foreground truncate hover:text-primary transition-colors block"
-					>
-						{currentTrack.artist}
-					</Link>
+					<ArtistLinks
+						artists={getArtistCredits(currentTrack)}
+						className="text-xs text-muted-foreground truncate block"
+						linkClassName="hover:no-underline hover:text-primary transition-colors"
+					/>
 				</div>
 			</div>
 
@@ -699,6 +719,13 @@ export function Player() {
 
 			{/* Right side controls */}
 			<div className="flex items-center justify-end gap-2 shrink-0 lg:flex-1 lg:basis-0">
+				<RatingStars
+					id={currentTrack.id}
+					type="song"
+					rating={currentTrack.userRating}
+					size="sm"
+					className="hidden lg:flex"
+				/>
 				<StarButton
 					id={currentTrack.id}
 					type="song"
@@ -731,6 +758,15 @@ export function Player() {
 				>
 					<FileText className="w-4 h-4" />
 				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="w-8 h-8"
+					onClick={() => setTrackInfoOpen(true)}
+					title="Track info"
+				>
+					<Info className="w-4 h-4" />
+				</Button>
 				<Button
 					variant="ghost"
 					size="icon"
@@ -879,6 +915,7 @@ export function Player() {
 						</div>
 						<div className="flex-1 overflow-hidden">
 							<LyricsPanel
+								songId={currentTrack.id}
 								songTitle={currentTrack.title}
 								songArtist={currentTrack.artist ?? ""}
 								onClose={() => setShowLyrics(false)}
@@ -891,12 +928,20 @@ export function Player() {
 		</>
 	);
 
+	const trackInfoDialog = trackInfoOpen && (
+		<TrackInfoDialog song={currentTrack} open onOpenChange={setTrackInfoOpen} />
+	);
+
 	return isMobile ? (
-		mobilePlayer
+		<>
+			{mobilePlayer}
+			{trackInfoDialog}
+		</>
 	) : (
 		<>
 			{desktopPlayer}
 			{desktopDrawers}
+			{trackInfoDialog}
 		</>
 	);
 }
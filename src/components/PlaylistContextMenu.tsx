@@ -1,8 +1,9 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { ListEnd, Play, Shuffle, Trash2 } from "lucide-react";
-import { type ReactNode, useRef } from "react";
+import { ListEnd, Play, Share2, Shuffle, Trash2 } from "lucide-react";
+import { type ReactNode, useRef, useState } from "react";
 import { toast } from "sonner";
 
+import { ShareDialog } from "@/components/ShareDialog";
 import {
 	ContextMenu,
 	ContextMenuContent,
@@ -12,6 +13,7 @@ import {
 } from "@/components/ui/context-menu";
 import type { Playlist } from "@/lib/api";
 import { createPlaylist, deletePlaylist, getPlaylist } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 import { addToQueue, playAlbum } from "@/lib/player";
 
 interface PlaylistContextMenuProps {
@@ -24,6 +26,8 @@ export function PlaylistContextMenu({
 	children,
 }: PlaylistContextMenuProps) {
 	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const [shareOpen, setShareOpen] = useState(false);
 	// Store playlist data for undo
 	const deletedPlaylistData = useRef<{
 		name: string;
@@ -121,32 +125,46 @@ export function PlaylistContextMenu({
 	};
 
 	return (
-		<ContextMenu>
-			<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
-			<ContextMenuContent className="w-56">
-				<ContextMenuItem onClick={handlePlay}>
-					<Play className="mr-2 h-4 w-4" />
-					Play
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handleShuffle}>
-					<Shuffle className="mr-2 h-4 w-4" />
-					Shuffle
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handleAddToQueue}>
-					<ListEnd className="mr-2 h-4 w-4" />
-					Add to queue
-				</ContextMenuItem>
+		<>
+			<ContextMenu>
+				<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+				<ContextMenuContent className="w-56">
+					<ContextMenuItem onClick={handlePlay}>
+						<Play className="mr-2 h-4 w-4" />
+						Play
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handleShuffle}>
+						<Shuffle className="mr-2 h-4 w-4" />
+						Shuffle
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handleAddToQueue}>
+						<ListEnd className="mr-2 h-4 w-4" />
+						Add to queue
+					</ContextMenuItem>
+					{features.sharing && (
+						<ContextMenuItem onClick={() => setShareOpen(true)}>
+							<Share2 className="mr-2 h-4 w-4" />
+							Share…
+						</ContextMenuItem>
+					)}
 
-				<ContextMenuSeparator />
+					<ContextMenuSeparator />
 
-				<ContextMenuItem
-					onClick={handleDelete}
-					className="text-destructive focus:text-destructive"
-				>
-					<Trash2 className="mr-2 h-4 w-4" />
-					Delete playlist
-				</ContextMenuItem>
-			</ContextMenuContent>
-		</ContextMenu>
+					<ContextMenuItem
+						onClick={handleDelete}
+						className="text-destructive focus:text-destructive"
+					>
+						<Trash2 className="mr-2 h-4 w-4" />
+						Delete playlist
+					</ContextMenuItem>
+				</ContextMenuContent>
+			</ContextMenu>
+			<ShareDialog
+				open={shareOpen}
+				onOpenChange={setShareOpen}
+				itemId={playlist.id}
+				itemName={playlist.name}
+			/>
+		</>
 	);
 }
@@ -9,25 +9,20 @@ import {
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
-
 import type { PlaylistWithSongs, Song } from "@/lib/api";
 import { getCoverArtUrl, updatePlaylist } from "@/lib/api";
+import { formatDuration } from "@/lib/format";
 import { playSong, usePlayer } from "@/lib/player";
 import { cn } from "@/lib/utils";
 import { AddToPlaylistButton } from "./AddToPlaylistButton";
 import { SongContextMenu } from "./SongContextMenu";
 import { StarButton } from "./StarButton";
 
-function formatDuration(seconds: number): string {
-	const mins = Math.floor(seconds / 60);
-	const secs = seconds % 60;
-	return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
 interface PlaylistSongRowProps {
 	song: Song;
 	index: number;
 	songs: Song[];
+	editable: boolean;
 	onRemove: (index: number) => void;
 	isRemoving: boolean;
 	onDragStart: (index: number) => void;
@@ -41,6 +36,7 @@ function PlaylistSongRow({
 	song,
 	index,
 	songs,
+	editable,
 	onRemove,
 	isRemoving,
 	onDragStart,
@@ -75,7 +71,7 @@ function PlaylistSongRow({
 			{/* biome-ignore lint/a11y/useSemanticElements: Using div for drag-and-drop grid layout */}
 			<div
 				role="listitem"
-				draggable
+				draggable={editable}
 				onDragStart={(e) => {
 					e.dataTransfer.effectAllowed = "move";
 					onDragStart(index);
@@ -94,7 +90,12 @@ function PlaylistSongRow({
 				)}
 			>
 				{/* Drag handle */}
-				<div className="flex items-center cursor-grab active:cursor-grabbing">
+				<div
+					className={cn(
+						"flex items-center cursor-grab active:cursor-grabbing",
+						!editable && "invisible",
+					)}
+				>
 					<GripVertical className="w-4 h-4 text-muted-foreground" />
 				</div>
 
@@ -195,7 +196,7 @@ function PlaylistSongRow({
 				</div>
 
 				{/* Remove from playlist */}
-				<div className="flex items-center">
+				<div className={cn("flex items-center", !editable && "invisible")}>
 					<button
 						type="button"
 						onClick={() => onRemove(index)}
@@ -225,9 +226,15 @@ function PlaylistSongRow({
 interface PlaylistSongListProps {
 	playlistId: string;
 	songs: Song[];
+	/** Allow removing and reordering songs */
+	editable?: boolean;
 }
 
-export function PlaylistSongList({ playlistId, songs }: PlaylistSongListProps) {
+export function PlaylistSongList({
+	playlistId,
+	songs,
+	editable = true,
+}: PlaylistSongListProps) {
 	const queryClient = useQueryClient();
 	const [removingIndex, setRemovingIndex] = useState<number | null>(null);
 	const [dragIndex, setDragIndex] = useState<number | null>(null);
@@ -456,6 +463,7 @@ export function PlaylistSongList({ playlistId, songs }: PlaylistSongListProps) {
 						song={song}
 						index={index}
 						songs={songs}
+						editable={editable}
 						onRemove={handleRemove}
 						isRemoving={removingIndex === index}
 						onDragStart={handleDragStart}
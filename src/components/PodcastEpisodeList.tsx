@@ -0,0 +1,267 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+	AlertCircle,
+	Check,
+	Download,
+	Loader2,
+	Pause,
+	Play,
+	RotateCcw,
+	Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	deletePodcastEpisode,
+	downloadPodcastEpisode,
+	episodeToSong,
+	type PodcastChannel,
+	type PodcastEpisode,
+} from "@/lib/api";
+import { stripHtml } from "@/lib/format";
+import { usePlayer } from "@/lib/player";
+import {
+	type EpisodeProgress,
+	markEpisodeFinished,
+	usePodcastProgress,
+} from "@/lib/podcast-progress";
+import { cn } from "@/lib/utils";
+
+// Rounded for episode lists, unlike the player's m:ss
+function formatEpisodeLength(seconds: number): string {
+	const hours = Math.floor(seconds / 3600);
+	const mins = Math.floor((seconds % 3600) / 60);
+	if (hours > 0) {
+		return `${hours}h ${mins}m`;
+	}
+	return `${Math.max(1, mins)} min`;
+}
+
+function formatRemaining(progress: EpisodeProgress): string {
+	return `${formatEpisodeLength(progress.duration - progress.position)} left`;
+}
+
+interface PodcastEpisodeListProps {
+	episodes: PodcastEpisode[];
+	// Channels the episodes belong to, for artwork and titles
+	channels: PodcastChannel[];
+	// Show download and delete actions
+	canManage?: boolean;
+	showChannel?: boolean;
+}
+
+export function PodcastEpisodeList({
+	episodes,
+	channels,
+	canManage = false,
+	showChannel = false,
+}: PodcastEpisodeListProps) {
+	const queryClient = useQueryClient();
+	const progress = usePodcastProgress();
+	const { currentTrack, isPlaying, playSong, togglePlayPause } = usePlayer();
+
+	const invalidatePodcasts = () => {
+		queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+		queryClient.invalidateQueries({ queryKey: ["podcast"] });
+		queryClient.invalidateQueries({ queryKey: ["newestPodcasts"] });
+	};
+
+	const downloadMutation = useMutation({
+		mutationFn: (id: string) => downloadPodcastEpisode(id),
+		onSuccess: () => {
+			invalidatePodcasts();
+			toast.success("Downloading episode");
+		},
+		onError: () => {
+			toast.error("Failed to download episode");
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deletePodcastEpisode(id),
+		onSuccess: () => {
+			invalidatePodcasts();
+			toast.success("Episode deleted");
+		},
+		onError: () => {
+			toast.error("Failed to delete episode");
+		},
+	});
+
+	const handlePlay = (episode: PodcastEpisode) => {
+		const song = episodeToSong(
+			episode,
+			channels.find((channel) => channel.id === episode.channelId),
+		);
+		if (!song) return;
+		if (currentTrack?.id === song.id) {
+			togglePlayPause();
+		} else {
+			playSong(song);
+		}
+	};
+
+	return (
+		<div className="divide-y rounded-lg border">
+			{episodes.map((episode) => {
+				const channel = channels.find((c) => c.id === episode.channelId);
+				// Only downloaded episodes can be streamed
+				const streamId =
+					episode.status === "completed" ? episode.streamId : undefined;
+				const isDownloaded = !!streamId;
+				const isCurrent = !!streamId && currentTrack?.id === streamId;
+				const episodeProgress = streamId ? progress[streamId] : undefined;
+				const description = episode.description
+					? stripHtml(episode.description)
+					: "";
+
+				return (
+					<div
+						key={episode.id}
+						className={cn(
+							"flex items-start gap-3 px-3 py-3",
+							isCurrent && "bg-muted/30",
+						)}
+					>
+						<Button
+							variant={isCurrent ? "default" : "ghost"}
+							size="icon"
+							className="w-10 h-10 rounded-full shrink-0"
+							onClick={() => handlePlay(episode)}
+							disabled={!isDownloaded}
+							title={
+								isDownloaded
+									? isCurrent && isPlaying
+										? "Pause"
+										: "Play"
+									: "Download the episode to play it"
+							}
+						>
+							{isCurrent && isPlaying ? (
+								<Pause className="w-4 h-4" />
+							) : (
+								<Play className="w-4 h-4 ml-0.5" />
+							)}
+						</Button>
+
+						<div className="min-w-0 flex-1 space-y-1">
+							<p
+								className={cn(
+									"text-sm font-medium line-clamp-2",
+									isCurrent && "text-primary",
+									episodeProgress?.finished && "text-muted-foreground",
+								)}
+							>
+								{episode.title}
+							</p>
+							<div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground">
+								{showChannel && channel?.title && (
+									<span className="truncate">{channel.title}</span>
+								)}
+								{episode.publishDate && (
+									<span>
+										{new Date(episode.publishDate).toLocaleDateString()}
+									</span>
+								)}
+								{episodeProgress?.finished ? (
+									<span className="inline-flex items-center gap-1">
+										<Check className="w-3 h-3" />
+										Played
+									</span>
+								) : episodeProgress && episodeProgress.position > 0 ? (
+									<span>{formatRemaining(episodeProgress)}</span>
+								) : episode.duration ? (
+									<span>{formatEpisodeLength(episode.duration)}</span>
+								) : null}
+								{episode.status === "downloading" && (
+									<span className="inline-flex items-center gap-1">
+										<Loader2 className="w-3 h-3 animate-spin" />
+										Downloading
+									</span>
+								)}
+								{episode.status === "error" && (
+									<span className="inline-flex items-center gap-1 text-destructive">
+										<AlertCircle className="w-3 h-3" />
+										Download failed
+									</span>
+								)}
+								{(episode.status === "new" ||
+									episode.status === "skipped" ||
+									episode.status === "deleted") && <span>Not downloaded</span>}
+							</div>
+							{episodeProgress &&
+								!episodeProgress.finished &&
+								episodeProgress.position > 0 && (
+									<div className="h-1 w-full max-w-xs rounded-full bg-muted overflow-hidden">
+										<div
+											className="h-full bg-primary"
+											style={{
+												width: `${(episodeProgress.position / episodeProgress.duration) * 100}%`,
+											}}
+										/>
+									</div>
+								)}
+							{description && (
+								<p className="text-xs text-muted-foreground line-clamp-2">
+									{description}
+								</p>
+							)}
+						</div>
+
+						<div className="flex items-center shrink-0">
+							{streamId && (
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() =>
+										markEpisodeFinished(
+											streamId,
+											!episodeProgress?.finished,
+											episode.duration,
+										)
+									}
+									title={
+										episodeProgress?.finished
+											? "Mark as unplayed"
+											: "Mark as played"
+									}
+								>
+									{episodeProgress?.finished ? (
+										<RotateCcw className="w-4 h-4" />
+									) : (
+										<Check className="w-4 h-4" />
+									)}
+								</Button>
+							)}
+							{canManage &&
+								!isDownloaded &&
+								episode.status !== "downloading" && (
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => downloadMutation.mutate(episode.id)}
+										disabled={downloadMutation.isPending}
+										title="Download episode to the server"
+									>
+										<Download className="w-4 h-4" />
+									</Button>
+								)}
+							{canManage && isDownloaded && (
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => deleteMutation.mutate(episode.id)}
+									disabled={deleteMutation.isPending}
+									title="Delete downloaded episode"
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							)}
+						</div>
+					</div>
+				);
+			})}
+		</div>
+	);
+}
@@ -0,0 +1,182 @@
+import { useNavigate } from "@tanstack/react-router";
+import {
+	Check,
+	ChevronsUpDown,
+	Library,
+	Pencil,
+	Plus,
+	Trash2,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Input } from "@/components/ui/input";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { useProfileSwitcher } from "@/hooks/use-profile-switcher";
+import { getDefaultProfileName, type ServerProfile, useAuth } from "@/lib/auth";
+
+export function ProfileSwitcher() {
+	const {
+		credentials,
+		profiles,
+		activeProfileId,
+		renameProfile,
+		removeProfile,
+	} = useAuth();
+	const [isOpen, setIsOpen] = useState(false);
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [editingName, setEditingName] = useState("");
+	const menuRef = useRef<HTMLDivElement>(null);
+	const navigate = useNavigate();
+	const switchToProfile = useProfileSwitcher();
+
+	// Close menu when clicking outside
+	useEffect(() => {
+		const handleClickOutside = (event: MouseEvent) => {
+			if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+				setIsOpen(false);
+				setEditingId(null);
+			}
+		};
+
+		if (isOpen) {
+			document.addEventListener("mousedown", handleClickOutside);
+		}
+
+		return () => {
+			document.removeEventListener("mousedown", handleClickOutside);
+		};
+	}, [isOpen]);
+
+	const handleSwitch = async (profile: ServerProfile) => {
+		setIsOpen(false);
+		if (profile.id === activeProfileId) return;
+		await switchToProfile(profile.id);
+		toast.success(`Switched to ${profile.name}`);
+	};
+
+	const handleRename = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (editingId && editingName.trim()) {
+			renameProfile(editingId, editingName);
+		}
+		setEditingId(null);
+	};
+
+	const handleRemove = (profile: ServerProfile) => {
+		removeProfile(profile.id);
+		toast.success(`Removed ${profile.name}`);
+	};
+
+	const handleAddServer = () => {
+		setIsOpen(false);
+		navigate({ to: "/", search: { addProfile: true } });
+	};
+
+	return (
+		<div className="relative" ref={menuRef}>
+			<SidebarMenuButton
+				size="lg"
+				tooltip={credentials?.name ?? "Slothsonic"}
+				onClick={() => setIsOpen(!isOpen)}
+			>
+				<div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+					<Library className="size-4" />
+				</div>
+				<div className="grid flex-1 text-left text-sm leading-tight">
+					<span className="truncate font-semibold">
+						{credentials?.name ?? "Slothsonic"}
+					</span>
+					<span className="truncate text-xs text-muted-foreground">
+						{credentials && getDefaultProfileName(credentials.serverUrl)}
+					</span>
+				</div>
+				<ChevronsUpDown className="size-4 text-muted-foreground mr-8 group-data-[collapsible=icon]:hidden" />
+			</SidebarMenuButton>
+
+			{isOpen && (
+				<div className="absolute left-0 top-full mt-1 z-50 w-64 bg-popover border rounded-md shadow-lg py-1">
+					<div className="px-3 py-2 border-b">
+						<p className="text-sm font-medium">Servers</p>
+					</div>
+
+					<div className="max-h-64 overflow-y-auto">
+						{profiles.map((profile) =>
+							editingId === profile.id ? (
+								<form key={profile.id} onSubmit={handleRename} className="p-2">
+									<Input
+										type="text"
+										value={editingName}
+										onChange={(e) => setEditingName(e.target.value)}
+										onKeyDown={(e) => {
+											if (e.key === "Escape") setEditingId(null);
+										}}
+										onBlur={handleRename}
+										className="h-8 text-sm"
+										autoFocus
+									/>
+								</form>
+							) : (
+								<div
+									key={profile.id}
+									className="group/profile flex items-center hover:bg-muted"
+								>
+									<button
+										type="button"
+										onClick={() => handleSwitch(profile)}
+										className="flex-1 min-w-0 px-3 py-2 text-left text-sm flex items-center gap-2"
+									>
+										<div className="grid flex-1 min-w-0 leading-tight">
+											<span className="truncate">{profile.name}</span>
+											<span className="truncate text-xs text-muted-foreground">
+												{profile.username}@
+												{getDefaultProfileName(profile.serverUrl)}
+											</span>
+										</div>
+										{profile.id === activeProfileId && (
+											<Check className="w-4 h-4 text-primary shrink-0" />
+										)}
+									</button>
+									<div className="flex items-center pr-2 opacity-0 group-hover/profile:opacity-100">
+										<button
+											type="button"
+											onClick={() => {
+												setEditingId(profile.id);
+												setEditingName(profile.name);
+											}}
+											className="p-1 text-muted-foreground hover:text-foreground"
+											title="Rename"
+										>
+											<Pencil className="w-3.5 h-3.5" />
+										</button>
+										{profile.id !== activeProfileId && (
+											<button
+												type="button"
+												onClick={() => handleRemove(profile)}
+												className="p-1 text-muted-foreground hover:text-destructive"
+												title="Remove"
+											>
+												<Trash2 className="w-3.5 h-3.5" />
+											</button>
+										)}
+									</div>
+								</div>
+							),
+						)}
+					</div>
+
+					<div className="border-t">
+						<button
+							type="button"
+							onClick={handleAddServer}
+							className="w-full px-3 py-2 text-left text-sm hover:bg-muted flex items-center gap-2"
+						>
+							<Plus className="w-4 h-4" />
+							Add server
+						</button>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,126 @@
+import { Link } from "@tanstack/react-router";
+import {
+	Loader2,
+	Pause,
+	Play,
+	Radio,
+	Square,
+	Volume2,
+	VolumeX,
+} from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { usePlayer } from "@/lib/player";
+
+// Player bar for live internet radio: no seek bar, queue or track actions
+export function RadioPlayer() {
+	const {
+		radioStation,
+		streamTitle,
+		isPlaying,
+		isLoading,
+		volume,
+		togglePlayPause,
+		stopRadio,
+		setVolume,
+	} = usePlayer();
+
+	const isMobile = useIsMobile();
+	const [prevVolume, setPrevVolume] = useState(1);
+
+	if (!radioStation) {
+		return null;
+	}
+
+	const toggleMute = () => {
+		if (volume > 0) {
+			setPrevVolume(volume);
+			setVolume(0);
+		} else {
+			setVolume(prevVolume);
+		}
+	};
+
+	return (
+		<div
+			className="border-t bg-card px-3 md:px-4 h-16 md:h-20 flex items-center gap-3 md:gap-4"
+			style={{ viewTransitionName: "player" }}
+		>
+			<Link
+				to="/app/radio"
+				className="w-12 h-12 md:w-14 md:h-14 rounded-md bg-muted flex items-center justify-center flex-shrink-0 hover:opacity-80 transition-opacity"
+			>
+				<Radio className="w-6 h-6 text-muted-foreground" />
+			</Link>
+
+			<div className="min-w-0 flex-1">
+				<div className="flex items-center gap-2">
+					<span className="text-[10px] font-semibold uppercase tracking-wide text-primary">
+						Live
+					</span>
+					<p className="font-medium text-sm text-foreground truncate">
+						{radioStation.name}
+					</p>
+				</div>
+				<p className="text-xs text-muted-foreground truncate">
+					{streamTitle ?? "Internet radio"}
+				</p>
+			</div>
+
+			<div className="flex items-center gap-1">
+				<Button
+					variant="default"
+					size="icon"
+					className="w-10 h-10 rounded-full"
+					onClick={togglePlayPause}
+					disabled={isLoading}
+				>
+					{isLoading ? (
+						<Loader2 className="w-5 h-5 animate-spin" />
+					) : isPlaying ? (
+						<Pause className="w-5 h-5" />
+					) : (
+						<Play className="w-5 h-5 ml-0.5" />
+					)}
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="w-8 h-8"
+					onClick={stopRadio}
+					title="Stop radio"
+				>
+					<Square className="w-4 h-4" />
+				</Button>
+			</div>
+
+			{!isMobile && (
+				<div className="flex items-center justify-end gap-1 flex-1">
+					<Button
+						variant="ghost"
+						size="icon"
+						className="w-8 h-8"
+						onClick={toggleMute}
+					>
+						{volume === 0 ? (
+							<VolumeX className="w-4 h-4" />
+						) : (
+							<Volume2 className="w-4 h-4" />
+						)}
+					</Button>
+					<Slider
+						value={[volume]}
+						min={0}
+						max={1}
+						step={0.01}
+						onValueChange={(value) => setVolume(value[0])}
+						className="w-24"
+					/>
+				</div>
+			)}
+		</div>
+	);
+}
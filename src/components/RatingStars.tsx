@@ -0,0 +1,79 @@
+import { Star } from "lucide-react";
+import { useState } from "react";
+
+import { useSetRating } from "@/hooks/use-set-rating";
+import type { Rating } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { cn } from "@/lib/utils";
+
+interface RatingStarsProps {
+	id: string;
+	type: "song" | "album";
+	rating?: number;
+	size?: "sm" | "md" | "lg";
+	className?: string;
+}
+
+export function RatingStars({
+	id,
+	type,
+	rating = 0,
+	size = "md",
+	className,
+}: RatingStarsProps) {
+	const { features } = useServerCapabilities();
+	const ratingMutation = useSetRating(type);
+	const [hoverRating, setHoverRating] = useState<number | null>(null);
+
+	if (!features.ratings) return null;
+
+	const sizeClasses = {
+		sm: "w-3.5 h-3.5",
+		md: "w-4 h-4",
+		lg: "w-5 h-5",
+	};
+
+	const displayRating = hoverRating ?? rating;
+
+	const handleClick = (e: React.MouseEvent, value: Rating) => {
+		e.preventDefault();
+		e.stopPropagation();
+		// Clicking the current rating clears it
+		ratingMutation.mutate({
+			id,
+			rating: value === rating ? 0 : value,
+			previousRating: rating,
+		});
+	};
+
+	return (
+		<fieldset
+			className={cn("flex items-center border-0 p-0 m-0 min-w-0", className)}
+			onMouseLeave={() => setHoverRating(null)}
+			aria-label="Rating"
+		>
+			{([1, 2, 3, 4, 5] as const).map((value) => (
+				<button
+					key={value}
+					type="button"
+					aria-label={`${value} star${value !== 1 ? "s" : ""}`}
+					aria-pressed={value <= rating}
+					title={value === rating ? "Remove rating" : `Rate ${value}`}
+					onClick={(e) => handleClick(e, value)}
+					onMouseEnter={() => setHoverRating(value)}
+					className="p-0.5"
+				>
+					<Star
+						className={cn(
+							sizeClasses[size],
+							"transition-colors",
+							value <= displayRating
+								? "fill-yellow-500 text-yellow-500"
+								: "text-muted-foreground",
+						)}
+					/>
+				</button>
+			))}
+		</fieldset>
+	);
+}
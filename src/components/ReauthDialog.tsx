@@ -0,0 +1,174 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Lock } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { logout, updateProfileCredentials, useAuth } from "@/lib/auth";
+import { clearCoverArtCache, resetPlayer } from "@/lib/player";
+import { completeReauthentication, useSession } from "@/lib/session";
+import { ping } from "@/lib/subsonic";
+
+/**
+ * Prompts for new credentials when the server rejects the current ones.
+ *
+ * Pending API requests wait while this is open and retry once it resolves, so
+ * the player and the current page carry on as if nothing happened.
+ */
+export function ReauthDialog() {
+	const { reauthRequired, reason } = useSession();
+	const { credentials } = useAuth();
+	const queryClient = useQueryClient();
+	const [username, setUsername] = useState("");
+	const [secret, setSecret] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const usernameId = useId();
+	const secretId = useId();
+
+	const usesApiKey = credentials?.authMethod === "apiKey";
+
+	useEffect(() => {
+		if (reauthRequired) {
+			setUsername(credentials?.username ?? "");
+			setSecret("");
+			setError(null);
+		}
+	}, [reauthRequired, credentials?.username]);
+
+	// Signed out meanwhile: nothing to sign in again to, so fail the waiting
+	// requests rather than leave them hanging
+	useEffect(() => {
+		if (reauthRequired && !credentials) {
+			completeReauthentication(false);
+		}
+	}, [reauthRequired, credentials]);
+
+	if (!credentials) return null;
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!secret) return;
+
+		setIsSubmitting(true);
+		setError(null);
+
+		const updated = usesApiKey
+			? { ...credentials, username, apiKey: secret }
+			: {
+					...credentials,
+					username,
+					password: secret,
+					// Re-detect, in case the server changed how it authenticates
+					authMethod: undefined,
+				};
+
+		const result = await ping(updated);
+		setIsSubmitting(false);
+
+		if (!result.success) {
+			setError(result.error || "Failed to connect to server");
+			return;
+		}
+
+		await updateProfileCredentials(credentials.id, {
+			...updated,
+			authMethod: result.authMethod,
+		});
+		clearCoverArtCache();
+		completeReauthentication(true);
+		toast.success("Signed in again");
+	};
+
+	const handleSignOut = () => {
+		// Sign out first so the requests failing below don't each report it
+		resetPlayer();
+		queryClient.clear();
+		logout();
+		completeReauthentication(false);
+	};
+
+	return (
+		<Dialog open={reauthRequired}>
+			<DialogContent
+				showCloseButton={false}
+				onEscapeKeyDown={(e) => e.preventDefault()}
+				onInteractOutside={(e) => e.preventDefault()}
+			>
+				<DialogHeader>
+					<DialogTitle>Sign in again</DialogTitle>
+					<DialogDescription>
+						{credentials.serverUrl.replace(/https?:\/\//, "")} rejected your
+						credentials
+						{reason ? ` (${reason})` : ""}. Playback will continue once you sign
+						in.
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4">
+					<Field>
+						<FieldLabel htmlFor={usernameId}>Username</FieldLabel>
+						<Input
+							id={usernameId}
+							value={username}
+							onChange={(e) => setUsername(e.target.value)}
+						/>
+					</Field>
+					<Field>
+						<FieldLabel htmlFor={secretId}>
+							{usesApiKey ? "API key" : "Password"}
+						</FieldLabel>
+						<div className="relative">
+							<Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+							<Input
+								id={secretId}
+								type="password"
+								value={secret}
+								onChange={(e) => setSecret(e.target.value)}
+								className="pl-10"
+								autoFocus
+							/>
+						</div>
+					</Field>
+
+					{error && (
+						<div className="p-3 rounded-md bg-destructive/10 border border-destructive/20 text-destructive text-sm">
+							{error}
+						</div>
+					)}
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={handleSignOut}
+							disabled={isSubmitting}
+						>
+							Sign out
+						</Button>
+						<Button type="submit" disabled={isSubmitting || !secret}>
+							{isSubmitting ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Connecting...
+								</>
+							) : (
+								"Sign in"
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
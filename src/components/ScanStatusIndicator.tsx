@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+
+import { SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { getScanStatus, startScan } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+
+// Poll quickly while a scan runs, and now and then to notice scans started
+// elsewhere
+const SCANNING_POLL_INTERVAL = 2000;
+const IDLE_POLL_INTERVAL = 60 * 1000;
+
+// Queries whose results can change when the library is rescanned
+const LIBRARY_QUERY_KEYS = [
+	"albums",
+	"album",
+	"artists",
+	"artist",
+	"genres",
+	"genre-songs",
+	"randomSongs",
+	"libraryStats",
+	"folder-indexes",
+	"music-directory",
+	"search",
+];
+
+export function ScanStatusIndicator() {
+	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const { isAdmin } = useCurrentUser();
+	const wasScanning = useRef(false);
+
+	const { data: status } = useQuery({
+		queryKey: ["scanStatus"],
+		queryFn: ({ signal }) => getScanStatus({ signal }),
+		enabled: features.scanning,
+		refetchInterval: (query) =>
+			query.state.data?.scanning ? SCANNING_POLL_INTERVAL : IDLE_POLL_INTERVAL,
+	});
+
+	const scanning = !!status?.scanning;
+
+	// Once a scan finishes, refetch library data so new music shows up
+	useEffect(() => {
+		if (wasScanning.current && !scanning) {
+			for (const key of LIBRARY_QUERY_KEYS) {
+				queryClient.invalidateQueries({ queryKey: [key] });
+			}
+		}
+		wasScanning.current = scanning;
+	}, [scanning, queryClient]);
+
+	const scanMutation = useMutation({
+		mutationFn: startScan,
+		onSuccess: (newStatus) => {
+			queryClient.setQueryData(["scanStatus"], newStatus);
+			toast.success("Library scan started");
+		},
+		onError: () => {
+			toast.error("Failed to start library scan");
+		},
+	});
+
+	if (!features.scanning) return null;
+
+	if (scanning) {
+		const label =
+			status?.count !== undefined
+				? `Scanning… ${status.count.toLocaleString()} items`
+				: "Scanning…";
+		return (
+			<SidebarMenuItem>
+				<SidebarMenuButton tooltip={label} className="text-muted-foreground">
+					<Loader2 className="animate-spin" />
+					<span>{label}</span>
+				</SidebarMenuButton>
+			</SidebarMenuItem>
+		);
+	}
+
+	if (!isAdmin) return null;
+
+	const lastScan = status?.lastScan
+		? `Last scanned ${new Date(status.lastScan).toLocaleString()}`
+		: undefined;
+
+	return (
+		<SidebarMenuItem>
+			<SidebarMenuButton
+				onClick={() => scanMutation.mutate()}
+				disabled={scanMutation.isPending}
+				tooltip={lastScan ?? "Rescan library"}
+				title={lastScan}
+				className="text-muted-foreground"
+			>
+				<RefreshCw className={scanMutation.isPending ? "animate-spin" : ""} />
+				<span>Rescan library</span>
+			</SidebarMenuButton>
+		</SidebarMenuItem>
+	);
+}
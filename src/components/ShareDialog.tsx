@@ -0,0 +1,201 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Copy, Loader2 } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { createShare, type Share } from "@/lib/api";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const EXPIRY_OPTIONS = [
+	{ value: "never", label: "Never", duration: 0 },
+	{ value: "1d", label: "In 1 day", duration: DAY },
+	{ value: "7d", label: "In 1 week", duration: 7 * DAY },
+	{ value: "30d", label: "In 1 month", duration: 30 * DAY },
+	{ value: "365d", label: "In 1 year", duration: 365 * DAY },
+] as const;
+
+export type ExpiryOption = (typeof EXPIRY_OPTIONS)[number]["value"];
+
+// Expiry timestamp for the API, or 0 for links that never expire
+export function getExpiryTimestamp(option: ExpiryOption): number {
+	const duration =
+		EXPIRY_OPTIONS.find((o) => o.value === option)?.duration ?? 0;
+	return duration > 0 ? Date.now() + duration : 0;
+}
+
+export async function copyShareUrl(share: Share) {
+	try {
+		await navigator.clipboard.writeText(share.url);
+		toast.success("Share link copied to clipboard");
+	} catch {
+		toast.error("Failed to copy link");
+	}
+}
+
+interface ShareDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	// Song, album or playlist ID
+	itemId: string;
+	itemName: string;
+}
+
+export function ShareDialog({
+	open,
+	onOpenChange,
+	itemId,
+	itemName,
+}: ShareDialogProps) {
+	const queryClient = useQueryClient();
+	const [description, setDescription] = useState("");
+	const [expiry, setExpiry] = useState<ExpiryOption>("7d");
+	const [share, setShare] = useState<Share | null>(null);
+	const formId = useId();
+	const descriptionId = useId();
+	const expiryId = useId();
+
+	const createMutation = useMutation({
+		mutationFn: () => {
+			const expires = getExpiryTimestamp(expiry);
+			return createShare({
+				id: [itemId],
+				description: description.trim(),
+				expires: expires || undefined,
+			});
+		},
+		onSuccess: (newShare) => {
+			queryClient.invalidateQueries({ queryKey: ["shares"] });
+			setShare(newShare);
+			copyShareUrl(newShare);
+		},
+		onError: () => {
+			toast.error("Failed to create share link");
+		},
+	});
+
+	const handleOpenChange = (isOpen: boolean) => {
+		onOpenChange(isOpen);
+		if (!isOpen) {
+			setDescription("");
+			setExpiry("7d");
+			setShare(null);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Share "{itemName}"</DialogTitle>
+					<DialogDescription>
+						Anyone with the link can listen, without an account.
+					</DialogDescription>
+				</DialogHeader>
+
+				{share ? (
+					<div className="flex gap-2">
+						<Input
+							value={share.url}
+							readOnly
+							onFocus={(e) => e.target.select()}
+						/>
+						<Button
+							variant="outline"
+							size="icon"
+							onClick={() => copyShareUrl(share)}
+							title="Copy link"
+						>
+							<Copy className="w-4 h-4" />
+						</Button>
+					</div>
+				) : (
+					<form
+						id={formId}
+						onSubmit={(e) => {
+							e.preventDefault();
+							createMutation.mutate();
+						}}
+						className="space-y-4"
+					>
+						<div className="space-y-2">
+							<Label htmlFor={descriptionId}>Description (optional)</Label>
+							<Input
+								id={descriptionId}
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								placeholder="Check this out"
+								autoFocus
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={expiryId}>Link expires</Label>
+							<Select
+								value={expiry}
+								onValueChange={(value) => setExpiry(value as ExpiryOption)}
+							>
+								<SelectTrigger id={expiryId} className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{EXPIRY_OPTIONS.map((option) => (
+										<SelectItem key={option.value} value={option.value}>
+											{option.label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</form>
+				)}
+
+				<DialogFooter>
+					{share ? (
+						<Button onClick={() => handleOpenChange(false)}>
+							<Check className="w-4 h-4 mr-2" />
+							Done
+						</Button>
+					) : (
+						<>
+							<Button variant="outline" onClick={() => handleOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button
+								type="submit"
+								form={formId}
+								disabled={createMutation.isPending}
+							>
+								{createMutation.isPending ? (
+									<>
+										<Loader2 className="w-4 h-4 animate-spin mr-2" />
+										Creating...
+									</>
+								) : (
+									"Create link"
+								)}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
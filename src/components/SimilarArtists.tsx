@@ -1,20 +1,25 @@
 import { useQuery } from "@tanstack/react-query";
 import { Users } from "lucide-react";
 import { ArtistCard } from "@/components/ArtistCard";
-import { type Artist, getSimilarArtists } from "@/lib/api";
+import { type Artist, getArtistInfo2 } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 
 interface SimilarArtistsProps {
 	artistId?: string;
 }
 
 export function SimilarArtists({ artistId }: SimilarArtistsProps) {
-	const { data: artists, isLoading } = useQuery({
-		queryKey: ["similar-artists", artistId],
-		queryFn: () => (artistId ? getSimilarArtists(artistId) : []),
-		enabled: !!artistId,
+	const { features } = useServerCapabilities();
+	// Shared with the artist page, which shows the rest of the info
+	const { data: info, isLoading } = useQuery({
+		queryKey: ["artist-info", artistId],
+		queryFn: ({ signal }) =>
+			artistId ? getArtistInfo2(artistId, undefined, { signal }) : null,
+		enabled: !!artistId && features.artistInfo,
 	});
+	const artists = info?.similarArtist;
 
-	if (!artistId) {
+	if (!artistId || !features.artistInfo) {
 		return null;
 	}
 
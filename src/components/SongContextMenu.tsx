@@ -3,17 +3,23 @@ import { useNavigate } from "@tanstack/react-router";
 import {
 	Disc3,
 	Download,
+	FolderOpen,
 	Heart,
+	Info,
 	ListEnd,
 	ListMusic,
 	ListPlus,
 	Play,
 	Plus,
+	Share2,
+	Star,
 	User,
 } from "lucide-react";
-import type { ReactNode } from "react";
+import { type ReactNode, useState } from "react";
 import { toast } from "sonner";
 
+import { ShareDialog } from "@/components/ShareDialog";
+import { TrackInfoDialog } from "@/components/TrackInfoDialog";
 import {
 	ContextMenu,
 	ContextMenuContent,
@@ -24,7 +30,8 @@ import {
 	ContextMenuSubTrigger,
 	ContextMenuTrigger,
 } from "@/components/ui/context-menu";
-import type { Playlist, Song } from "@/lib/api";
+import { useSetRating } from "@/hooks/use-set-rating";
+import type { Playlist, Rating, Song } from "@/lib/api";
 import {
 	createPlaylist,
 	getDownloadUrl,
@@ -33,6 +40,7 @@ import {
 	unstar,
 	updatePlaylist,
 } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 import { addToQueue, playNextInQueue, playSong } from "@/lib/player";
 
 interface SongContextMenuProps {
@@ -52,10 +60,13 @@ export function SongContextMenu({
 }: SongContextMenuProps) {
 	const navigate = useNavigate();
 	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const [shareOpen, setShareOpen] = useState(false);
+	const [infoOpen, setInfoOpen] = useState(false);
 
 	const { data: playlists } = useQuery({
 		queryKey: ["playlists"],
-		queryFn: getPlaylists,
+		queryFn: ({ signal }) => getPlaylists({ signal }),
 	});
 
 	const starMutation = useMutation({
@@ -81,6 +92,8 @@ export function SongContextMenu({
 		},
 	});
 
+	const ratingMutation = useSetRating("song");
+
 	const addToPlaylistMutation = useMutation({
 		mutationFn: (playlistId: string) =>
 			updatePlaylist({ playlistId, songIdToAdd: [song.id] }),
@@ -128,6 +141,14 @@ export function SongContextMenu({
 		starMutation.mutate(!song.starred);
 	};
 
+	const handleRate = (rating: Rating) => {
+		ratingMutation.mutate({
+			id: song.id,
+			rating,
+			previousRating: song.userRating,
+		});
+	};
+
 	const handleGoToAlbum = () => {
 		if (song.albumId) {
 			navigate({
@@ -146,6 +167,15 @@ export function SongContextMenu({
 		}
 	};
 
+	const handleGoToFolder = () => {
+		if (song.parent) {
+			navigate({
+				to: "/app/folders/$folderId",
+				params: { folderId: song.parent },
+			});
+		}
+	};
+
 	const handleAddToPlaylist = (playlistId: string) => {
 		addToPlaylistMutation.mutate(playlistId);
 	};
@@ -170,79 +200,146 @@ export function SongContextMenu({
 	};
 
 	return (
-		<ContextMenu>
-			<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
-			<ContextMenuContent className="w-56">
-				<ContextMenuItem onClick={handlePlay}>
-					<Play className="mr-2 h-4 w-4" />
-					Play
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handlePlayNext}>
-					<ListMusic className="mr-2 h-4 w-4" />
-					Play next
-				</ContextMenuItem>
-				<ContextMenuItem onClick={handleAddToQueue}>
-					<ListEnd className="mr-2 h-4 w-4" />
-					Add to queue
-				</ContextMenuItem>
-
-				<ContextMenuSeparator />
-
-				<ContextMenuItem onClick={handleToggleFavorite}>
-					<Heart
-						className={`mr-2 h-4 w-4 ${song.starred ? "fill-red-500 text-red-500" : ""}`}
-					/>
-					{song.starred ? "Remove from favorites" : "Add to favorites"}
-				</ContextMenuItem>
-
-				<ContextMenuSub>
-					<ContextMenuSubTrigger>
-						<ListPlus className="mr-2 h-4 w-4" />
-						Add to playlist
-					</ContextMenuSubTrigger>
-					<ContextMenuSubContent className="w-48">
-						{playlists && playlists.length > 0 ? (
-							<>
-								{playlists.map((playlist: Playlist) => (
+		<>
+			<ContextMenu>
+				<ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+				<ContextMenuContent className="w-56">
+					<ContextMenuItem onClick={handlePlay}>
+						<Play className="mr-2 h-4 w-4" />
+						Play
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handlePlayNext}>
+						<ListMusic className="mr-2 h-4 w-4" />
+						Play next
+					</ContextMenuItem>
+					<ContextMenuItem onClick={handleAddToQueue}>
+						<ListEnd className="mr-2 h-4 w-4" />
+						Add to queue
+					</ContextMenuItem>
+
+					<ContextMenuSeparator />
+
+					<ContextMenuItem onClick={handleToggleFavorite}>
+						<Heart
+							className={`mr-2 h-4 w-4 ${song.starred ? "fill-red-500 text-red-500" : ""}`}
+						/>
+						{song.starred ? "Remove from favorites" : "Add to favorites"}
+					</ContextMenuItem>
+
+					{features.ratings && (
+						<ContextMenuSub>
+							<ContextMenuSubTrigger>
+								<Star className="mr-2 h-4 w-4" />
+								Rate
+							</ContextMenuSubTrigger>
+							<ContextMenuSubContent className="w-48">
+								{([5, 4, 3, 2, 1] as const).map((rating) => (
 									<ContextMenuItem
-										key={playlist.id}
-										onClick={() => handleAddToPlaylist(playlist.id)}
+										key={rating}
+										onClick={() => handleRate(rating)}
 									>
-										{playlist.name}
+										<span className="flex gap-0.5">
+											{Array.from({ length: 5 }, (_, i) => (
+												<Star
+													// biome-ignore lint/suspicious/noArrayIndexKey: Fixed star positions
+													key={i}
+													className={`h-3.5 w-3.5 ${i < rating ? "fill-yellow-500 text-yellow-500" : ""}`}
+												/>
+											))}
+										</span>
+										{song.userRating === rating && (
+											<span className="ml-auto text-xs text-muted-foreground">
+												Current
+											</span>
+										)}
 									</ContextMenuItem>
 								))}
 								<ContextMenuSeparator />
-							</>
-						) : null}
-						<ContextMenuItem onClick={handleCreatePlaylist}>
-							<Plus className="mr-2 h-4 w-4" />
-							New playlist
-						</ContextMenuItem>
-					</ContextMenuSubContent>
-				</ContextMenuSub>
+								<ContextMenuItem
+									onClick={() => handleRate(0)}
+									disabled={!song.userRating}
+								>
+									Remove rating
+								</ContextMenuItem>
+							</ContextMenuSubContent>
+						</ContextMenuSub>
+					)}
 
-				<ContextMenuSeparator />
+					<ContextMenuSub>
+						<ContextMenuSubTrigger>
+							<ListPlus className="mr-2 h-4 w-4" />
+							Add to playlist
+						</ContextMenuSubTrigger>
+						<ContextMenuSubContent className="w-48">
+							{playlists && playlists.length > 0 ? (
+								<>
+									{playlists.map((playlist: Playlist) => (
+										<ContextMenuItem
+											key={playlist.id}
+											onClick={() => handleAddToPlaylist(playlist.id)}
+										>
+											{playlist.name}
+										</ContextMenuItem>
+									))}
+									<ContextMenuSeparator />
+								</>
+							) : null}
+							<ContextMenuItem onClick={handleCreatePlaylist}>
+								<Plus className="mr-2 h-4 w-4" />
+								New playlist
+							</ContextMenuItem>
+						</ContextMenuSubContent>
+					</ContextMenuSub>
 
-				{song.albumId && (
-					<ContextMenuItem onClick={handleGoToAlbum}>
-						<Disc3 className="mr-2 h-4 w-4" />
-						Go to album
-					</ContextMenuItem>
-				)}
-				{song.artistId && (
-					<ContextMenuItem onClick={handleGoToArtist}>
-						<User className="mr-2 h-4 w-4" />
-						Go to artist
+					<ContextMenuSeparator />
+
+					{song.albumId && (
+						<ContextMenuItem onClick={handleGoToAlbum}>
+							<Disc3 className="mr-2 h-4 w-4" />
+							Go to album
+						</ContextMenuItem>
+					)}
+					{song.artistId && (
+						<ContextMenuItem onClick={handleGoToArtist}>
+							<User className="mr-2 h-4 w-4" />
+							Go to artist
+						</ContextMenuItem>
+					)}
+					{song.parent && (
+						<ContextMenuItem onClick={handleGoToFolder}>
+							<FolderOpen className="mr-2 h-4 w-4" />
+							Go to folder
+						</ContextMenuItem>
+					)}
+
+					<ContextMenuItem onClick={() => setInfoOpen(true)}>
+						<Info className="mr-2 h-4 w-4" />
+						Track info
 					</ContextMenuItem>
-				)}
 
-				<ContextMenuSeparator />
+					<ContextMenuSeparator />
 
-				<ContextMenuItem onClick={handleDownload}>
-					<Download className="mr-2 h-4 w-4" />
-					Download
-				</ContextMenuItem>
-			</ContextMenuContent>
-		</ContextMenu>
+					<ContextMenuItem onClick={handleDownload}>
+						<Download className="mr-2 h-4 w-4" />
+						Download
+					</ContextMenuItem>
+					{features.sharing && (
+						<ContextMenuItem onClick={() => setShareOpen(true)}>
+							<Share2 className="mr-2 h-4 w-4" />
+							Share…
+						</ContextMenuItem>
+					)}
+				</ContextMenuContent>
+			</ContextMenu>
+			<ShareDialog
+				open={shareOpen}
+				onOpenChange={setShareOpen}
+				itemId={song.id}
+				itemName={song.title}
+			/>
+			{infoOpen && (
+				<TrackInfoDialog song={song} open onOpenChange={setInfoOpen} />
+			)}
+		</>
 	);
 }
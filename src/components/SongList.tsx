@@ -1,21 +1,18 @@
 import { Link } from "@tanstack/react-router";
 import { Clock, Music, Play } from "lucide-react";
 import { useEffect, useState } from "react";
-
 import type { Song } from "@/lib/api";
-import { getCoverArtUrl } from "@/lib/api";
+import { getArtistCredits, getCoverArtUrl, getGenreNames } from "@/lib/api";
+import { formatDuration } from "@/lib/format";
 import { playSong, usePlayer } from "@/lib/player";
 import { cn } from "@/lib/utils";
 import { AddToPlaylistButton } from "./AddToPlaylistButton";
+import { ArtistLinks } from "./ArtistLinks";
+import { GenreLinks } from "./GenreLinks";
+import { RatingStars } from "./RatingStars";
 import { SongContextMenu } from "./SongContextMenu";
 import { StarButton } from "./StarButton";
 
-function formatDuration(seconds: number): string {
-	const mins = Math.floor(seconds / 60);
-	const secs = seconds % 60;
-	return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
 interface SongRowProps {
 	song: Song;
 	index: number;
@@ -37,6 +34,8 @@ function SongRow({
 
 	const isCurrentTrack = song.id === currentTrack?.id;
 	const isThisTrackPlaying = isCurrentTrack && isPlaying;
+	const artists = getArtistCredits(song);
+	const genres = getGenreNames(song);
 
 	useEffect(() => {
 		if (song.coverArt) {
@@ -101,58 +100,50 @@ function SongRow({
 					)}
 				</button>
 
-				{/* Song info */}
-				<button
-					type="button"
-					onClick={handlePlay}
-					className="flex items-center gap-3 min-w-0 text-left"
-				>
-					{coverUrl ? (
-						<img
-							src={coverUrl}
-							alt={song.title}
-							className={cn(
-								"w-10 h-10 rounded object-cover flex-shrink-0 transition-opacity duration-200",
-								imageLoaded ? "opacity-100" : "opacity-0",
-							)}
-							onLoad={() => setImageLoaded(true)}
-						/>
-					) : (
-						<div className="w-10 h-10 rounded bg-muted flex items-center justify-center flex-shrink-0">
-							<Music className="w-4 h-4 text-muted-foreground" />
-						</div>
-					)}
-					<div className="min-w-0">
-						<p
+				{/* Song info; links sit outside the play buttons */}
+				<div className="flex items-center gap-3 min-w-0">
+					<button type="button" onClick={handlePlay} className="flex-shrink-0">
+						{coverUrl ? (
+							<img
+								src={coverUrl}
+								alt={song.title}
+								className={cn(
+									"w-10 h-10 rounded object-cover flex-shrink-0 transition-opacity duration-200",
+									imageLoaded ? "opacity-100" : "opacity-0",
+								)}
+								onLoad={() => setImageLoaded(true)}
+							/>
+						) : (
+							<div className="w-10 h-10 rounded bg-muted flex items-center justify-center flex-shrink-0">
+								<Music className="w-4 h-4 text-muted-foreground" />
+							</div>
+						)}
+					</button>
+					<div className="min-w-0 flex-1">
+						<button
+							type="button"
+							onClick={handlePlay}
 							className={cn(
-								"font-medium text-sm truncate",
+								"block w-full font-medium text-sm truncate text-left",
 								isCurrentTrack ? "text-primary" : "text-foreground",
 							)}
 						>
 							{song.title}
-						</p>
-						{showArtist && song.artist && (
+						</button>
+						{showArtist && artists.length > 0 && (
 							<p className="text-xs text-muted-foreground truncate">
-								{song.artistId ? (
-									<Link
-										to="/app/artists/$artistId"
-										params={{ artistId: song.artistId }}
-										onClick={(e) => e.stopPropagation()}
-										className="hover:underline hover:text-foreground"
-									>
-										{song.artist}
-									</Link>
-								) : (
-									song.artist
-								)}
+								<ArtistLinks
+									artists={artists}
+									linkClassName="hover:text-foreground"
+								/>
 							</p>
 						)}
 					</div>
-				</button>
+				</div>
 
 				{/* Album */}
 				{showAlbum && (
-					<div className="hidden sm:flex items-center min-w-0">
+					<div className="hidden sm:flex flex-col justify-center min-w-0">
 						<p className="text-sm text-muted-foreground truncate">
 							{song.albumId ? (
 								<Link
@@ -166,11 +157,30 @@ function SongRow({
 								song.album
 							)}
 						</p>
+						{genres.length > 0 && (
+							<p className="text-xs text-muted-foreground truncate">
+								<GenreLinks
+									genres={genres}
+									linkClassName="hover:text-foreground"
+								/>
+							</p>
+						)}
 					</div>
 				)}
 
-				{/* Star button */}
-				<div className="flex items-center">
+				{/* Rating and star button */}
+				<div className="flex items-center gap-2">
+					<RatingStars
+						id={song.id}
+						type="song"
+						rating={song.userRating}
+						size="sm"
+						className={cn(
+							"hidden md:flex",
+							!song.userRating &&
+								"opacity-0 group-hover:opacity-100 focus-within:opacity-100",
+						)}
+					/>
 					<StarButton
 						id={song.id}
 						type="song"
@@ -5,6 +5,7 @@ import { toast } from "sonner";
 import type { Album, Artist, Song } from "@/lib/api";
 import { star, unstar } from "@/lib/api";
 import { updateCurrentTrackStarred } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 import { cn } from "@/lib/utils";
 
 interface StarButtonProps {
@@ -59,6 +60,8 @@ export function StarButton({
 	className,
 }: StarButtonProps) {
 	const queryClient = useQueryClient();
+	// The starred and random song lists are cached per library
+	const musicFolderId = useMusicFolderId();
 
 	const starMutation = useMutation({
 		mutationFn: async (shouldStar: boolean) => {
@@ -121,12 +124,12 @@ export function StarButton({
 					albums: Album[];
 					artists: Artist[];
 					songs: Song[];
-				}>(["starred"]);
+				}>(["starred", musicFolderId]);
 
 				if (previousStarred) {
 					if (shouldStar && previousAlbum) {
 						// Add to starred
-						queryClient.setQueryData(["starred"], {
+						queryClient.setQueryData(["starred", musicFolderId], {
 							...previousStarred,
 							albums: [
 								{ ...previousAlbum.album, starred: starredValue },
@@ -135,7 +138,7 @@ export function StarButton({
 						});
 					} else {
 						// Remove from starred
-						queryClient.setQueryData(["starred"], {
+						queryClient.setQueryData(["starred", musicFolderId], {
 							...previousStarred,
 							albums: previousStarred.albums.filter((a) => a.id !== id),
 						});
@@ -187,11 +190,11 @@ export function StarButton({
 					albums: Album[];
 					artists: Artist[];
 					songs: Song[];
-				}>(["starred"]);
+				}>(["starred", musicFolderId]);
 
 				if (previousStarred) {
 					if (shouldStar && previousArtist) {
-						queryClient.setQueryData(["starred"], {
+						queryClient.setQueryData(["starred", musicFolderId], {
 							...previousStarred,
 							artists: [
 								{ ...previousArtist.artist, starred: starredValue },
@@ -199,7 +202,7 @@ export function StarButton({
 							],
 						});
 					} else {
-						queryClient.setQueryData(["starred"], {
+						queryClient.setQueryData(["starred", musicFolderId], {
 							...previousStarred,
 							artists: previousStarred.artists.filter((a) => a.id !== id),
 						});
@@ -222,16 +225,17 @@ export function StarButton({
 					albums: Album[];
 					artists: Artist[];
 					songs: Song[];
-				}>(["starred"]);
+				}>(["starred", musicFolderId]);
 
 				// Update random songs cache
 				const previousRandomSongs = queryClient.getQueryData<Song[]>([
 					"randomSongs",
+					musicFolderId,
 				]);
 
 				if (previousRandomSongs) {
 					queryClient.setQueryData(
-						["randomSongs"],
+						["randomSongs", musicFolderId],
 						updateSongStarredInCache(previousRandomSongs, id, starredValue),
 					);
 				}
@@ -304,7 +308,7 @@ export function StarButton({
 						}
 
 						if (songToAdd) {
-							queryClient.setQueryData(["starred"], {
+							queryClient.setQueryData(["starred", musicFolderId], {
 								...previousStarred,
 								songs: [
 									{ ...songToAdd, starred: starredValue },
@@ -313,7 +317,7 @@ export function StarButton({
 							});
 						}
 					} else {
-						queryClient.setQueryData(["starred"], {
+						queryClient.setQueryData(["starred", musicFolderId], {
 							...previousStarred,
 							songs: previousStarred.songs.filter((s) => s.id !== id),
 						});
@@ -359,7 +363,10 @@ export function StarButton({
 					}
 				}
 				if ("previousStarred" in context) {
-					queryClient.setQueryData(["starred"], context.previousStarred);
+					queryClient.setQueryData(
+						["starred", musicFolderId],
+						context.previousStarred,
+					);
 				}
 			}
 
@@ -380,7 +387,10 @@ export function StarButton({
 					}
 				}
 				if ("previousStarred" in context) {
-					queryClient.setQueryData(["starred"], context.previousStarred);
+					queryClient.setQueryData(
+						["starred", musicFolderId],
+						context.previousStarred,
+					);
 				}
 			}
 
@@ -390,11 +400,14 @@ export function StarButton({
 				updateCurrentTrackStarred(!_shouldStar);
 
 				if ("previousStarred" in context) {
-					queryClient.setQueryData(["starred"], context.previousStarred);
+					queryClient.setQueryData(
+						["starred", musicFolderId],
+						context.previousStarred,
+					);
 				}
 				if ("previousRandomSongs" in context) {
 					queryClient.setQueryData(
-						["randomSongs"],
+						["randomSongs", musicFolderId],
 						context.previousRandomSongs,
 					);
 				}
@@ -0,0 +1,228 @@
+import { useQuery } from "@tanstack/react-query";
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { getSong, type Song } from "@/lib/api";
+import { formatDuration, formatSize } from "@/lib/format";
+
+function formatChannels(count: number): string {
+	if (count === 1) return "Mono";
+	if (count === 2) return "Stereo";
+	return `${count} channels`;
+}
+
+function formatGain(gain?: number, peak?: number): string | undefined {
+	if (gain === undefined) return undefined;
+	const value = `${gain > 0 ? "+" : ""}${gain.toFixed(2)} dB`;
+	return peak !== undefined ? `${value} (peak ${peak.toFixed(4)})` : value;
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+async function copyToClipboard(value: string) {
+	try {
+		await navigator.clipboard.writeText(value);
+		toast.success("Copied to clipboard");
+	} catch {
+		toast.error("Failed to copy");
+	}
+}
+
+interface InfoRow {
+	key?: string; // Defaults to the label, which may repeat
+	label: string;
+	value?: string | number | null;
+	// Paths and IDs get a copy button
+	copyable?: boolean;
+}
+
+function InfoSection({ title, rows }: { title: string; rows: InfoRow[] }) {
+	const visibleRows = rows.filter(
+		(row) => row.value !== undefined && row.value !== null && row.value !== "",
+	);
+	if (visibleRows.length === 0) return null;
+
+	return (
+		<section className="space-y-2">
+			<h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+				{title}
+			</h3>
+			<dl className="grid grid-cols-[8rem_1fr] gap-x-4 gap-y-1 text-sm">
+				{visibleRows.map((row) => (
+					<div key={row.key ?? row.label} className="contents">
+						<dt className="text-muted-foreground">{row.label}</dt>
+						<dd className="flex items-start gap-1 min-w-0">
+							<span className="break-all select-text">{row.value}</span>
+							{row.copyable && (
+								<Button
+									variant="ghost"
+									size="icon"
+									className="size-5 shrink-0"
+									onClick={() => copyToClipboard(String(row.value))}
+									title={`Copy ${row.label.toLowerCase()}`}
+								>
+									<Copy className="size-3" />
+								</Button>
+							)}
+						</dd>
+					</div>
+				))}
+			</dl>
+		</section>
+	);
+}
+
+interface TrackInfoDialogProps {
+	song: Song;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function TrackInfoDialog({
+	song: initialSong,
+	open,
+	onOpenChange,
+}: TrackInfoDialogProps) {
+	// Songs from queues and lists may be missing fields, so load the full entry
+	const { data: fullSong } = useQuery({
+		queryKey: ["song", initialSong.id],
+		queryFn: ({ signal }) => getSong(initialSong.id, { signal }),
+		enabled: open && initialSong.type !== "podcast",
+	});
+	const song = fullSong ?? initialSong;
+	const replayGain = song.replayGain;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Track Info</DialogTitle>
+					<DialogDescription>
+						{song.title}
+						{song.artist && ` by ${song.artist}`}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-5">
+					<InfoSection
+						title="Tags"
+						rows={[
+							{ label: "Title", value: song.title },
+							{ label: "Artist", value: song.artist },
+							{ label: "Album", value: song.album },
+							{ label: "Track", value: song.track },
+							{ label: "Disc", value: song.discNumber },
+							{ label: "Year", value: song.year },
+							{ label: "Genre", value: song.genre },
+							{ label: "Moods", value: song.moods?.join(", ") },
+							{ label: "BPM", value: song.bpm || undefined },
+							{ label: "Comment", value: song.comment },
+							...(song.contributors ?? []).map((contributor, i) => ({
+								key: `contributor-${i}`,
+								label: capitalize(contributor.subRole ?? contributor.role),
+								value: contributor.artist.name,
+							})),
+						]}
+					/>
+
+					<InfoSection
+						title="File"
+						rows={[
+							{
+								label: "Format",
+								value: [song.suffix?.toUpperCase(), song.contentType]
+									.filter(Boolean)
+									.join(" • "),
+							},
+							{
+								label: "Duration",
+								value: song.duration ? formatDuration(song.duration) : null,
+							},
+							{
+								label: "Bitrate",
+								value: song.bitRate ? `${song.bitRate} kbps` : null,
+							},
+							{
+								label: "Sample rate",
+								value: song.samplingRate
+									? `${(song.samplingRate / 1000).toLocaleString()} kHz`
+									: null,
+							},
+							{
+								label: "Bit depth",
+								value: song.bitDepth ? `${song.bitDepth}-bit` : null,
+							},
+							{
+								label: "Channels",
+								value: song.channelCount
+									? formatChannels(song.channelCount)
+									: null,
+							},
+							{
+								label: "Size",
+								value: song.size ? formatSize(song.size) : null,
+							},
+							{ label: "Path", value: song.path, copyable: true },
+						]}
+					/>
+
+					<InfoSection
+						title="Playback"
+						rows={[
+							{ label: "Play count", value: song.playCount },
+							{
+								label: "Last played",
+								value: song.played
+									? new Date(song.played).toLocaleString()
+									: null,
+							},
+							{
+								label: "Rating",
+								value: song.userRating ? `${song.userRating} / 5` : null,
+							},
+							{
+								label: "Added",
+								value: song.created
+									? new Date(song.created).toLocaleString()
+									: null,
+							},
+							{
+								label: "Track gain",
+								value: formatGain(replayGain?.trackGain, replayGain?.trackPeak),
+							},
+							{
+								label: "Album gain",
+								value: formatGain(replayGain?.albumGain, replayGain?.albumPeak),
+							},
+						]}
+					/>
+
+					<InfoSection
+						title="Identifiers"
+						rows={[
+							{ label: "Song ID", value: song.id, copyable: true },
+							{ label: "Album ID", value: song.albumId, copyable: true },
+							{ label: "Artist ID", value: song.artistId, copyable: true },
+							{
+								label: "MusicBrainz ID",
+								value: song.musicBrainzId,
+								copyable: true,
+							},
+							{ label: "ISRC", value: song.isrc?.join(", "), copyable: true },
+						]}
+					/>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getUser } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+
+/**
+ * The signed-in user's account and roles, used to show admin-only actions.
+ * Until it loads the user is treated as a regular account.
+ */
+export function useCurrentUser() {
+	const { credentials } = useAuth();
+	const username = credentials?.username ?? "";
+
+	const { data, isLoading } = useQuery({
+		queryKey: ["user", username],
+		queryFn: ({ signal }) => getUser(username, { signal }),
+		enabled: !!username,
+		staleTime: 10 * 60 * 1000,
+	});
+
+	return {
+		user: data ?? null,
+		isAdmin: !!data?.adminRole,
+		isLoading,
+	};
+}
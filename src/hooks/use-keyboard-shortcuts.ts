@@ -2,7 +2,9 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useCallback, useEffect, useRef } from "react";
 import { toast } from "sonner";
 
-import { star, unstar } from "@/lib/api";
+import { useSetRating } from "@/hooks/use-set-rating";
+import { type Rating, star, unstar } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 import {
 	playNext,
 	playPrevious,
@@ -29,12 +31,14 @@ import {
  * - P: Previous track
  * - M: Mute/unmute
  * - L: Toggle favorite (star/unstar)
+ * - 1-5: Rate current track (0 removes the rating)
  * - R: Toggle repeat mode
  * - S: Toggle shuffle
  */
 export function useGlobalKeyboardShortcuts() {
 	const { currentTrack, currentTime, duration, volume } = usePlayer();
 	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
 
 	// Use refs for values that change frequently to avoid recreating the callback
 	const currentTimeRef = useRef(currentTime);
@@ -42,6 +46,7 @@ export function useGlobalKeyboardShortcuts() {
 	const volumeRef = useRef(volume);
 	const currentTrackRef = useRef(currentTrack);
 	const prevVolumeRef = useRef(1);
+	const ratingsEnabledRef = useRef(features.ratings);
 
 	// Keep refs in sync
 	useEffect(() => {
@@ -60,6 +65,10 @@ export function useGlobalKeyboardShortcuts() {
 		currentTrackRef.current = currentTrack;
 	}, [currentTrack]);
 
+	useEffect(() => {
+		ratingsEnabledRef.current = features.ratings;
+	}, [features.ratings]);
+
 	// Stable star mutation handler
 	const handleStar = useCallback(
 		async (songId: string, shouldStar: boolean) => {
@@ -86,6 +95,26 @@ export function useGlobalKeyboardShortcuts() {
 		[queryClient],
 	);
 
+	// Same optimistic updates as the rating stars; mutate is stable
+	const { mutate: rateSong } = useSetRating("song");
+	const handleRate = useCallback(
+		(songId: string, rating: Rating, previousRating: number) => {
+			rateSong(
+				{ id: songId, rating, previousRating },
+				{
+					onSuccess: () => {
+						toast.success(
+							rating
+								? `Rated ${rating} star${rating !== 1 ? "s" : ""}`
+								: "Rating removed",
+						);
+					},
+				},
+			);
+		},
+		[rateSong],
+	);
+
 	useEffect(() => {
 		const handleKeyDown = (e: KeyboardEvent) => {
 			const target = e.target as HTMLElement;
@@ -156,6 +185,24 @@ export function useGlobalKeyboardShortcuts() {
 						);
 					}
 					break;
+				case "Digit0":
+				case "Digit1":
+				case "Digit2":
+				case "Digit3":
+				case "Digit4":
+				case "Digit5": {
+					// Leave modified digits to the browser (e.g. switching tabs)
+					if (e.ctrlKey || e.metaKey || e.altKey || e.shiftKey) break;
+					const track = currentTrackRef.current;
+					if (!track || !ratingsEnabledRef.current) break;
+					e.preventDefault();
+					handleRate(
+						track.id,
+						Number(e.code.slice(-1)) as Rating,
+						track.userRating ?? 0,
+					);
+					break;
+				}
 				case "KeyR":
 					e.preventDefault();
 					toggleRepeat();
@@ -171,5 +218,5 @@ export function useGlobalKeyboardShortcuts() {
 
 		window.addEventListener("keydown", handleKeyDown);
 		return () => window.removeEventListener("keydown", handleKeyDown);
-	}, [handleStar]);
+	}, [handleStar, handleRate]);
 }
@@ -0,0 +1,51 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useCallback } from "react";
+
+import { getActiveProfileId, switchProfile } from "@/lib/auth";
+import {
+	isQueueSyncEnabled,
+	resetPlayer,
+	restoreQueue,
+	saveQueueNow,
+} from "@/lib/player";
+import { reloadSettings } from "@/lib/settings";
+
+/**
+ * Switch the active server profile.
+ *
+ * Saves the current play queue to the old server, then resets the player,
+ * settings and query cache so nothing from one server leaks into another.
+ */
+export function useProfileSwitcher() {
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+
+	return useCallback(
+		async (profileId: string) => {
+			const previousProfileId = getActiveProfileId();
+			if (profileId === previousProfileId) {
+				await navigate({ to: "/app" });
+				return;
+			}
+
+			if (previousProfileId && isQueueSyncEnabled()) {
+				await saveQueueNow().catch((err) => {
+					console.error("Failed to save play queue before switching:", err);
+				});
+			}
+			resetPlayer();
+
+			switchProfile(profileId);
+			reloadSettings();
+			queryClient.clear();
+
+			await navigate({ to: "/app" });
+
+			if (isQueueSyncEnabled()) {
+				restoreQueue();
+			}
+		},
+		[queryClient, navigate],
+	);
+}
@@ -0,0 +1,202 @@
+import {
+	type InfiniteData,
+	useMutation,
+	useQueryClient,
+} from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import {
+	type Album,
+	type Rating,
+	type SearchResult,
+	type Song,
+	setRating,
+} from "@/lib/api";
+import { updateCurrentTrackRating } from "@/lib/player";
+
+type SnapshotList = Array<{ queryKey: readonly unknown[]; data: unknown }>;
+
+// Helper to update the rating of songs within any cache
+function updateSongRatingInCache(
+	songs: Song[] | undefined,
+	songId: string,
+	userRating: number | undefined,
+): Song[] | undefined {
+	if (!songs) return undefined;
+	return songs.map((song) =>
+		song.id === songId ? { ...song, userRating } : song,
+	);
+}
+
+// Helper to update the rating of an album within any cache
+function updateAlbumRatingInCache(
+	albums: Album[] | undefined,
+	albumId: string,
+	userRating: number | undefined,
+): Album[] | undefined {
+	if (!albums) return undefined;
+	return albums.map((album) =>
+		album.id === albumId ? { ...album, userRating } : album,
+	);
+}
+
+/**
+ * Rate a song or album, updating cached lists and the player right away and
+ * rolling back if the server rejects it.
+ */
+export function useSetRating(type: "song" | "album") {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: ({
+			id,
+			rating,
+		}: {
+			id: string;
+			rating: Rating;
+			// Restored in the player if saving fails
+			previousRating?: number;
+		}) => setRating(id, rating),
+		onMutate: async ({ id, rating }) => {
+			const userRating = rating || undefined;
+			const previous: SnapshotList = [];
+			const update = <T>(
+				queryKey: readonly unknown[],
+				data: T | undefined,
+				updated: T | undefined,
+			) => {
+				if (!data || !updated) return;
+				previous.push({ queryKey, data });
+				queryClient.setQueryData(queryKey, updated);
+			};
+
+			await queryClient.cancelQueries({ queryKey: ["search"] });
+
+			if (type === "album") {
+				await queryClient.cancelQueries({ queryKey: ["album", id] });
+				await queryClient.cancelQueries({ queryKey: ["albums"] });
+
+				const albumData = queryClient.getQueryData<{
+					album: Album;
+					songs: Song[];
+				}>(["album", id]);
+				update(
+					["album", id],
+					albumData,
+					albumData && {
+						...albumData,
+						album: { ...albumData.album, userRating },
+					},
+				);
+
+				for (const [queryKey, data] of queryClient.getQueriesData<Album[]>({
+					queryKey: ["albums"],
+				})) {
+					// Infinite album lists hold pages rather than an array
+					if (Array.isArray(data)) {
+						update(
+							queryKey,
+							data,
+							updateAlbumRatingInCache(data, id, userRating),
+						);
+					}
+				}
+
+				for (const [queryKey, data] of queryClient.getQueriesData<SearchResult>(
+					{ queryKey: ["search"] },
+				)) {
+					const albums = updateAlbumRatingInCache(data?.albums, id, userRating);
+					update(queryKey, data, data && albums && { ...data, albums });
+				}
+
+				return { previous };
+			}
+
+			await queryClient.cancelQueries({ queryKey: ["album"] });
+			await queryClient.cancelQueries({ queryKey: ["playlist"] });
+			await queryClient.cancelQueries({ queryKey: ["randomSongs"] });
+			await queryClient.cancelQueries({ queryKey: ["starred"] });
+			await queryClient.cancelQueries({ queryKey: ["top-songs"] });
+			await queryClient.cancelQueries({ queryKey: ["genre-songs"] });
+
+			// Update player state if this song is queued
+			updateCurrentTrackRating(id, rating);
+
+			for (const key of ["randomSongs", "top-songs"]) {
+				for (const [queryKey, data] of queryClient.getQueriesData<Song[]>({
+					queryKey: [key],
+				})) {
+					update(queryKey, data, updateSongRatingInCache(data, id, userRating));
+				}
+			}
+
+			for (const [queryKey, data] of queryClient.getQueriesData<SearchResult>({
+				queryKey: ["search"],
+			})) {
+				const songs = updateSongRatingInCache(data?.songs, id, userRating);
+				update(queryKey, data, data && songs && { ...data, songs });
+			}
+
+			// Genre songs are an infinite list of pages
+			for (const [queryKey, data] of queryClient.getQueriesData<
+				InfiniteData<Song[]>
+			>({ queryKey: ["genre-songs"] })) {
+				update(
+					queryKey,
+					data,
+					data && {
+						...data,
+						pages: data.pages.map(
+							(page) => updateSongRatingInCache(page, id, userRating) ?? page,
+						),
+					},
+				);
+			}
+
+			for (const [queryKey, data] of queryClient.getQueriesData<{
+				album: Album;
+				songs: Song[];
+			}>({ queryKey: ["album"] })) {
+				const songs = updateSongRatingInCache(data?.songs, id, userRating);
+				update(queryKey, data, data && songs && { ...data, songs });
+			}
+
+			for (const [queryKey, data] of queryClient.getQueriesData<{
+				entry?: Song[];
+			}>({ queryKey: ["playlist"] })) {
+				const entry = updateSongRatingInCache(data?.entry, id, userRating);
+				update(queryKey, data, data && entry && { ...data, entry });
+			}
+
+			for (const [queryKey, data] of queryClient.getQueriesData<{
+				songs: Song[];
+			}>({ queryKey: ["starred"] })) {
+				const songs = updateSongRatingInCache(data?.songs, id, userRating);
+				update(queryKey, data, data && songs && { ...data, songs });
+			}
+
+			return { previous };
+		},
+		onError: (_err, { id, previousRating }, context) => {
+			toast.error("Failed to save rating");
+			if (!context) return;
+
+			for (const { queryKey, data } of context.previous) {
+				queryClient.setQueryData(queryKey, data);
+			}
+			if (type === "song") {
+				updateCurrentTrackRating(id, previousRating ?? 0);
+			}
+		},
+		onSettled: (_data, _err, { id }) => {
+			// Refetch to ensure consistency with server
+			if (type === "album") {
+				queryClient.invalidateQueries({ queryKey: ["album", id] });
+				queryClient.invalidateQueries({ queryKey: ["albums"] });
+			} else {
+				queryClient.invalidateQueries({ queryKey: ["song", id] });
+				queryClient.invalidateQueries({ queryKey: ["randomSongs"] });
+			}
+		},
+	});
+}
@@ -1,7 +1,29 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import {
+	MutationCache,
+	QueryCache,
+	QueryClient,
+	QueryClientProvider,
+} from "@tanstack/react-query";
+import { toast } from "sonner";
+
+import { isAuthenticated, logout } from "@/lib/auth";
+import { resetPlayer } from "@/lib/player";
+import { isAuthError, SubsonicError } from "@/lib/subsonic";
 
 export function getContext() {
-	const queryClient = new QueryClient({
+	// Auth errors only reach here when re-authentication was declined. End the
+	// session; AppLayout sends the user back to the login page.
+	const handleError = (error: Error) => {
+		if (!isAuthError(error) || !isAuthenticated()) return;
+		resetPlayer();
+		queryClient.clear();
+		logout();
+		toast.error(`Signed out: ${error.message}`);
+	};
+
+	const queryClient: QueryClient = new QueryClient({
+		queryCache: new QueryCache({ onError: handleError }),
+		mutationCache: new MutationCache({ onError: handleError }),
 		defaultOptions: {
 			queries: {
 				// Data stays fresh for 5 minutes - won't refetch during this time
@@ -12,8 +34,10 @@ export function getContext() {
 				refetchOnWindowFocus: false,
 				// Don't refetch when component remounts if data is still fresh
 				refetchOnMount: false,
-				// Retry failed requests once
-				retry: 1,
+				// Retry failed requests once, unless the server gave a definite
+				// answer (not found, unauthorized, ...)
+				retry: (failureCount, error) =>
+					!(error instanceof SubsonicError) && failureCount < 1,
 			},
 		},
 	});
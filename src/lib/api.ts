@@ -1,4 +1,14 @@
-import { buildApiUrl } from "./subsonic";
+import {
+	buildApiUrl,
+	hexEncode,
+	type RequestOptions,
+	SubsonicError,
+	SubsonicErrorCode,
+	type SubsonicParams,
+	subsonicRequest,
+} from "./subsonic";
+
+export type { RequestOptions, SubsonicResponse } from "./subsonic";
 
 // Subsonic API Types
 export interface Album {
@@ -13,6 +23,44 @@ export interface Album {
 	genre?: string;
 	created?: string;
 	starred?: string; // ISO date string if starred
+	userRating?: number; // 1-5
+	// OpenSubsonic fields
+	musicBrainzId?: string;
+	recordLabels?: RecordLabel[];
+	releaseTypes?: string[]; // e.g. "Album", "Compilation", "EP"
+	releaseDate?: ItemDate;
+	originalReleaseDate?: ItemDate;
+	isCompilation?: boolean;
+	discTitles?: DiscTitle[];
+	artists?: ArtistRef[];
+	displayArtist?: string;
+	genres?: ItemGenre[];
+}
+
+// An artist credited on an album or song (OpenSubsonic)
+export interface ArtistRef {
+	id: string;
+	name: string;
+}
+
+export interface ItemGenre {
+	name: string;
+}
+
+export interface RecordLabel {
+	name: string;
+}
+
+// A possibly partial date; any part may be missing
+export interface ItemDate {
+	year?: number;
+	month?: number;
+	day?: number;
+}
+
+export interface DiscTitle {
+	disc: number;
+	title: string;
 }
 
 export interface Artist {
@@ -33,27 +81,81 @@ export interface Song {
 	coverArt?: string;
 	duration?: number;
 	track?: number;
+	discNumber?: number;
 	year?: number;
 	genre?: string;
 	size?: number;
 	contentType?: string;
 	suffix?: string;
+	bitRate?: number; // kbps
 	path?: string;
+	parent?: string; // ID of the containing folder
 	starred?: string; // ISO date string if starred
+	type?: string; // "music" or "podcast"
+	created?: string; // When the song was added to the library
+	samplingRate?: number; // Hz
+	bitDepth?: number;
+	channelCount?: number;
+	bpm?: number;
+	comment?: string;
+	replayGain?: ReplayGain;
+	playCount?: number;
+	played?: string; // ISO date string of the last play
+	userRating?: number; // 1-5
+	musicBrainzId?: string;
+	isrc?: string[];
+	contributors?: Contributor[];
+	moods?: string[];
+	artists?: ArtistRef[];
+	displayArtist?: string;
+	albumArtists?: ArtistRef[];
+	displayAlbumArtist?: string;
+	genres?: ItemGenre[];
 }
 
-export interface SubsonicResponse<T> {
-	"subsonic-response": {
-		status: "ok" | "failed";
-		version: string;
-		type: string;
-		serverVersion: string;
-		openSubsonic: boolean;
-		error?: {
-			code: number;
-			message: string;
-		};
-	} & T;
+// Gains in dB, peaks as a fraction of full scale
+export interface ReplayGain {
+	trackGain?: number;
+	albumGain?: number;
+	trackPeak?: number;
+	albumPeak?: number;
+	baseGain?: number;
+	fallbackGain?: number;
+}
+
+// Someone credited on a song besides the main artist, e.g. a composer
+export interface Contributor {
+	role: string; // e.g. "composer", "performer"
+	subRole?: string; // e.g. the instrument for performers
+	artist: ArtistRef;
+}
+
+// An artist to show, linked when it has an ID
+export interface ArtistCredit {
+	id?: string;
+	name: string;
+}
+
+// The artists credited on a song or album. Plain Subsonic servers only send
+// a single artist, which may itself name several ("A feat. B").
+export function getArtistCredits(item: {
+	artists?: ArtistRef[];
+	artist?: string;
+	artistId?: string;
+}): ArtistCredit[] {
+	if (item.artists && item.artists.length > 0) return item.artists;
+	if (!item.artist) return [];
+	return [{ id: item.artistId, name: item.artist }];
+}
+
+export function getGenreNames(item: {
+	genres?: ItemGenre[];
+	genre?: string;
+}): string[] {
+	if (item.genres && item.genres.length > 0) {
+		return item.genres.map((genre) => genre.name);
+	}
+	return item.genre ? [item.genre] : [];
 }
 
 export type AlbumListType =
@@ -68,51 +170,77 @@ export type AlbumListType =
 	| "byYear"
 	| "byGenre";
 
+// Options for list and search calls that can be limited to one library
+export interface LibraryRequestOptions extends RequestOptions {
+	// Music folder to search in; all folders when omitted
+	musicFolderId?: string;
+}
+
 // API Functions
 
+// Treat "not found" as an empty result for lookups where missing data is
+// normal (no lyrics, no similar artists), while still surfacing real failures
+async function orIfNotFound<T>(request: Promise<T>, fallback: T): Promise<T> {
+	try {
+		return await request;
+	} catch (error) {
+		if (error instanceof SubsonicError && error.isNotFound) {
+			return fallback;
+		}
+		throw error;
+	}
+}
+
+export interface MusicFolder {
+	id: string;
+	name?: string;
+}
+
+export async function getMusicFolders(
+	options?: RequestOptions,
+): Promise<MusicFolder[]> {
+	const data = await subsonicRequest<{
+		musicFolders?: {
+			musicFolder?: Array<{ id: string | number; name?: string }>;
+		};
+	}>("getMusicFolders", undefined, options);
+	// Some servers send numeric IDs
+	return (data.musicFolders?.musicFolder ?? []).map((folder) => ({
+		...folder,
+		id: String(folder.id),
+	}));
+}
+
 export async function getAlbumList(
 	type: AlbumListType = "newest",
 	size = 50,
 	offset = 0,
+	options?: LibraryRequestOptions,
 ): Promise<Album[]> {
-	const url = await buildApiUrl("getAlbumList2", {
-		type,
-		size: size.toString(),
-		offset: offset.toString(),
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{ albumList2?: { album?: Album[] } }> =
-		await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch albums",
-		);
-	}
-
-	return data["subsonic-response"].albumList2?.album ?? [];
+	const data = await subsonicRequest<{ albumList2?: { album?: Album[] } }>(
+		"getAlbumList2",
+		{ type, size, offset, musicFolderId: options?.musicFolderId },
+		options,
+	);
+	return data.albumList2?.album ?? [];
 }
 
-export async function getAlbum(id: string): Promise<{
+export async function getAlbum(
+	id: string,
+	options?: RequestOptions,
+): Promise<{
 	album: Album;
 	songs: Song[];
 }> {
-	const url = await buildApiUrl("getAlbum", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{ album?: Album & { song?: Song[] } }> =
-		await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch album",
-		);
-	}
+	const data = await subsonicRequest<{ album?: Album & { song?: Song[] } }>(
+		"getAlbum",
+		{ id },
+		options,
+	);
 
-	const albumData = data["subsonic-response"].album;
+	const albumData = data.album;
 	if (!albumData) {
-		throw new Error("Album not found");
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Album not found");
 	}
 
 	const { song, ...album } = albumData;
@@ -122,61 +250,45 @@ export async function getAlbum(id: string): Promise<{
 	};
 }
 
-export async function getArtists(): Promise<Artist[]> {
-	const url = await buildApiUrl("getArtists");
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
+export async function getArtists(
+	options?: LibraryRequestOptions,
+): Promise<Artist[]> {
+	const data = await subsonicRequest<{
 		artists?: { index?: Array<{ artist?: Artist[] }> };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch artists",
-		);
-	}
+	}>("getArtists", { musicFolderId: options?.musicFolderId }, options);
 
-	const indexes = data["subsonic-response"].artists?.index ?? [];
+	const indexes = data.artists?.index ?? [];
 	return indexes.flatMap((index) => index.artist ?? []);
 }
 
-export async function getRandomSongs(size = 50): Promise<Song[]> {
-	const url = await buildApiUrl("getRandomSongs", {
-		size: size.toString(),
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{ randomSongs?: { song?: Song[] } }> =
-		await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch songs",
-		);
-	}
-
-	return data["subsonic-response"].randomSongs?.song ?? [];
+export async function getRandomSongs(
+	size = 50,
+	options?: LibraryRequestOptions,
+): Promise<Song[]> {
+	const data = await subsonicRequest<{ randomSongs?: { song?: Song[] } }>(
+		"getRandomSongs",
+		{ size, musicFolderId: options?.musicFolderId },
+		options,
+	);
+	return data.randomSongs?.song ?? [];
 }
 
-export async function getArtist(id: string): Promise<{
+export async function getArtist(
+	id: string,
+	options?: RequestOptions,
+): Promise<{
 	artist: Artist;
 	albums: Album[];
 }> {
-	const url = await buildApiUrl("getArtist", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{ artist?: Artist & { album?: Album[] } }> =
-		await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch artist",
-		);
-	}
+	const data = await subsonicRequest<{ artist?: Artist & { album?: Album[] } }>(
+		"getArtist",
+		{ id },
+		options,
+	);
 
-	const artistData = data["subsonic-response"].artist;
+	const artistData = data.artist;
 	if (!artistData) {
-		throw new Error("Artist not found");
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Artist not found");
 	}
 
 	const { album, ...artist } = artistData;
@@ -192,30 +304,29 @@ export interface SearchResult {
 	songs: Song[];
 }
 
-export async function search(query: string): Promise<SearchResult> {
-	const url = await buildApiUrl("search3", {
-		query,
-		artistCount: "20",
-		albumCount: "20",
-		songCount: "20",
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
+export async function search(
+	query: string,
+	options?: LibraryRequestOptions,
+): Promise<SearchResult> {
+	const data = await subsonicRequest<{
 		searchResult3?: {
 			artist?: Artist[];
 			album?: Album[];
 			song?: Song[];
 		};
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Search failed",
-		);
-	}
+	}>(
+		"search3",
+		{
+			query,
+			artistCount: 20,
+			albumCount: 20,
+			songCount: 20,
+			musicFolderId: options?.musicFolderId,
+		},
+		options,
+	);
 
-	const result = data["subsonic-response"].searchResult3;
+	const result = data.searchResult3;
 	return {
 		artists: result?.artist ?? [],
 		albums: result?.album ?? [],
@@ -223,6 +334,29 @@ export async function search(query: string): Promise<SearchResult> {
 	};
 }
 
+// Page through matching songs. Most servers list every song for an empty
+// query.
+export async function searchSongs(
+	query: string,
+	count = 500,
+	offset = 0,
+	options?: LibraryRequestOptions,
+): Promise<Song[]> {
+	const data = await subsonicRequest<{ searchResult3?: { song?: Song[] } }>(
+		"search3",
+		{
+			query,
+			artistCount: 0,
+			albumCount: 0,
+			songCount: count,
+			songOffset: offset,
+			musicFolderId: options?.musicFolderId,
+		},
+		options,
+	);
+	return data.searchResult3?.song ?? [];
+}
+
 // Get starred/favorite items
 export interface StarredResult {
 	artists: Artist[];
@@ -230,25 +364,18 @@ export interface StarredResult {
 	songs: Song[];
 }
 
-export async function getStarred(): Promise<StarredResult> {
-	const url = await buildApiUrl("getStarred2");
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
+export async function getStarred(
+	options?: LibraryRequestOptions,
+): Promise<StarredResult> {
+	const data = await subsonicRequest<{
 		starred2?: {
 			artist?: Artist[];
 			album?: Album[];
 			song?: Song[];
 		};
-	}> = await response.json();
+	}>("getStarred2", { musicFolderId: options?.musicFolderId }, options);
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch starred",
-		);
-	}
-
-	const result = data["subsonic-response"].starred2;
+	const result = data.starred2;
 	return {
 		artists: result?.artist ?? [],
 		albums: result?.album ?? [],
@@ -262,11 +389,7 @@ export async function getCoverArtUrl(
 	coverArtId: string,
 	size?: number,
 ): Promise<string> {
-	const params: Record<string, string> = { id: coverArtId };
-	if (size) {
-		params.size = size.toString();
-	}
-	return buildApiUrl("getCoverArt", params);
+	return buildApiUrl("getCoverArt", { id: coverArtId, size });
 }
 
 export async function getStreamUrl(songId: string): Promise<string> {
@@ -279,20 +402,11 @@ export async function star(options: {
 	albumId?: string;
 	artistId?: string;
 }): Promise<void> {
-	const params: Record<string, string> = {};
-	if (options.id) params.id = options.id;
-	if (options.albumId) params.albumId = options.albumId;
-	if (options.artistId) params.artistId = options.artistId;
-
-	const url = await buildApiUrl("star", params);
-	const response = await fetch(url);
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to star item",
-		);
-	}
+	await subsonicRequest("star", {
+		id: options.id,
+		albumId: options.albumId,
+		artistId: options.artistId,
+	});
 }
 
 export async function unstar(options: {
@@ -300,20 +414,11 @@ export async function unstar(options: {
 	albumId?: string;
 	artistId?: string;
 }): Promise<void> {
-	const params: Record<string, string> = {};
-	if (options.id) params.id = options.id;
-	if (options.albumId) params.albumId = options.albumId;
-	if (options.artistId) params.artistId = options.artistId;
-
-	const url = await buildApiUrl("unstar", params);
-	const response = await fetch(url);
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to unstar item",
-		);
-	}
+	await subsonicRequest("unstar", {
+		id: options.id,
+		albumId: options.albumId,
+		artistId: options.artistId,
+	});
 }
 
 // Scrobble - report playback to server
@@ -321,22 +426,9 @@ export async function scrobble(
 	id: string,
 	options?: { submission?: boolean },
 ): Promise<void> {
-	const params: Record<string, string> = { id };
 	// submission=true means the song has finished playing (or played enough to count)
 	// submission=false means "now playing" update
-	if (options?.submission !== undefined) {
-		params.submission = options.submission.toString();
-	}
-
-	const url = await buildApiUrl("scrobble", params);
-	const response = await fetch(url);
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to scrobble",
-		);
-	}
+	await subsonicRequest("scrobble", { id, submission: options?.submission });
 }
 
 // Genre types and API functions
@@ -357,119 +449,254 @@ export interface Lyrics {
 export async function getLyrics(
 	artist: string,
 	title: string,
+	options?: RequestOptions,
 ): Promise<Lyrics | null> {
-	const url = await buildApiUrl("getLyrics", { artist, title });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		lyrics?: Lyrics;
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return null;
-	}
-
-	return data["subsonic-response"].lyrics ?? null;
+	const data = await orIfNotFound(
+		subsonicRequest<{ lyrics?: Lyrics }>(
+			"getLyrics",
+			{ artist, title },
+			options,
+		),
+		null,
+	);
+	return data?.lyrics ?? null;
 }
 
 export async function getSimilarSongs2(
 	id: string,
 	count = 50,
+	options?: RequestOptions,
 ): Promise<Song[]> {
-	const url = await buildApiUrl("getSimilarSongs2", {
-		id,
-		count: count.toString(),
-	});
+	const data = await orIfNotFound(
+		subsonicRequest<{ similarSongs2?: { song?: Song[] } }>(
+			"getSimilarSongs2",
+			{ id, count },
+			options,
+		),
+		null,
+	);
+	return data?.similarSongs2?.song ?? [];
+}
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		similarSongs2?: { song?: Song[] };
-	}> = await response.json();
+export interface ArtistInfo {
+	biography?: string; // HTML, usually from Last.fm
+	musicBrainzId?: string;
+	lastFmUrl?: string;
+	smallImageUrl?: string;
+	mediumImageUrl?: string;
+	largeImageUrl?: string;
+	similarArtist?: Artist[];
+}
 
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
+export interface AlbumInfo {
+	notes?: string; // HTML, usually from Last.fm
+	musicBrainzId?: string;
+	lastFmUrl?: string;
+	smallImageUrl?: string;
+	mediumImageUrl?: string;
+	largeImageUrl?: string;
+}
 
-	return data["subsonic-response"].similarSongs2?.song ?? [];
+export async function getAlbumInfo2(
+	id: string,
+	options?: RequestOptions,
+): Promise<AlbumInfo | null> {
+	const data = await orIfNotFound(
+		subsonicRequest<{ albumInfo?: AlbumInfo }>(
+			"getAlbumInfo2",
+			{ id },
+			options,
+		),
+		null,
+	);
+	return data?.albumInfo ?? null;
 }
 
-export async function getSimilarArtists(
+// Biography, images, external IDs and similar artists for an artist
+export async function getArtistInfo2(
 	id: string,
 	count = 20,
-): Promise<Artist[]> {
-	const url = await buildApiUrl("getSimilarArtists2", {
-		id,
-		count: count.toString(),
-	});
+	options?: RequestOptions,
+): Promise<ArtistInfo | null> {
+	const data = await orIfNotFound(
+		subsonicRequest<{ artistInfo2?: ArtistInfo }>(
+			"getArtistInfo2",
+			{ id, count },
+			options,
+		),
+		null,
+	);
+	return data?.artistInfo2 ?? null;
+}
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		similarArtists2?: { artist?: Artist[] };
-	}> = await response.json();
+export async function getArtistAlbums(
+	artistId: string,
+	options?: RequestOptions,
+): Promise<Album[]> {
+	const data = await orIfNotFound(
+		subsonicRequest<{ artist?: Artist & { album?: Album[] } }>(
+			"getArtist",
+			{ id: artistId },
+			options,
+		),
+		null,
+	);
+	return data?.artist?.album ?? [];
+}
 
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
+export async function getGenres(options?: RequestOptions): Promise<Genre[]> {
+	const data = await subsonicRequest<{ genres?: { genre?: Genre[] } }>(
+		"getGenres",
+		undefined,
+		options,
+	);
+	return data.genres?.genre ?? [];
+}
 
-	return data["subsonic-response"].similarArtists2?.artist ?? [];
+export async function getSongsByGenre(
+	genre: string,
+	count = 50,
+	offset = 0,
+	options?: LibraryRequestOptions,
+): Promise<Song[]> {
+	const data = await subsonicRequest<{ songsByGenre?: { song?: Song[] } }>(
+		"getSongsByGenre",
+		{ genre, count, offset, musicFolderId: options?.musicFolderId },
+		options,
+	);
+	return data.songsByGenre?.song ?? [];
 }
 
-export async function getArtistAlbums(artistId: string): Promise<Album[]> {
-	const url = await buildApiUrl("getArtist", { id: artistId });
+// ============================================================================
+// Folder Browsing (file system layout rather than tags)
+// ============================================================================
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		artist?: Artist & { album?: Album[] };
-	}> = await response.json();
+export interface Folder {
+	id: string;
+	name: string;
+	coverArt?: string;
+	starred?: string;
+}
 
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
+export interface FolderIndex {
+	name: string; // Usually the first letter
+	folders: Folder[];
+}
+
+export async function getIndexes(options?: LibraryRequestOptions): Promise<{
+	indexes: FolderIndex[];
+	// Files sitting directly in the music folder root
+	songs: Song[];
+}> {
+	const data = await subsonicRequest<{
+		indexes?: {
+			index?: Array<{ name: string; artist?: Folder[] }>;
+			child?: Array<Song & { isDir?: boolean }>;
+		};
+	}>("getIndexes", { musicFolderId: options?.musicFolderId }, options);
 
-	return data["subsonic-response"].artist?.album ?? [];
+	return {
+		indexes: (data.indexes?.index ?? []).map((index) => ({
+			name: index.name,
+			folders: index.artist ?? [],
+		})),
+		songs: (data.indexes?.child ?? []).filter((child) => !child.isDir),
+	};
 }
 
-export async function getGenres(): Promise<Genre[]> {
-	const url = await buildApiUrl("getGenres");
+export interface MusicDirectory {
+	id: string;
+	name: string;
+	parent?: string;
+	starred?: string;
+}
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		genres?: { genre?: Genre[] };
-	}> = await response.json();
+export async function getMusicDirectory(
+	id: string,
+	options?: RequestOptions,
+): Promise<{
+	directory: MusicDirectory;
+	folders: Folder[];
+	songs: Song[];
+}> {
+	const data = await subsonicRequest<{
+		directory?: MusicDirectory & {
+			child?: Array<Song & { isDir?: boolean; isVideo?: boolean }>;
+		};
+	}>("getMusicDirectory", { id }, options);
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch genres",
-		);
+	const directoryData = data.directory;
+	if (!directoryData) {
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Folder not found");
 	}
 
-	return data["subsonic-response"].genres?.genre ?? [];
+	const { child, ...directory } = directoryData;
+	const children = child ?? [];
+	return {
+		directory,
+		folders: children
+			.filter((entry) => entry.isDir)
+			.map((entry) => ({
+				id: entry.id,
+				name: entry.title,
+				coverArt: entry.coverArt,
+				starred: entry.starred,
+			})),
+		songs: children.filter((entry) => !entry.isDir && !entry.isVideo),
+	};
 }
 
-export async function getSongsByGenre(
-	genre: string,
-	count = 50,
-	offset = 0,
-): Promise<Song[]> {
-	const url = await buildApiUrl("getSongsByGenre", {
-		genre,
-		count: count.toString(),
-		offset: offset.toString(),
-	});
+// Folders fetched at once when walking a directory tree
+const FOLDER_FETCH_CONCURRENCY = 4;
+// Stop walking huge trees, e.g. a whole library's root folder
+export const MAX_FOLDER_SONGS = 5000;
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		songsByGenre?: { song?: Song[] };
-	}> = await response.json();
+/**
+ * Every song in a folder and its subfolders, in directory order. Stops once
+ * `maxSongs` are found, reporting that the result was cut short.
+ */
+export async function getMusicDirectorySongs(
+	id: string,
+	maxSongs = MAX_FOLDER_SONGS,
+	options?: RequestOptions,
+): Promise<{ songs: Song[]; truncated: boolean }> {
+	let found = 0;
+	let truncated = false;
+	let active = 0;
+	const waiting: Array<() => void> = [];
+
+	const fetchDirectory = async (folderId: string) => {
+		if (active < FOLDER_FETCH_CONCURRENCY) {
+			active++;
+		} else {
+			// Wait for a finished request to hand over its slot
+			await new Promise<void>((resolve) => waiting.push(resolve));
+		}
+		try {
+			return await getMusicDirectory(folderId, options);
+		} finally {
+			const next = waiting.shift();
+			if (next) next();
+			else active--;
+		}
+	};
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message ||
-				"Failed to fetch songs by genre",
-		);
-	}
+	const walk = async (folderId: string): Promise<Song[]> => {
+		if (found >= maxSongs) {
+			truncated = true;
+			return [];
+		}
+		const { folders, songs } = await fetchDirectory(folderId);
+		found += songs.length;
+		const nested = await Promise.all(folders.map((folder) => walk(folder.id)));
+		return [...songs, ...nested.flat()];
+	};
 
-	return data["subsonic-response"].songsByGenre?.song ?? [];
+	const songs = await walk(id);
+	return {
+		songs: songs.slice(0, maxSongs),
+		truncated: truncated || songs.length > maxSongs,
+	};
 }
 
 // ============================================================================
@@ -493,40 +720,28 @@ export interface PlaylistWithSongs extends Playlist {
 	entry?: Song[];
 }
 
-export async function getPlaylists(): Promise<Playlist[]> {
-	const url = await buildApiUrl("getPlaylists");
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
+export async function getPlaylists(
+	options?: RequestOptions,
+): Promise<Playlist[]> {
+	const data = await subsonicRequest<{
 		playlists?: { playlist?: Playlist[] };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch playlists",
-		);
-	}
-
-	return data["subsonic-response"].playlists?.playlist ?? [];
+	}>("getPlaylists", undefined, options);
+	return data.playlists?.playlist ?? [];
 }
 
-export async function getPlaylist(id: string): Promise<PlaylistWithSongs> {
-	const url = await buildApiUrl("getPlaylist", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		playlist?: PlaylistWithSongs;
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch playlist",
-		);
-	}
+export async function getPlaylist(
+	id: string,
+	options?: RequestOptions,
+): Promise<PlaylistWithSongs> {
+	const data = await subsonicRequest<{ playlist?: PlaylistWithSongs }>(
+		"getPlaylist",
+		{ id },
+		options,
+	);
 
-	const playlist = data["subsonic-response"].playlist;
+	const playlist = data.playlist;
 	if (!playlist) {
-		throw new Error("Playlist not found");
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Playlist not found");
 	}
 
 	return playlist;
@@ -536,31 +751,13 @@ export async function createPlaylist(options: {
 	name: string;
 	songId?: string[];
 }): Promise<PlaylistWithSongs> {
-	const params: Record<string, string> = { name: options.name };
-
-	const url = await buildApiUrl("createPlaylist", params);
-
-	// Add song IDs as multiple parameters
-	const urlObj = new URL(url);
-	if (options.songId) {
-		for (const id of options.songId) {
-			urlObj.searchParams.append("songId", id);
-		}
-	}
-
-	const response = await fetch(urlObj.toString());
-	const data: SubsonicResponse<{
-		playlist?: PlaylistWithSongs;
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to create playlist",
-		);
-	}
+	const data = await subsonicRequest<{ playlist?: PlaylistWithSongs }>(
+		"createPlaylist",
+		{ name: options.name, songId: options.songId },
+	);
 
 	return (
-		data["subsonic-response"].playlist ?? {
+		data.playlist ?? {
 			id: "",
 			name: options.name,
 			songCount: 0,
@@ -577,47 +774,20 @@ export async function updatePlaylist(options: {
 	songIdToAdd?: string[];
 	songIndexToRemove?: number[];
 }): Promise<void> {
-	const params: Record<string, string> = { playlistId: options.playlistId };
+	const params: SubsonicParams = {
+		playlistId: options.playlistId,
+		comment: options.comment,
+		public: options.public,
+		songIdToAdd: options.songIdToAdd,
+		songIndexToRemove: options.songIndexToRemove,
+	};
 	if (options.name) params.name = options.name;
-	if (options.comment !== undefined) params.comment = options.comment;
-	if (options.public !== undefined) params.public = options.public.toString();
-
-	const url = await buildApiUrl("updatePlaylist", params);
-
-	// Add arrays as multiple parameters
-	const urlObj = new URL(url);
-	if (options.songIdToAdd) {
-		for (const id of options.songIdToAdd) {
-			urlObj.searchParams.append("songIdToAdd", id);
-		}
-	}
-	if (options.songIndexToRemove) {
-		for (const idx of options.songIndexToRemove) {
-			urlObj.searchParams.append("songIndexToRemove", idx.toString());
-		}
-	}
-
-	const response = await fetch(urlObj.toString());
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to update playlist",
-		);
-	}
+	await subsonicRequest("updatePlaylist", params);
 }
 
 export async function deletePlaylist(id: string): Promise<void> {
-	const url = await buildApiUrl("deletePlaylist", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to delete playlist",
-		);
-	}
+	await subsonicRequest("deletePlaylist", { id });
 }
 
 // ============================================================================
@@ -633,19 +803,18 @@ export interface PlayQueue {
 	changedBy?: string;
 }
 
-export async function getPlayQueue(): Promise<PlayQueue | null> {
-	const url = await buildApiUrl("getPlayQueue");
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		playQueue?: PlayQueue;
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return null;
-	}
-
-	return data["subsonic-response"].playQueue ?? null;
+export async function getPlayQueue(
+	options?: RequestOptions,
+): Promise<PlayQueue | null> {
+	const data = await orIfNotFound(
+		subsonicRequest<{ playQueue?: PlayQueue }>(
+			"getPlayQueue",
+			undefined,
+			options,
+		),
+		null,
+	);
+	return data?.playQueue ?? null;
 }
 
 export async function savePlayQueue(options: {
@@ -653,50 +822,30 @@ export async function savePlayQueue(options: {
 	current?: string; // ID of the currently playing song
 	position?: number; // Position in milliseconds
 }): Promise<void> {
-	const params: Record<string, string> = {};
-	if (options.current) params.current = options.current;
-	if (options.position !== undefined)
-		params.position = options.position.toString();
-
-	const url = await buildApiUrl("savePlayQueue", params);
-
-	// Add song IDs as multiple parameters
-	const urlObj = new URL(url);
-	for (const id of options.id) {
-		urlObj.searchParams.append("id", id);
-	}
-
-	const response = await fetch(urlObj.toString());
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to save play queue",
-		);
-	}
+	await subsonicRequest("savePlayQueue", {
+		id: options.id,
+		current: options.current || undefined,
+		position: options.position,
+	});
 }
 
 // ============================================================================
 // Single Song / Top Songs
 // ============================================================================
 
-export async function getSong(id: string): Promise<Song> {
-	const url = await buildApiUrl("getSong", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		song?: Song;
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch song",
-		);
-	}
+export async function getSong(
+	id: string,
+	options?: RequestOptions,
+): Promise<Song> {
+	const data = await subsonicRequest<{ song?: Song }>(
+		"getSong",
+		{ id },
+		options,
+	);
 
-	const song = data["subsonic-response"].song;
+	const song = data.song;
 	if (!song) {
-		throw new Error("Song not found");
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Song not found");
 	}
 
 	return song;
@@ -705,63 +854,44 @@ export async function getSong(id: string): Promise<Song> {
 export async function getTopSongs(
 	artistName: string,
 	count = 50,
+	options?: RequestOptions,
 ): Promise<Song[]> {
-	const url = await buildApiUrl("getTopSongs", {
-		artist: artistName,
-		count: count.toString(),
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		topSongs?: { song?: Song[] };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
-
-	return data["subsonic-response"].topSongs?.song ?? [];
+	const data = await orIfNotFound(
+		subsonicRequest<{ topSongs?: { song?: Song[] } }>(
+			"getTopSongs",
+			{ artist: artistName, count },
+			options,
+		),
+		null,
+	);
+	return data?.topSongs?.song ?? [];
 }
 
-export async function getSimilarSongs(id: string, count = 50): Promise<Song[]> {
-	const url = await buildApiUrl("getSimilarSongs", {
-		id,
-		count: count.toString(),
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		similarSongs?: { song?: Song[] };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
-
-	return data["subsonic-response"].similarSongs?.song ?? [];
+export async function getSimilarSongs(
+	id: string,
+	count = 50,
+	options?: RequestOptions,
+): Promise<Song[]> {
+	const data = await orIfNotFound(
+		subsonicRequest<{ similarSongs?: { song?: Song[] } }>(
+			"getSimilarSongs",
+			{ id, count },
+			options,
+		),
+		null,
+	);
+	return data?.similarSongs?.song ?? [];
 }
 
 // ============================================================================
 // Ratings
 // ============================================================================
 
-export async function setRating(
-	id: string,
-	rating: 0 | 1 | 2 | 3 | 4 | 5,
-): Promise<void> {
-	const url = await buildApiUrl("setRating", {
-		id,
-		rating: rating.toString(),
-	});
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<Record<string, never>> = await response.json();
+// 1-5 stars, or 0 to remove the rating
+export type Rating = 0 | 1 | 2 | 3 | 4 | 5;
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to set rating",
-		);
-	}
+export async function setRating(id: string, rating: Rating): Promise<void> {
+	await subsonicRequest("setRating", { id, rating });
 }
 
 // ============================================================================
@@ -775,19 +905,13 @@ export interface NowPlayingEntry extends Song {
 	playerName?: string;
 }
 
-export async function getNowPlaying(): Promise<NowPlayingEntry[]> {
-	const url = await buildApiUrl("getNowPlaying");
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
+export async function getNowPlaying(
+	options?: RequestOptions,
+): Promise<NowPlayingEntry[]> {
+	const data = await subsonicRequest<{
 		nowPlaying?: { entry?: NowPlayingEntry[] };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
-
-	return data["subsonic-response"].nowPlaying?.entry ?? [];
+	}>("getNowPlaying", undefined, options);
+	return data.nowPlaying?.entry ?? [];
 }
 
 // ============================================================================
@@ -808,19 +932,15 @@ export interface StructuredLyrics {
 
 export async function getLyricsBySongId(
 	id: string,
+	options?: RequestOptions,
 ): Promise<StructuredLyrics[]> {
-	const url = await buildApiUrl("getLyricsBySongId", { id });
-
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		lyricsList?: { structuredLyrics?: StructuredLyrics[] };
-	}> = await response.json();
-
-	if (data["subsonic-response"].status !== "ok") {
-		return [];
-	}
-
-	return data["subsonic-response"].lyricsList?.structuredLyrics ?? [];
+	const data = await orIfNotFound(
+		subsonicRequest<{
+			lyricsList?: { structuredLyrics?: StructuredLyrics[] };
+		}>("getLyricsBySongId", { id }, options),
+		null,
+	);
+	return data?.lyricsList?.structuredLyrics ?? [];
 }
 
 // ============================================================================
@@ -842,50 +962,382 @@ export interface ScanStatus {
 	lastScan?: string;
 }
 
-export async function getScanStatus(): Promise<ScanStatus> {
-	const url = await buildApiUrl("getScanStatus");
+export async function getScanStatus(
+	options?: RequestOptions,
+): Promise<ScanStatus> {
+	const data = await subsonicRequest<{ scanStatus?: ScanStatus }>(
+		"getScanStatus",
+		undefined,
+		options,
+	);
+	return data.scanStatus ?? { scanning: false };
+}
 
-	const response = await fetch(url);
-	const data: SubsonicResponse<{
-		scanStatus?: ScanStatus;
-	}> = await response.json();
+// Ask the server to rescan its music folders. Returns the status right after
+// the scan starts.
+export async function startScan(): Promise<ScanStatus> {
+	const data = await subsonicRequest<{ scanStatus?: ScanStatus }>("startScan");
+	return data.scanStatus ?? { scanning: true };
+}
 
-	if (data["subsonic-response"].status !== "ok") {
-		throw new Error(
-			data["subsonic-response"].error?.message || "Failed to fetch scan status",
-		);
-	}
+// ============================================================================
+// Internet Radio
+// ============================================================================
 
-	return data["subsonic-response"].scanStatus ?? { scanning: false };
+export interface RadioStation {
+	id: string;
+	name: string;
+	streamUrl: string;
+	homePageUrl?: string;
+}
+
+export async function getInternetRadioStations(
+	options?: RequestOptions,
+): Promise<RadioStation[]> {
+	const data = await subsonicRequest<{
+		internetRadioStations?: { internetRadioStation?: RadioStation[] };
+	}>("getInternetRadioStations", undefined, options);
+	return (data.internetRadioStations?.internetRadioStation ?? []).map(
+		(station) => ({ ...station, id: String(station.id) }),
+	);
+}
+
+export async function createInternetRadioStation(options: {
+	name: string;
+	streamUrl: string;
+	homepageUrl?: string;
+}): Promise<void> {
+	await subsonicRequest("createInternetRadioStation", {
+		name: options.name,
+		streamUrl: options.streamUrl,
+		homepageUrl: options.homepageUrl || undefined,
+	});
+}
+
+export async function updateInternetRadioStation(options: {
+	id: string;
+	name: string;
+	streamUrl: string;
+	homepageUrl?: string;
+}): Promise<void> {
+	await subsonicRequest("updateInternetRadioStation", {
+		id: options.id,
+		name: options.name,
+		streamUrl: options.streamUrl,
+		homepageUrl: options.homepageUrl || undefined,
+	});
+}
+
+export async function deleteInternetRadioStation(id: string): Promise<void> {
+	await subsonicRequest("deleteInternetRadioStation", { id });
 }
 
 // ============================================================================
-// Library Statistics (computed from genres)
+// Users
 // ============================================================================
 
-export interface LibraryStats {
-	albumCount: number;
-	songCount: number;
-	artistCount: number;
+export interface User {
+	username: string;
+	email?: string;
+	scrobblingEnabled?: boolean;
+	adminRole: boolean;
+	settingsRole?: boolean;
+	downloadRole?: boolean;
+	uploadRole?: boolean;
+	playlistRole?: boolean;
+	coverArtRole?: boolean;
+	commentRole?: boolean;
+	podcastRole?: boolean;
+	streamRole?: boolean;
+	jukeboxRole?: boolean;
+	shareRole?: boolean;
+	folder?: number[]; // Music folders the user can access
+}
+
+export async function getUser(
+	username: string,
+	options?: RequestOptions,
+): Promise<User> {
+	const data = await subsonicRequest<{ user?: User }>(
+		"getUser",
+		{ username },
+		options,
+	);
+
+	const user = data.user;
+	if (!user) {
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "User not found");
+	}
+
+	return user;
 }
 
-export async function getLibraryStats(): Promise<LibraryStats> {
-	// Fetch genres to get accurate song and album counts
-	const genres = await getGenres();
+export async function getUsers(options?: RequestOptions): Promise<User[]> {
+	const data = await subsonicRequest<{ users?: { user?: User[] } }>(
+		"getUsers",
+		undefined,
+		options,
+	);
+	return data.users?.user ?? [];
+}
+
+// Boolean permissions an admin can grant
+export type UserRole = Extract<keyof User, `${string}Role`>;
+
+export type UserRoles = Partial<Record<UserRole, boolean>>;
+
+// Passwords are hex encoded so they don't appear as plain text in URLs
+function encodePassword(password: string): string {
+	return `enc:${hexEncode(password)}`;
+}
 
-	// Sum up song counts from all genres
-	const songCount = genres.reduce((acc, genre) => acc + genre.songCount, 0);
+export async function createUser(
+	options: {
+		username: string;
+		password: string;
+		email: string;
+	} & UserRoles,
+): Promise<void> {
+	const { password, ...rest } = options;
+	await subsonicRequest("createUser", {
+		...rest,
+		password: encodePassword(password),
+	});
+}
 
-	// Sum up album counts from all genres (note: albums can have multiple genres, so this may overcount)
-	// For a more accurate album count, we'll fetch all albums
-	const albumCount = genres.reduce((acc, genre) => acc + genre.albumCount, 0);
+// Only the fields given are changed
+export async function updateUser(
+	options: { username: string; email?: string } & UserRoles,
+): Promise<void> {
+	await subsonicRequest("updateUser", options);
+}
 
-	// Fetch artists for accurate count
-	const artists = await getArtists();
+export async function deleteUser(username: string): Promise<void> {
+	await subsonicRequest("deleteUser", { username });
+}
 
+// Users can change their own password; admins can change anyone's
+export async function changePassword(
+	username: string,
+	password: string,
+): Promise<void> {
+	await subsonicRequest("changePassword", {
+		username,
+		password: encodePassword(password),
+	});
+}
+
+// ============================================================================
+// Podcasts
+// ============================================================================
+
+export type PodcastStatus =
+	| "new"
+	| "downloading"
+	| "completed"
+	| "error"
+	| "deleted"
+	| "skipped";
+
+export interface PodcastEpisode {
+	id: string;
+	streamId?: string; // Media file ID, only set once downloaded
+	channelId: string;
+	title: string;
+	description?: string;
+	publishDate?: string;
+	status: PodcastStatus;
+	coverArt?: string;
+	duration?: number;
+	size?: number;
+	contentType?: string;
+	suffix?: string;
+}
+
+export interface PodcastChannel {
+	id: string;
+	url: string;
+	title?: string;
+	description?: string;
+	coverArt?: string;
+	originalImageUrl?: string;
+	status: PodcastStatus;
+	errorMessage?: string;
+	episode?: PodcastEpisode[];
+}
+
+// Episodes play through the regular player, streamed by their media file ID.
+// Null until the episode is downloaded and has one.
+export function episodeToSong(
+	episode: PodcastEpisode,
+	channel?: PodcastChannel,
+): Song | null {
+	if (!episode.streamId) return null;
 	return {
-		albumCount,
-		songCount,
-		artistCount: artists.length,
+		id: episode.streamId,
+		title: episode.title,
+		artist: channel?.title,
+		album: channel?.title,
+		coverArt: episode.coverArt ?? channel?.coverArt,
+		duration: episode.duration,
+		size: episode.size,
+		contentType: episode.contentType,
+		suffix: episode.suffix,
+		year: episode.publishDate
+			? new Date(episode.publishDate).getFullYear()
+			: undefined,
+		type: "podcast",
 	};
 }
+
+export async function getPodcasts(
+	options?: RequestOptions,
+): Promise<PodcastChannel[]> {
+	const data = await subsonicRequest<{
+		podcasts?: { channel?: PodcastChannel[] };
+	}>("getPodcasts", { includeEpisodes: false }, options);
+	return data.podcasts?.channel ?? [];
+}
+
+export async function getPodcastChannel(
+	id: string,
+	options?: RequestOptions,
+): Promise<PodcastChannel> {
+	const data = await subsonicRequest<{
+		podcasts?: { channel?: PodcastChannel[] };
+	}>("getPodcasts", { id, includeEpisodes: true }, options);
+
+	const channel = data.podcasts?.channel?.[0];
+	if (!channel) {
+		throw new SubsonicError(SubsonicErrorCode.NotFound, "Podcast not found");
+	}
+
+	return channel;
+}
+
+export async function getNewestPodcasts(
+	count = 20,
+	options?: RequestOptions,
+): Promise<PodcastEpisode[]> {
+	const data = await subsonicRequest<{
+		newestPodcasts?: { episode?: PodcastEpisode[] };
+	}>("getNewestPodcasts", { count }, options);
+	return data.newestPodcasts?.episode ?? [];
+}
+
+export async function createPodcastChannel(url: string): Promise<void> {
+	await subsonicRequest("createPodcastChannel", { url });
+}
+
+export async function refreshPodcasts(): Promise<void> {
+	await subsonicRequest("refreshPodcasts");
+}
+
+export async function downloadPodcastEpisode(id: string): Promise<void> {
+	await subsonicRequest("downloadPodcastEpisode", { id });
+}
+
+export async function deletePodcastEpisode(id: string): Promise<void> {
+	await subsonicRequest("deletePodcastEpisode", { id });
+}
+
+// ============================================================================
+// Bookmarks
+// ============================================================================
+
+export interface Bookmark {
+	position: number; // Position in milliseconds
+	username: string;
+	comment?: string;
+	created: string;
+	changed: string;
+	entry: Song;
+}
+
+export async function getBookmarks(
+	options?: RequestOptions,
+): Promise<Bookmark[]> {
+	const data = await subsonicRequest<{
+		bookmarks?: { bookmark?: Bookmark[] };
+	}>("getBookmarks", undefined, options);
+	return data.bookmarks?.bookmark ?? [];
+}
+
+export async function createBookmark(options: {
+	id: string;
+	position: number; // Position in milliseconds
+	comment?: string;
+}): Promise<void> {
+	await subsonicRequest("createBookmark", {
+		id: options.id,
+		position: options.position,
+		comment: options.comment,
+	});
+}
+
+export async function deleteBookmark(id: string): Promise<void> {
+	await subsonicRequest("deleteBookmark", { id });
+}
+
+// ============================================================================
+// Shares
+// ============================================================================
+
+export interface Share {
+	id: string;
+	url: string;
+	description?: string;
+	username: string;
+	created: string;
+	expires?: string;
+	lastVisited?: string;
+	visitCount: number;
+	entry?: Song[];
+}
+
+export async function getShares(options?: RequestOptions): Promise<Share[]> {
+	const data = await subsonicRequest<{ shares?: { share?: Share[] } }>(
+		"getShares",
+		undefined,
+		options,
+	);
+	return data.shares?.share ?? [];
+}
+
+export async function createShare(options: {
+	id: string[]; // Songs, albums or playlists to share
+	description?: string;
+	expires?: number; // Milliseconds since the epoch
+}): Promise<Share> {
+	const data = await subsonicRequest<{ shares?: { share?: Share[] } }>(
+		"createShare",
+		{
+			id: options.id,
+			description: options.description || undefined,
+			expires: options.expires,
+		},
+	);
+
+	const share = data.shares?.share?.[0];
+	if (!share) {
+		throw new Error("Server did not return the new share");
+	}
+
+	return share;
+}
+
+export async function updateShare(options: {
+	id: string;
+	description?: string;
+	expires?: number; // Milliseconds since the epoch, 0 to never expire
+}): Promise<void> {
+	await subsonicRequest("updateShare", {
+		id: options.id,
+		description: options.description,
+		expires: options.expires,
+	});
+}
+
+export async function deleteShare(id: string): Promise<void> {
+	await subsonicRequest("deleteShare", { id });
+}
@@ -12,6 +12,7 @@ export interface AudioBackendEvents {
 	onCanPlay: () => void;
 	onError: (error: Error) => void;
 	onFallback: (shouldFallback: boolean) => void;
+	onStreamTitle: (title: string | null) => void; // Live stream metadata (MPV only)
 }
 
 export interface AudioBackend {
@@ -260,6 +261,11 @@ export class MpvAudioBackend implements AudioBackend {
 		});
 		this.cleanupFns.push(cleanupFallback);
 
+		const cleanupStreamTitle = mpv.onStreamTitle((title) => {
+			this.handlers?.onStreamTitle(title || null);
+		});
+		this.cleanupFns.push(cleanupStreamTitle);
+
 		// MPRIS control event listeners
 		if (mpv.onMprisPlayPause) {
 			const cleanupMprisPlayPause = mpv.onMprisPlayPause(() => {
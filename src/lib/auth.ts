@@ -1,34 +1,141 @@
 import { useSyncExternalStore } from "react";
+import { toast } from "sonner";
+
+// How requests are authenticated:
+// - token: salted MD5 token (default Subsonic auth)
+// - apiKey: OpenSubsonic apiKeyAuthentication extension
+// - password: hex-encoded password, for LDAP or proxy-backed servers
+export type AuthMethod = "token" | "apiKey" | "password";
+
+// How the desktop app reaches the server. Ignored on the web build.
+export interface ConnectionOptions {
+	// Send requests through the main process, so the server needs no CORS
+	// headers. The options below only apply when this is on.
+	useProxy?: boolean;
+	// Added to every request, e.g. reverse proxy basic auth or Cloudflare
+	// Access service tokens
+	headers?: Record<string, string>;
+	// Self-signed certificate to accept, as "sha256/<base64>"
+	certificateFingerprint?: string;
+}
 
 export interface SubsonicCredentials {
 	serverUrl: string;
 	username: string;
 	password: string;
+	// Missing on profiles saved before auth methods existed, which used tokens
+	authMethod?: AuthMethod;
+	apiKey?: string;
+	connection?: ConnectionOptions;
 }
 
+// A saved server the user can switch between without re-entering credentials
+export interface ServerProfile extends SubsonicCredentials {
+	id: string;
+	name: string;
+	// When false the password is kept in memory only and asked for again
+	// after a restart. Defaults to true.
+	rememberPassword?: boolean;
+}
+
+type CredentialStorage = NonNullable<
+	NonNullable<Window["electronAPI"]>["credentials"]
+>;
+
 interface AuthState {
-	credentials: SubsonicCredentials | null;
+	profiles: ServerProfile[];
+	activeProfileId: string | null;
+	credentials: ServerProfile | null;
 	isAuthenticated: boolean;
 }
 
-const AUTH_STORAGE_KEY = "slothsonic-auth";
+interface StoredProfiles {
+	profiles: ServerProfile[];
+	activeProfileId: string | null;
+}
+
+const PROFILES_STORAGE_KEY = "slothsonic-profiles";
+// Single-credentials key used before profiles existed
+const LEGACY_AUTH_STORAGE_KEY = "slothsonic-auth";
+
+// Set by initializeAuth() when the desktop app can encrypt secrets; passwords
+// then never touch localStorage
+let secureStorage: CredentialStorage | null = null;
+
+function normalizeServerUrl(serverUrl: string): string {
+	// Remove trailing slash
+	return serverUrl.replace(/\/+$/, "");
+}
+
+function generateProfileId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getDefaultProfileName(serverUrl: string): string {
+	try {
+		return new URL(serverUrl).host;
+	} catch {
+		return serverUrl.replace(/https?:\/\//, "");
+	}
+}
+
+// Move credentials saved by older versions into a profile
+function migrateLegacyCredentials(): StoredProfiles | null {
+	try {
+		const legacy = localStorage.getItem(LEGACY_AUTH_STORAGE_KEY);
+		if (!legacy) return null;
+
+		const credentials: SubsonicCredentials = JSON.parse(legacy);
+		const profile: ServerProfile = {
+			...credentials,
+			id: generateProfileId(),
+			name: getDefaultProfileName(credentials.serverUrl),
+		};
+		const migrated = { profiles: [profile], activeProfileId: profile.id };
+		localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(migrated));
+		localStorage.removeItem(LEGACY_AUTH_STORAGE_KEY);
+		return migrated;
+	} catch {
+		// Invalid stored data
+		return null;
+	}
+}
 
-function getStoredCredentials(): SubsonicCredentials | null {
+function getStoredProfiles(): StoredProfiles {
 	try {
-		const stored = localStorage.getItem(AUTH_STORAGE_KEY);
+		const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
 		if (stored) {
-			return JSON.parse(stored);
+			const parsed: StoredProfiles = JSON.parse(stored);
+			return {
+				profiles: parsed.profiles ?? [],
+				activeProfileId: parsed.activeProfileId ?? null,
+			};
 		}
 	} catch {
 		// Invalid stored data
 	}
-	return null;
+	return migrateLegacyCredentials() ?? { profiles: [], activeProfileId: null };
 }
 
-let authState: AuthState = {
-	credentials: getStoredCredentials(),
-	isAuthenticated: getStoredCredentials() !== null,
-};
+// Whether the profile's password or API key is loaded
+export function hasSecret(profile: SubsonicCredentials): boolean {
+	return !!(profile.password || profile.apiKey);
+}
+
+function createAuthState(stored: StoredProfiles): AuthState {
+	const active =
+		stored.profiles.find((p) => p.id === stored.activeProfileId) ?? null;
+	// A profile whose password wasn't remembered needs signing in again
+	const credentials = active && hasSecret(active) ? active : null;
+	return {
+		profiles: stored.profiles,
+		activeProfileId: active?.id ?? null,
+		credentials,
+		isAuthenticated: credentials !== null,
+	};
+}
+
+let authState: AuthState = createAuthState(getStoredProfiles());
 
 const listeners = new Set<() => void>();
 
@@ -38,34 +145,250 @@ function emitChange() {
 	}
 }
 
-export function login(credentials: SubsonicCredentials) {
-	// Normalize server URL (remove trailing slash)
-	const normalizedCredentials = {
+// Custom headers often carry tokens, so they're kept with the password
+function hasCustomHeaders(profile: SubsonicCredentials): boolean {
+	return Object.keys(profile.connection?.headers ?? {}).length > 0;
+}
+
+function stripSecrets(profile: ServerProfile): ServerProfile {
+	const stripped = { ...profile, password: "", apiKey: undefined };
+	if (secureStorage && profile.connection) {
+		stripped.connection = { ...profile.connection, headers: undefined };
+	}
+	return stripped;
+}
+
+function setStoredProfiles(stored: StoredProfiles) {
+	// Secrets only go to localStorage on the web build, and only if the user
+	// asked us to remember them
+	const profiles = stored.profiles.map((p) =>
+		secureStorage || p.rememberPassword === false ? stripSecrets(p) : p,
+	);
+	localStorage.setItem(
+		PROFILES_STORAGE_KEY,
+		JSON.stringify({ ...stored, profiles }),
+	);
+	authState = createAuthState(stored);
+	emitChange();
+}
+
+// Save or forget a profile's secrets in encrypted storage (desktop only).
+// Custom headers are kept even when the password isn't remembered.
+async function storeSecrets(profile: ServerProfile): Promise<boolean> {
+	if (!secureStorage) return false;
+	const rememberPassword =
+		profile.rememberPassword !== false && hasSecret(profile);
+	try {
+		if (!rememberPassword && !hasCustomHeaders(profile)) {
+			await secureStorage.delete(profile.id);
+			return true;
+		}
+		return await secureStorage.set(
+			profile.id,
+			JSON.stringify({
+				...(rememberPassword && {
+					password: profile.password,
+					apiKey: profile.apiKey,
+				}),
+				headers: profile.connection?.headers,
+			}),
+		);
+	} catch (error) {
+		console.error("Failed to store credentials:", error);
+		return false;
+	}
+}
+
+// Secrets are left out of localStorage once encrypted storage is in use, so a
+// failed save means they only last until the app restarts
+async function persistSecrets(profile: ServerProfile): Promise<boolean> {
+	if (!secureStorage) return true;
+	const saved = await storeSecrets(profile);
+	if (!saved) {
+		toast.error("Failed to save credentials securely", {
+			description: "You'll need to sign in again after restarting the app",
+		});
+	}
+	return saved;
+}
+
+async function loadSecrets(profile: ServerProfile): Promise<ServerProfile> {
+	if (!secureStorage) return profile;
+	try {
+		const secret = await secureStorage.get(profile.id);
+		if (!secret) return profile;
+		const { password, apiKey, headers } = JSON.parse(secret);
+		return {
+			...profile,
+			password: password ?? profile.password,
+			apiKey: apiKey ?? profile.apiKey,
+			connection: headers
+				? { ...profile.connection, headers }
+				: profile.connection,
+		};
+	} catch (error) {
+		console.error("Failed to load credentials:", error);
+		return profile;
+	}
+}
+
+/**
+ * Load saved secrets from the desktop app's encrypted storage. Call once
+ * before rendering.
+ *
+ * Passwords saved in plain text by older versions are moved into encrypted
+ * storage and removed from localStorage. On the web build this does nothing.
+ */
+export async function initializeAuth(): Promise<void> {
+	const storage = window.electronAPI?.credentials;
+	if (!storage) return;
+
+	const available = await storage.isAvailable().catch(() => false);
+	if (!available) return;
+	secureStorage = storage;
+
+	// Migrate plain text secrets first; if that fails keep them where they are
+	for (const profile of authState.profiles) {
+		const hasPlainSecrets =
+			(hasSecret(profile) && profile.rememberPassword !== false) ||
+			hasCustomHeaders(profile);
+		if (hasPlainSecrets && !(await storeSecrets(profile))) {
+			secureStorage = null;
+			return;
+		}
+	}
+
+	const profiles = await Promise.all(authState.profiles.map(loadSecrets));
+	setStoredProfiles({ profiles, activeProfileId: authState.activeProfileId });
+}
+
+// Add or update a profile, reusing an existing one for the same server and
+// username. Returns the profile ID without activating it.
+export async function saveProfile(
+	credentials: SubsonicCredentials,
+	options: { name?: string; rememberPassword?: boolean } = {},
+): Promise<string> {
+	const { name, rememberPassword } = options;
+	const serverUrl = normalizeServerUrl(credentials.serverUrl);
+	const existing = authState.profiles.find(
+		(p) => p.serverUrl === serverUrl && p.username === credentials.username,
+	);
+
+	const profile: ServerProfile = {
+		...existing,
 		...credentials,
-		serverUrl: credentials.serverUrl.replace(/\/+$/, ""),
+		serverUrl,
+		id: existing?.id ?? generateProfileId(),
+		rememberPassword: rememberPassword ?? existing?.rememberPassword,
+		name:
+			name?.trim() ||
+			existing?.name ||
+			getDefaultProfileName(credentials.serverUrl),
 	};
 
-	localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(normalizedCredentials));
-	authState = {
-		credentials: normalizedCredentials,
-		isAuthenticated: true,
+	const profiles = existing
+		? authState.profiles.map((p) => (p.id === profile.id ? profile : p))
+		: [...authState.profiles, profile];
+
+	setStoredProfiles({ profiles, activeProfileId: authState.activeProfileId });
+	await persistSecrets(profile);
+	return profile.id;
+}
+
+// Replace the credentials of an existing profile, e.g. after a password change
+export async function updateProfileCredentials(
+	profileId: string,
+	credentials: SubsonicCredentials,
+): Promise<void> {
+	const existing = authState.profiles.find((p) => p.id === profileId);
+	if (!existing) return;
+
+	const profile: ServerProfile = {
+		...existing,
+		...credentials,
+		serverUrl: normalizeServerUrl(credentials.serverUrl),
 	};
-	emitChange();
+	setStoredProfiles({
+		profiles: authState.profiles.map((p) => (p.id === profileId ? profile : p)),
+		activeProfileId: authState.activeProfileId,
+	});
+	await persistSecrets(profile);
+}
+
+// Remember the new password after changing it on the server, so requests keep
+// working. Profiles signed in with an API key aren't affected.
+export async function updateActivePassword(password: string): Promise<void> {
+	const active = authState.credentials;
+	if (!active || active.authMethod === "apiKey") return;
+	await updateProfileCredentials(active.id, { ...active, password });
+}
+
+// Change how the desktop app connects to a profile's server
+export async function updateProfileConnection(
+	profileId: string,
+	connection: ConnectionOptions,
+): Promise<void> {
+	const existing = authState.profiles.find((p) => p.id === profileId);
+	if (!existing) return;
+	await updateProfileCredentials(profileId, { ...existing, connection });
+}
+
+export async function login(
+	credentials: SubsonicCredentials,
+	options?: { name?: string; rememberPassword?: boolean },
+): Promise<void> {
+	switchProfile(await saveProfile(credentials, options));
 }
 
+// Sign out of the active profile. The profile stays saved for quick reconnect.
 export function logout() {
-	localStorage.removeItem(AUTH_STORAGE_KEY);
-	authState = {
-		credentials: null,
-		isAuthenticated: false,
-	};
-	emitChange();
+	setStoredProfiles({ profiles: authState.profiles, activeProfileId: null });
 }
 
-export function getCredentials(): SubsonicCredentials | null {
+export function switchProfile(profileId: string) {
+	if (!authState.profiles.some((p) => p.id === profileId)) return;
+	setStoredProfiles({
+		profiles: authState.profiles,
+		activeProfileId: profileId,
+	});
+}
+
+export function renameProfile(profileId: string, name: string) {
+	const trimmed = name.trim();
+	if (!trimmed) return;
+	setStoredProfiles({
+		profiles: authState.profiles.map((p) =>
+			p.id === profileId ? { ...p, name: trimmed } : p,
+		),
+		activeProfileId: authState.activeProfileId,
+	});
+}
+
+export function removeProfile(profileId: string) {
+	secureStorage?.delete(profileId).catch((error) => {
+		console.error("Failed to delete credentials:", error);
+	});
+	setStoredProfiles({
+		profiles: authState.profiles.filter((p) => p.id !== profileId),
+		activeProfileId:
+			authState.activeProfileId === profileId
+				? null
+				: authState.activeProfileId,
+	});
+}
+
+export function getCredentials(): ServerProfile | null {
 	return authState.credentials;
 }
 
+export function getActiveProfileId(): string | null {
+	return authState.activeProfileId;
+}
+
+export function getProfiles(): ServerProfile[] {
+	return authState.profiles;
+}
+
 export function isAuthenticated(): boolean {
 	return authState.isAuthenticated;
 }
@@ -84,7 +407,13 @@ export function useAuth() {
 	return {
 		credentials: state.credentials,
 		isAuthenticated: state.isAuthenticated,
+		profiles: state.profiles,
+		activeProfileId: state.activeProfileId,
 		login,
 		logout,
+		saveProfile,
+		switchProfile,
+		renameProfile,
+		removeProfile,
 	};
 }
@@ -0,0 +1,119 @@
+import { toast } from "sonner";
+import { createBookmark, deleteBookmark, getBookmarks, type Song } from "./api";
+import { formatDuration } from "./format";
+import { getSettings } from "./settings";
+
+// Seconds of playback between bookmark saves
+const SAVE_INTERVAL = 30;
+// Tracks this close to the end count as finished and lose their bookmark
+const FINISHED_MARGIN = 30;
+// Positions before this aren't worth resuming from
+const MIN_RESUME_POSITION = 10;
+
+// The last position sent to the server, to throttle saves
+let lastSaved: { songId: string; position: number; finished: boolean } | null =
+	null;
+
+// A bookmark being offered for resuming. It isn't overwritten until the offer
+// is answered or playback gets past it.
+let pendingResume: { songId: string; position: number } | null = null;
+
+// Long tracks such as audiobooks and mixes get bookmarks. Podcast episodes
+// keep their own progress.
+function isBookmarkable(song: Song): boolean {
+	const { autoBookmarkMinutes } = getSettings();
+	return (
+		song.type !== "podcast" && (song.duration ?? 0) >= autoBookmarkMinutes * 60
+	);
+}
+
+// Called on every time update. Saves the position every so often and removes
+// the bookmark once the track is finished.
+export function updateAutoBookmark(
+	song: Song,
+	position: number,
+	duration: number,
+) {
+	if (!getSettings().autoBookmark || !isBookmarkable(song) || duration <= 0) {
+		return;
+	}
+
+	if (pendingResume?.songId === song.id) {
+		if (position <= pendingResume.position) return;
+		pendingResume = null;
+	}
+
+	const finished = position >= duration - FINISHED_MARGIN;
+	const isSameSong = lastSaved?.songId === song.id;
+
+	if (finished) {
+		if (isSameSong && lastSaved?.finished) return;
+		lastSaved = { songId: song.id, position, finished: true };
+		deleteBookmark(song.id).catch(() => {
+			// Nothing to delete
+		});
+		return;
+	}
+
+	if (position < MIN_RESUME_POSITION) return;
+	if (
+		isSameSong &&
+		lastSaved &&
+		!lastSaved.finished &&
+		Math.abs(position - lastSaved.position) < SAVE_INTERVAL
+	) {
+		return;
+	}
+
+	lastSaved = { songId: song.id, position, finished: false };
+	createBookmark({ id: song.id, position: Math.floor(position * 1000) }).catch(
+		(err) => {
+			console.error("Failed to save bookmark:", err);
+		},
+	);
+}
+
+// Look for a saved bookmark when a long track starts and offer to jump to it
+export async function offerBookmarkResume(
+	song: Song,
+	onResume: (position: number) => void,
+) {
+	if (!isBookmarkable(song)) return;
+
+	// Hold off saving while the bookmark is looked up
+	pendingResume = { songId: song.id, position: Number.POSITIVE_INFINITY };
+	const clearPending = () => {
+		if (pendingResume?.songId === song.id) pendingResume = null;
+	};
+
+	try {
+		const bookmarks = await getBookmarks();
+		const bookmark = bookmarks.find((b) => b.entry.id === song.id);
+		const position = (bookmark?.position ?? 0) / 1000;
+		if (position < MIN_RESUME_POSITION) {
+			clearPending();
+			return;
+		}
+
+		if (pendingResume?.songId === song.id) {
+			pendingResume = { songId: song.id, position };
+		}
+		toast(`Resume "${song.title}"?`, {
+			id: `resume-${song.id}`,
+			description: `You stopped at ${formatDuration(position)}`,
+			duration: 10000,
+			action: {
+				label: "Resume",
+				onClick: () => {
+					clearPending();
+					onResume(position);
+				},
+			},
+			onDismiss: clearPending,
+			onAutoClose: clearPending,
+		});
+	} catch (err) {
+		clearPending();
+		console.error("Failed to load bookmarks:", err);
+	}
+}
@@ -0,0 +1,188 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { getCredentials, useAuth } from "./auth";
+import {
+	getOpenSubsonicExtensions,
+	type RequestOptions,
+	subsonicRequest,
+} from "./subsonic";
+
+// Optional features the UI checks before calling the matching endpoints
+export interface ServerFeatures {
+	lyrics: boolean; // getLyrics (by artist and title)
+	songLyrics: boolean; // getLyricsBySongId (OpenSubsonic)
+	artistInfo: boolean; // getArtistInfo2, similar artists
+	albumInfo: boolean; // getAlbumInfo2 (album notes)
+	similarSongs: boolean; // getSimilarSongs2
+	topSongs: boolean; // getTopSongs
+	playlistEditing: boolean; // updatePlaylist
+	ratings: boolean; // setRating
+	playQueue: boolean; // getPlayQueue / savePlayQueue
+	internetRadio: boolean; // getInternetRadioStations
+	radioEditing: boolean; // create/update/deleteInternetRadioStation
+	podcasts: boolean; // getPodcasts, getNewestPodcasts
+	sharing: boolean; // createShare, getShares
+	scanning: boolean; // getScanStatus, startScan
+}
+
+export interface ServerCapabilities {
+	openSubsonic: boolean;
+	type?: string; // Server implementation, e.g. "navidrome"
+	serverVersion?: string;
+	apiVersion: string;
+	// OpenSubsonic extension name -> supported versions
+	extensions: Record<string, number[]>;
+	features: ServerFeatures;
+}
+
+// Used until detection finishes, so features don't flicker out on load
+const ASSUME_SUPPORTED: ServerFeatures = {
+	lyrics: true,
+	songLyrics: true,
+	artistInfo: true,
+	albumInfo: true,
+	similarSongs: true,
+	topSongs: true,
+	playlistEditing: true,
+	ratings: true,
+	playQueue: true,
+	internetRadio: true,
+	radioEditing: true,
+	podcasts: true,
+	sharing: true,
+	scanning: true,
+};
+
+const CAPABILITIES_STORAGE_KEY = "slothsonic-capabilities";
+// Servers rarely change, but re-check occasionally to pick up upgrades
+const CAPABILITIES_MAX_AGE = 24 * 60 * 60 * 1000;
+
+interface CachedCapabilities {
+	capabilities: ServerCapabilities;
+	fetchedAt: number;
+}
+
+// Compare dotted version strings, returning true when version >= minimum
+function isAtLeast(version: string, minimum: string): boolean {
+	const a = version.split(".").map(Number);
+	const b = minimum.split(".").map(Number);
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		const diff = (a[i] ?? 0) - (b[i] ?? 0);
+		if (diff !== 0) return diff > 0;
+	}
+	return true;
+}
+
+function deriveFeatures(
+	apiVersion: string,
+	extensions: Record<string, number[]>,
+): ServerFeatures {
+	return {
+		lyrics: isAtLeast(apiVersion, "1.2.0"),
+		songLyrics: "songLyrics" in extensions,
+		artistInfo: isAtLeast(apiVersion, "1.11.0"),
+		albumInfo: isAtLeast(apiVersion, "1.14.0"),
+		similarSongs: isAtLeast(apiVersion, "1.11.0"),
+		topSongs: isAtLeast(apiVersion, "1.13.0"),
+		playlistEditing: isAtLeast(apiVersion, "1.8.0"),
+		ratings: isAtLeast(apiVersion, "1.6.0"),
+		playQueue: isAtLeast(apiVersion, "1.12.0"),
+		internetRadio: isAtLeast(apiVersion, "1.9.0"),
+		radioEditing: isAtLeast(apiVersion, "1.16.0"),
+		podcasts: isAtLeast(apiVersion, "1.6.0"),
+		sharing: isAtLeast(apiVersion, "1.6.0"),
+		scanning: isAtLeast(apiVersion, "1.15.0"),
+	};
+}
+
+function readCache(): Record<string, CachedCapabilities> {
+	try {
+		const stored = localStorage.getItem(CAPABILITIES_STORAGE_KEY);
+		if (stored) {
+			return JSON.parse(stored);
+		}
+	} catch {
+		// Invalid stored data
+	}
+	return {};
+}
+
+// Read once: the hook below runs in every list row
+let capabilitiesCache = readCache();
+
+function getCachedCapabilities(
+	serverUrl: string,
+): CachedCapabilities | undefined {
+	return capabilitiesCache[serverUrl];
+}
+
+function setCachedCapabilities(
+	serverUrl: string,
+	capabilities: ServerCapabilities,
+) {
+	capabilitiesCache = {
+		...capabilitiesCache,
+		[serverUrl]: { capabilities, fetchedAt: Date.now() },
+	};
+	try {
+		localStorage.setItem(
+			CAPABILITIES_STORAGE_KEY,
+			JSON.stringify(capabilitiesCache),
+		);
+	} catch {
+		// Storage full; capabilities will be fetched again next time
+	}
+}
+
+// Query the active server's version and OpenSubsonic extensions
+export async function fetchServerCapabilities(
+	options?: RequestOptions,
+): Promise<ServerCapabilities> {
+	const credentials = getCredentials();
+	if (!credentials) {
+		throw new Error("Not authenticated");
+	}
+
+	const info = await subsonicRequest("ping", undefined, options);
+
+	const extensions: Record<string, number[]> = {};
+	if (info.openSubsonic) {
+		const list = await getOpenSubsonicExtensions(credentials, options);
+		for (const ext of list ?? []) {
+			extensions[ext.name] = ext.versions;
+		}
+	}
+
+	const capabilities: ServerCapabilities = {
+		openSubsonic: !!info.openSubsonic,
+		type: info.type,
+		serverVersion: info.serverVersion,
+		apiVersion: info.version,
+		extensions,
+		features: deriveFeatures(info.version, extensions),
+	};
+
+	setCachedCapabilities(credentials.serverUrl, capabilities);
+	return capabilities;
+}
+
+export function useServerCapabilities() {
+	const { credentials } = useAuth();
+	const serverUrl = credentials?.serverUrl ?? "";
+
+	const { data, isLoading } = useQuery({
+		queryKey: ["capabilities", serverUrl],
+		queryFn: ({ signal }) => fetchServerCapabilities({ signal }),
+		enabled: !!serverUrl,
+		// Only consulted when the query is created
+		initialData: () => getCachedCapabilities(serverUrl)?.capabilities,
+		initialDataUpdatedAt: () => getCachedCapabilities(serverUrl)?.fetchedAt,
+		staleTime: CAPABILITIES_MAX_AGE,
+	});
+
+	return {
+		capabilities: data ?? null,
+		features: data?.features ?? ASSUME_SUPPORTED,
+		isLoading,
+	};
+}
@@ -0,0 +1,36 @@
+// File sizes in binary units, with a decimal from gigabytes up
+export function formatSize(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit > 2 ? 1 : 0)} ${units[unit]}`;
+}
+
+// Server-provided descriptions are HTML; only the text is shown
+export function stripHtml(html: string): string {
+	return (
+		new DOMParser().parseFromString(html, "text/html").body.textContent ?? ""
+	).trim();
+}
+
+// Biographies and album notes usually end in a "Read more on Last.fm" link,
+// which is shown separately
+export function stripLastFmHtml(html: string): string {
+	return stripHtml(html).replace(/\s*Read more on Last\.fm\.?\s*$/i, "");
+}
+
+// Track length or position as m:ss, or h:mm:ss from an hour up
+export function formatDuration(seconds: number): string {
+	const hours = Math.floor(seconds / 3600);
+	const mins = Math.floor((seconds % 3600) / 60);
+	const secs = Math.floor(seconds % 60)
+		.toString()
+		.padStart(2, "0");
+	return hours > 0
+		? `${hours}:${mins.toString().padStart(2, "0")}:${secs}`
+		: `${mins}:${secs}`;
+}
@@ -0,0 +1,231 @@
+import {
+	type Album,
+	getAlbumList,
+	getArtists,
+	getScanStatus,
+	type LibraryRequestOptions,
+	type Song,
+	searchSongs,
+} from "./api";
+import { getActiveProfileId } from "./auth";
+
+export interface StatsBucket {
+	label: string;
+	count: number;
+}
+
+export interface LibraryStats {
+	albumCount: number;
+	songCount: number;
+	artistCount: number; // Album artists
+	totalDuration: number; // Seconds
+	// Only known when the server can list every song; undefined otherwise
+	totalSize?: number; // Bytes
+	formats: StatsBucket[]; // Songs per file format, most common first
+	bitrates: StatsBucket[]; // Songs per bitrate range, lowest first
+	topGenres: StatsBucket[]; // Songs per genre, most common first
+	lastScan?: string; // Scan the numbers were computed after
+	computedAt: number;
+}
+
+const STATS_STORAGE_KEY = "slothsonic-library-stats";
+// Used when the server doesn't report when it last scanned
+const STATS_MAX_AGE = 24 * 60 * 60 * 1000;
+// The most getAlbumList2 and search3 return per request
+const PAGE_SIZE = 500;
+const TOP_GENRE_COUNT = 10;
+
+const BITRATE_RANGES = [
+	{ label: "Under 128 kbps", max: 128 },
+	{ label: "128–191 kbps", max: 192 },
+	{ label: "192–255 kbps", max: 256 },
+	{ label: "256–319 kbps", max: 320 },
+	{ label: "320–999 kbps", max: 1000 },
+	{ label: "1000 kbps and up", max: Number.POSITIVE_INFINITY },
+];
+
+function readCache(): Record<string, LibraryStats> {
+	try {
+		const stored = localStorage.getItem(STATS_STORAGE_KEY);
+		if (stored) {
+			return JSON.parse(stored);
+		}
+	} catch {
+		// Invalid stored data
+	}
+	return {};
+}
+
+// Stats differ per music folder, and per user since folder access can differ
+// between users of the same server
+function getCacheKey(profileId: string, musicFolderId?: string): string {
+	return `${profileId}|${musicFolderId ?? "all"}`;
+}
+
+function setCachedStats(key: string, stats: LibraryStats) {
+	const cache = readCache();
+	cache[key] = stats;
+	try {
+		localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify(cache));
+	} catch {
+		// Storage full; the stats will be recomputed next time
+	}
+}
+
+function isFresh(stats: LibraryStats, lastScan?: string): boolean {
+	if (lastScan && stats.lastScan) return lastScan === stats.lastScan;
+	return Date.now() - stats.computedAt < STATS_MAX_AGE;
+}
+
+// Page through a list until it runs out or reaches the expected total
+async function fetchAllPages<T extends { id: string }>(
+	fetchPage: (offset: number) => Promise<T[]>,
+	total: number,
+): Promise<T[]> {
+	const items: T[] = [];
+	const seen = new Set<string>();
+	for (let offset = 0; items.length < total; offset += PAGE_SIZE) {
+		const page = await fetchPage(offset);
+		const fresh = page.filter((item) => !seen.has(item.id));
+		// Servers that ignore the offset send the same page again
+		if (fresh.length === 0) break;
+		for (const item of fresh) {
+			seen.add(item.id);
+			items.push(item);
+		}
+		if (page.length < PAGE_SIZE) break;
+	}
+	return items.slice(0, total);
+}
+
+// Each album has at least one album artist, so their album counts add up to
+// at least the number of albums. Unknown when any count is missing.
+async function getAlbumTotal(
+	options?: LibraryRequestOptions,
+): Promise<number | undefined> {
+	const artists = await getArtists(options).catch(() => []);
+	if (
+		artists.length === 0 ||
+		artists.some((artist) => artist.albumCount === undefined)
+	) {
+		return undefined;
+	}
+	return artists.reduce((sum, artist) => sum + (artist.albumCount ?? 0), 0);
+}
+
+async function fetchAllAlbums(
+	options?: LibraryRequestOptions,
+): Promise<Album[]> {
+	const total = (await getAlbumTotal(options)) ?? Number.POSITIVE_INFINITY;
+	return fetchAllPages(
+		(offset) => getAlbumList("alphabeticalByName", PAGE_SIZE, offset, options),
+		total,
+	);
+}
+
+async function fetchAllSongs(
+	total: number,
+	options?: LibraryRequestOptions,
+): Promise<Song[]> {
+	return fetchAllPages(
+		(offset) => searchSongs("", PAGE_SIZE, offset, options),
+		total,
+	);
+}
+
+function countBy<T>(
+	items: T[],
+	getLabel: (item: T) => string | undefined,
+	getCount: (item: T) => number = () => 1,
+): StatsBucket[] {
+	const counts = new Map<string, number>();
+	for (const item of items) {
+		const label = getLabel(item);
+		if (!label) continue;
+		counts.set(label, (counts.get(label) ?? 0) + getCount(item));
+	}
+	return Array.from(counts, ([label, count]) => ({ label, count })).sort(
+		(a, b) => b.count - a.count,
+	);
+}
+
+function getBitrateRange(song: Song): string | undefined {
+	const bitRate = song.bitRate;
+	if (!bitRate) return undefined;
+	return BITRATE_RANGES.find((range) => bitRate < range.max)?.label;
+}
+
+async function computeLibraryStats(
+	lastScan: string | undefined,
+	options?: LibraryRequestOptions,
+): Promise<LibraryStats> {
+	const albums = await fetchAllAlbums(options);
+	const songCount = albums.reduce((sum, a) => sum + (a.songCount ?? 0), 0);
+
+	// Servers that can't list every song return nothing for an empty search.
+	// Song-level numbers are left out rather than guessed.
+	const songs = songCount > 0 ? await fetchAllSongs(songCount, options) : [];
+	const hasSongs = songs.length > 0;
+
+	const bitrates = countBy(songs, getBitrateRange);
+	bitrates.sort(
+		(a, b) =>
+			BITRATE_RANGES.findIndex((r) => r.label === a.label) -
+			BITRATE_RANGES.findIndex((r) => r.label === b.label),
+	);
+
+	const topGenres = hasSongs
+		? countBy(songs, (song) => song.genre)
+		: countBy(
+				albums,
+				(album) => album.genre,
+				(album) => album.songCount ?? 0,
+			);
+
+	return {
+		albumCount: albums.length,
+		songCount,
+		// Untagged albums have no artist to count
+		artistCount: new Set(albums.flatMap((a) => a.artistId ?? a.artist ?? []))
+			.size,
+		totalDuration: albums.reduce((sum, a) => sum + (a.duration ?? 0), 0),
+		totalSize: hasSongs
+			? songs.reduce((sum, song) => sum + (song.size ?? 0), 0)
+			: undefined,
+		formats: countBy(songs, (song) => song.suffix?.toUpperCase()),
+		bitrates,
+		topGenres: topGenres.slice(0, TOP_GENRE_COUNT),
+		lastScan,
+		computedAt: Date.now(),
+	};
+}
+
+/**
+ * Exact counts and totals for the library, or one music folder of it.
+ *
+ * Computing them means paging through every album and song, so results are
+ * cached per profile and only recomputed after the server rescans.
+ */
+export async function getLibraryStats(
+	options?: LibraryRequestOptions,
+): Promise<LibraryStats> {
+	const profileId = getActiveProfileId();
+	if (!profileId) {
+		throw new Error("Not authenticated");
+	}
+
+	// Older servers have no scan status; fall back to a maximum age
+	const lastScan = await getScanStatus(options)
+		.then((status) => status.lastScan)
+		.catch(() => undefined);
+
+	const key = getCacheKey(profileId, options?.musicFolderId);
+	const cached = readCache()[key];
+	if (cached && isFresh(cached, lastScan)) {
+		return cached;
+	}
+
+	const stats = await computeLibraryStats(lastScan, options);
+	setCachedStats(key, stats);
+	return stats;
+}
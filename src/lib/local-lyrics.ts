@@ -0,0 +1,53 @@
+import { useSyncExternalStore } from "react";
+import { createProfileStore } from "./profile-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalLyrics {
+	text: string; // LRC, or plain text when not synced yet
+	updatedAt: number;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+// Song ID -> lyrics added on this device
+const store = createProfileStore<LocalLyrics>(
+	"slothsonic-local-lyrics",
+	"local lyrics",
+);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function getLocalLyrics(songId: string): LocalLyrics | undefined {
+	return store.get()[songId];
+}
+
+// Store lyrics for a song, replacing any saved before
+export function setLocalLyrics(songId: string, text: string) {
+	store.set({
+		...store.get(),
+		[songId]: { text, updatedAt: Date.now() },
+	});
+}
+
+export function removeLocalLyrics(songId: string) {
+	const lyrics = { ...store.get() };
+	delete lyrics[songId];
+	store.set(lyrics);
+}
+
+export function useLocalLyrics(
+	songId: string | undefined,
+): LocalLyrics | undefined {
+	return useSyncExternalStore(
+		store.subscribe,
+		() => (songId ? store.get()[songId] : undefined),
+		() => undefined,
+	);
+}
@@ -0,0 +1,213 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+
+import type { StructuredLyrics } from "./api";
+import {
+	alignLyrics,
+	findActiveLine,
+	formatLrc,
+	formatTimestamp,
+	getLineTime,
+	getLyricsPosition,
+	getTranslations,
+	isSynced,
+	parseLrc,
+	pickLyrics,
+} from "./lyrics";
+
+describe("timing", () => {
+	const lines = [
+		{ start: 1000, value: "a" },
+		{ start: 2000, value: "b" },
+		{ start: 3000, value: "c" },
+	];
+
+	it("treats partially timed lyrics as unsynced", () => {
+		expect(isSynced({ lang: "en", synced: true, line: lines })).toBe(true);
+		expect(
+			isSynced({ lang: "en", synced: true, line: [...lines, { value: "d" }] }),
+		).toBe(false);
+		expect(isSynced({ lang: "en", synced: false, line: lines })).toBe(false);
+	});
+
+	it("finds the line being sung", () => {
+		expect(findActiveLine(lines, 999)).toBe(-1);
+		expect(findActiveLine(lines, 1000)).toBe(0);
+		expect(findActiveLine(lines, 2500)).toBe(1);
+		expect(findActiveLine(lines, 10_000)).toBe(2);
+		expect(findActiveLine([], 1000)).toBe(-1);
+	});
+
+	it("shows lines sooner for positive offsets", () => {
+		// 1.8s into the song with +250ms from the file and +0ms from the user
+		const position = getLyricsPosition(1.8, 250, 0);
+		expect(position).toBe(2050);
+		expect(findActiveLine(lines, position)).toBe(1);
+
+		// Negative offsets delay them
+		expect(findActiveLine(lines, getLyricsPosition(2.1, -250, 0))).toBe(0);
+	});
+
+	it("adds the user's offset to the file's", () => {
+		expect(getLyricsPosition(1, 200, -500)).toBe(700);
+		expect(getLyricsPosition(1, -200, 500)).toBe(1300);
+	});
+
+	it("seeks to where a line starts, undoing the offsets", () => {
+		expect(getLineTime(lines[1], 250, 250)).toBe(1.5);
+		expect(getLyricsPosition(getLineTime(lines[1], 250, 250), 250, 250)).toBe(
+			2000,
+		);
+		expect(getLineTime(lines[0], 2000, 0)).toBe(0);
+	});
+});
+
+describe("languages", () => {
+	const line = [{ start: 0, value: "x" }];
+	const plainEnglish: StructuredLyrics = { lang: "en", synced: false, line };
+	const english: StructuredLyrics = { lang: "en", synced: true, line };
+	const japanese: StructuredLyrics = { lang: "ja", synced: true, line };
+	const plainFrench: StructuredLyrics = { lang: "fr", synced: false, line };
+
+	it("prefers timed lyrics in the chosen language", () => {
+		const sets = [plainEnglish, japanese, english];
+		expect(pickLyrics(sets, "en")).toBe(english);
+		expect(pickLyrics(sets, "de")).toBe(japanese);
+		expect(pickLyrics([plainFrench], "en")).toBe(plainFrench);
+		expect(pickLyrics([], "en")).toBeUndefined();
+	});
+
+	it("offers synced sets in other languages as translations", () => {
+		const sets = [plainEnglish, english, japanese, plainFrench];
+		expect(getTranslations(sets, japanese)).toEqual([english]);
+		expect(getTranslations(sets, plainEnglish)).toEqual([]);
+	});
+});
+
+describe("alignLyrics", () => {
+	const original: StructuredLyrics = {
+		lang: "ja",
+		synced: true,
+		line: [
+			{ start: 1000, value: "一" },
+			{ start: 3000, value: "二" },
+			{ start: 6000, value: "三" },
+		],
+	};
+
+	it("pairs lines within the tolerance", () => {
+		const translation: StructuredLyrics = {
+			lang: "en",
+			synced: true,
+			line: [
+				{ start: 1200, value: "one" },
+				{ start: 2700, value: "two" },
+				{ start: 7000, value: "three" },
+			],
+		};
+
+		expect(alignLyrics(original, translation)).toEqual([
+			"one",
+			"two",
+			undefined,
+		]);
+	});
+
+	it("applies each set's own offset", () => {
+		const translation: StructuredLyrics = {
+			lang: "en",
+			synced: true,
+			offset: 1000,
+			line: [{ start: 2000, value: "one" }],
+		};
+
+		expect(alignLyrics(original, translation)[0]).toBe("one");
+	});
+});
+
+describe("parseLrc", () => {
+	it("reads ID tags and timed lines in order", () => {
+		const lyrics = parseLrc(
+			[
+				"[ti:Song]",
+				"[ar:Artist]",
+				"[la:en]",
+				"[offset:-250]",
+				"[00:05.20]Second",
+				"[00:01.50]First",
+			].join("\n"),
+		);
+
+		expect(lyrics).toEqual({
+			displayTitle: "Song",
+			displayArtist: "Artist",
+			lang: "en",
+			offset: -250,
+			synced: true,
+			line: [
+				{ start: 1500, value: "First" },
+				{ start: 5200, value: "Second" },
+			],
+		});
+	});
+
+	it("repeats lines that carry several timestamps", () => {
+		const lyrics = parseLrc("[00:01.00][00:10.00]Chorus\n[00:05.00]Verse");
+
+		expect(lyrics.line).toEqual([
+			{ start: 1000, value: "Chorus" },
+			{ start: 5000, value: "Verse" },
+			{ start: 10000, value: "Chorus" },
+		]);
+	});
+
+	it("accepts colon and millisecond fractions", () => {
+		const lyrics = parseLrc("[01:02:50]Colon\n[01:03.125]Milliseconds");
+
+		expect(lyrics.line.map((line) => line.start)).toEqual([62500, 63125]);
+	});
+
+	it("keeps section labels in plain text but not ID tags", () => {
+		const lyrics = parseLrc("[by:Someone]\n\n[Chorus]\nLa la\n\nLa\n\n");
+
+		expect(lyrics.synced).toBe(false);
+		expect(lyrics.line.map((line) => line.value)).toEqual([
+			"[Chorus]",
+			"La la",
+			"",
+			"La",
+		]);
+	});
+
+	it("drops section labels from timed lyrics", () => {
+		const lyrics = parseLrc("[Chorus]\n[00:01.00]La la");
+
+		expect(lyrics.line).toEqual([{ start: 1000, value: "La la" }]);
+	});
+});
+
+describe("formatLrc", () => {
+	it("round-trips synced lyrics", () => {
+		const text = [
+			"[ti:Song]",
+			"[ar:Artist]",
+			"[la:ja]",
+			"[offset:+200]",
+			"[00:01.50]First",
+			"[00:05.20]",
+			"[01:02.03]Last",
+		].join("\n");
+
+		expect(formatLrc(parseLrc(text))).toBe(text);
+	});
+
+	it("writes unsynced lyrics as plain text", () => {
+		expect(formatLrc(parseLrc("One\n\nTwo"))).toBe("One\n\nTwo");
+	});
+
+	it("formats timestamps as mm:ss.xx", () => {
+		expect(formatTimestamp(0)).toBe("00:00.00");
+		expect(formatTimestamp(61_234)).toBe("01:01.23");
+		expect(formatTimestamp(-50)).toBe("00:00.00");
+	});
+});
@@ -0,0 +1,343 @@
+import { useSyncExternalStore } from "react";
+import {
+	getLyrics,
+	getLyricsBySongId,
+	type RequestOptions,
+	type StructuredLyrics,
+} from "./api";
+import { createProfileStore } from "./profile-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LyricsLine = StructuredLyrics["line"][number];
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+// Lyrics from the artist/title lookup have no language or timing
+const UNKNOWN_LANGUAGE = "und";
+
+function textToLines(text: string): LyricsLine[] {
+	return text.split(/\r?\n/).map((value) => ({ value }));
+}
+
+/**
+ * All lyric sets for a song. Prefers the song's embedded lyrics when the
+ * server exposes them, falling back to the artist/title lookup, which is
+ * wrapped as unsynced sets so both render the same way.
+ */
+export async function fetchLyrics(
+	songId: string | undefined,
+	songArtist: string,
+	songTitle: string,
+	useSongLyrics: boolean,
+	options?: RequestOptions,
+): Promise<StructuredLyrics[]> {
+	if (songId && useSongLyrics) {
+		const structured = await getLyricsBySongId(songId, options);
+		const nonEmpty = structured.filter((lyrics) => lyrics.line?.length > 0);
+		if (nonEmpty.length > 0) {
+			// Timed lines aren't guaranteed to arrive in order
+			return nonEmpty.map((lyrics) =>
+				lyrics.synced
+					? {
+							...lyrics,
+							line: [...lyrics.line].sort(
+								(a, b) => (a.start ?? 0) - (b.start ?? 0),
+							),
+						}
+					: lyrics,
+			);
+		}
+	}
+
+	if (!songArtist || !songTitle) return [];
+	const lyrics = await getLyrics(songArtist, songTitle, options);
+	if (!lyrics) return [];
+
+	const texts = lyrics.value
+		? [{ value: lyrics.value, lang: undefined }]
+		: (lyrics.lyrics ?? []);
+	return texts
+		.filter((text) => text.value.trim())
+		.map((text) => ({
+			displayArtist: lyrics.artist,
+			displayTitle: lyrics.title,
+			lang: text.lang ?? UNKNOWN_LANGUAGE,
+			synced: false,
+			line: textToLines(text.value),
+		}));
+}
+
+// ============================================================================
+// Languages
+// ============================================================================
+
+// OpenSubsonic uses "xxx" and the artist/title lookup "und" when the
+// language isn't known
+const UNKNOWN_LANGUAGES = new Set([UNKNOWN_LANGUAGE, "xxx"]);
+
+export function getLanguageName(lang: string): string {
+	if (UNKNOWN_LANGUAGES.has(lang)) return "Unknown language";
+	try {
+		return (
+			new Intl.DisplayNames(undefined, { type: "language" }).of(lang) ?? lang
+		);
+	} catch {
+		// Not a valid language tag
+		return lang;
+	}
+}
+
+// Each language once, in the order the server listed them
+export function getLyricsLanguages(sets: StructuredLyrics[]): string[] {
+	return [...new Set(sets.map((lyrics) => lyrics.lang))];
+}
+
+// The set to show for a language, preferring timed lyrics. Falls back to the
+// first synced set, then the first set, when the language isn't available.
+export function pickLyrics(
+	sets: StructuredLyrics[],
+	language?: string,
+): StructuredLyrics | undefined {
+	const inLanguage = sets.filter((lyrics) => lyrics.lang === language);
+	return (
+		inLanguage.find(isSynced) ?? inLanguage[0] ?? sets.find(isSynced) ?? sets[0]
+	);
+}
+
+// Synced sets in other languages that can be shown beside `original`
+export function getTranslations(
+	sets: StructuredLyrics[],
+	original: StructuredLyrics,
+): StructuredLyrics[] {
+	if (!isSynced(original)) return [];
+	return sets.filter(
+		(lyrics) => lyrics.lang !== original.lang && isSynced(lyrics),
+	);
+}
+
+// Translations are rarely timed to the exact millisecond of the original
+const ALIGN_TOLERANCE = 500;
+
+/**
+ * For each line of `original`, the line of `translation` sung at the same
+ * time, or undefined where the translation has nothing. Both sets must be
+ * synced and in order.
+ */
+export function alignLyrics(
+	original: StructuredLyrics,
+	translation: StructuredLyrics,
+): Array<string | undefined> {
+	const originalOffset = original.offset ?? 0;
+	const translationOffset = translation.offset ?? 0;
+	// Compare times with each set's own offset applied
+	const translationLines = translation.line.map((line) => ({
+		...line,
+		start: (line.start ?? 0) - translationOffset,
+	}));
+
+	return original.line.map((line) => {
+		const start = (line.start ?? 0) - originalOffset;
+		const index = findActiveLine(translationLines, start + ALIGN_TOLERANCE);
+		const match = translationLines[index];
+		if (!match || Math.abs(match.start - start) > ALIGN_TOLERANCE) {
+			return undefined;
+		}
+		return match.value;
+	});
+}
+
+// ============================================================================
+// Timing
+// ============================================================================
+
+// Synced only if every line has a start time; partially timed sets are shown
+// as plain text
+export function isSynced(lyrics: StructuredLyrics): boolean {
+	return lyrics.synced && lyrics.line.every((line) => line.start !== undefined);
+}
+
+/**
+ * Index of the line being sung at `position` (milliseconds, offsets already
+ * applied), or -1 before the first line. Lines are assumed to be in order.
+ */
+export function findActiveLine(lines: LyricsLine[], position: number): number {
+	let low = 0;
+	let high = lines.length - 1;
+	let active = -1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		if ((lines[mid].start ?? 0) <= position) {
+			active = mid;
+			low = mid + 1;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return active;
+}
+
+// Both offsets follow the LRC convention: positive values show lines sooner
+export function getLyricsPosition(
+	currentTime: number,
+	serverOffset = 0,
+	userOffset = 0,
+): number {
+	return currentTime * 1000 + serverOffset + userOffset;
+}
+
+// Playback time in seconds at which a line starts, the inverse of
+// getLyricsPosition
+export function getLineTime(
+	line: LyricsLine,
+	serverOffset = 0,
+	userOffset = 0,
+): number {
+	return Math.max(0, ((line.start ?? 0) - serverOffset - userOffset) / 1000);
+}
+
+// ============================================================================
+// LRC Files
+// ============================================================================
+
+// One or more timestamps at the start of a line, e.g. [01:23.45]
+const LRC_TIME_TAG = /^\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/;
+// ID tags such as [ar:Artist] or [offset:+250]
+const LRC_ID_TAG = /^\[([a-z]+):(.*)\]$/i;
+
+function parseTimestamp(minutes: string, seconds: string): number {
+	return Math.round(
+		(Number(minutes) * 60 + Number(seconds.replace(":", "."))) * 1000,
+	);
+}
+
+// mm:ss.xx, as written in LRC files
+export function formatTimestamp(ms: number): string {
+	const totalCentiseconds = Math.max(0, Math.round(ms / 10));
+	const minutes = Math.floor(totalCentiseconds / 6000);
+	const seconds = Math.floor((totalCentiseconds % 6000) / 100);
+	const centiseconds = totalCentiseconds % 100;
+	return `${minutes.toString().padStart(2, "0")}:${seconds
+		.toString()
+		.padStart(2, "0")}.${centiseconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parse LRC or plain text. Text without timestamps becomes unsynced lyrics,
+ * so pasted lyrics can be shown right away and timed later.
+ */
+export function parseLrc(text: string): StructuredLyrics {
+	const timedLines: LyricsLine[] = [];
+	const plainLines: LyricsLine[] = [];
+	const lyrics: StructuredLyrics = {
+		lang: UNKNOWN_LANGUAGE,
+		synced: false,
+		line: [],
+	};
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		let rest = rawLine.trim();
+		const starts: number[] = [];
+		for (
+			let match = rest.match(LRC_TIME_TAG);
+			match;
+			match = rest.match(LRC_TIME_TAG)
+		) {
+			starts.push(parseTimestamp(match[1], match[2]));
+			rest = rest.slice(match[0].length);
+		}
+
+		if (starts.length > 0) {
+			// Repeated lines can carry several timestamps
+			for (const start of starts) {
+				timedLines.push({ start, value: rest.trim() });
+			}
+			continue;
+		}
+
+		const idTag = rest.match(LRC_ID_TAG);
+		if (idTag) {
+			const value = idTag[2].trim();
+			switch (idTag[1].toLowerCase()) {
+				case "ar":
+					lyrics.displayArtist = value;
+					break;
+				case "ti":
+					lyrics.displayTitle = value;
+					break;
+				case "la":
+					lyrics.lang = value || UNKNOWN_LANGUAGE;
+					break;
+				case "offset":
+					lyrics.offset = Number.parseInt(value, 10) || undefined;
+					break;
+			}
+			continue;
+		}
+
+		plainLines.push({ value: rest });
+	}
+
+	if (timedLines.length > 0) {
+		lyrics.synced = true;
+		lyrics.line = timedLines.sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+	} else {
+		// Drop blank lines around the text, keeping the ones between verses
+		while (plainLines.length > 0 && !plainLines[0].value) plainLines.shift();
+		while (plainLines.length > 0 && !plainLines[plainLines.length - 1].value) {
+			plainLines.pop();
+		}
+		lyrics.line = plainLines;
+	}
+	return lyrics;
+}
+
+// Write lyrics as LRC, or plain text when they aren't synced
+export function formatLrc(lyrics: StructuredLyrics): string {
+	const header = [
+		lyrics.displayTitle && `[ti:${lyrics.displayTitle}]`,
+		lyrics.displayArtist && `[ar:${lyrics.displayArtist}]`,
+		!UNKNOWN_LANGUAGES.has(lyrics.lang) && `[la:${lyrics.lang}]`,
+		lyrics.offset && `[offset:${lyrics.offset > 0 ? "+" : ""}${lyrics.offset}]`,
+	].filter(Boolean);
+
+	const lines = lyrics.line.map((line) =>
+		isSynced(lyrics)
+			? `[${formatTimestamp(line.start ?? 0)}]${line.value}`
+			: line.value,
+	);
+	return [...header, ...lines].join("\n");
+}
+
+// ============================================================================
+// Per-Track Offsets
+// ============================================================================
+
+// Song ID -> user offset in milliseconds
+const offsetStore = createProfileStore<number>(
+	"slothsonic-lyrics-offsets",
+	"lyrics offsets",
+);
+
+export function setLyricsOffset(songId: string, offset: number) {
+	const offsets = { ...offsetStore.get() };
+	if (offset) {
+		offsets[songId] = offset;
+	} else {
+		delete offsets[songId];
+	}
+	offsetStore.set(offsets);
+}
+
+// The user's timing adjustment for a song, in milliseconds
+export function useLyricsOffset(songId: string | undefined): number {
+	return useSyncExternalStore(
+		offsetStore.subscribe,
+		() => (songId ? (offsetStore.get()[songId] ?? 0) : 0),
+		() => 0,
+	);
+}
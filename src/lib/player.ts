@@ -1,5 +1,5 @@
 import { useSyncExternalStore } from "react";
-import type { Song } from "./api";
+import type { RadioStation, Song } from "./api";
 import {
 	getCoverArtUrl,
 	getPlayQueue,
@@ -13,6 +13,8 @@ import {
 	Html5AudioBackend,
 	MpvAudioBackend,
 } from "./audio-backend";
+import { offerBookmarkResume, updateAutoBookmark } from "./bookmarks";
+import { getResumePosition, recordEpisodeProgress } from "./podcast-progress";
 import { getSettings } from "./settings";
 
 // ============================================================================
@@ -151,10 +153,20 @@ function setupMprisControlListeners() {
 function getBackendEventHandlers(): AudioBackendEvents {
 	return {
 		onTimeUpdate: (time: number, duration: number) => {
+			// Live streams have no length, so there's nothing to seek or scrobble
+			if (playerState.radioStation) {
+				updateState({ currentTime: time, duration: 0 });
+				return;
+			}
+
 			updateState({ currentTime: time, duration });
 
 			// Update media session position
-			if ("mediaSession" in navigator && duration > 0) {
+			if (
+				"mediaSession" in navigator &&
+				duration > 0 &&
+				Number.isFinite(duration)
+			) {
 				navigator.mediaSession.setPositionState({
 					duration,
 					playbackRate: 1,
@@ -165,8 +177,18 @@ function getBackendEventHandlers(): AudioBackendEvents {
 			// Update MPRIS position (works for both HTML5 and MPV backends)
 			updateMprisPosition(time);
 
-			// Scrobble logic
 			const currentTrack = playerState.currentTrack;
+
+			// Remember where podcast episodes and long tracks were left off
+			if (currentTrack && !playerState.isLoading) {
+				if (currentTrack.type === "podcast") {
+					recordEpisodeProgress(currentTrack.id, time, duration);
+				} else {
+					updateAutoBookmark(currentTrack, time, duration);
+				}
+			}
+
+			// Scrobble logic
 			if (
 				currentTrack &&
 				currentTrack.id !== scrobbledTrackId &&
@@ -182,6 +204,12 @@ function getBackendEventHandlers(): AudioBackendEvents {
 			}
 		},
 		onEnded: () => {
+			// A radio stream only ends when the connection drops
+			if (playerState.radioStation) {
+				updateState({ isPlaying: false, isLoading: false });
+				updateMediaSessionState(false);
+				return;
+			}
 			playNext();
 		},
 		onAutoNext: () => {
@@ -214,6 +242,12 @@ function getBackendEventHandlers(): AudioBackendEvents {
 				switchToHtml5Fallback();
 			}
 		},
+		onStreamTitle: (title: string | null) => {
+			const { radioStation } = playerState;
+			if (!radioStation || title === playerState.streamTitle) return;
+			updateState({ streamTitle: title });
+			updateRadioMediaSession(radioStation, title);
+		},
 	};
 }
 
@@ -280,8 +314,7 @@ async function handleAutoNext() {
 // Fall back to HTML5 audio when MPV fails
 function switchToHtml5Fallback() {
 	const wasPlaying = playerState.isPlaying;
-	const currentTrack = playerState.currentTrack;
-	const currentTime = playerState.currentTime;
+	const { currentTrack, currentTime, radioStation } = playerState;
 
 	// Destroy current backend
 	if (currentBackend) {
@@ -296,7 +329,9 @@ function switchToHtml5Fallback() {
 	currentBackend.setEventHandlers(getBackendEventHandlers());
 
 	// Resume playback if we had a track
-	if (currentTrack && wasPlaying) {
+	if (radioStation && wasPlaying) {
+		playRadioStation(radioStation);
+	} else if (currentTrack && wasPlaying) {
 		playSong(currentTrack, playerState.queue, playerState.queueIndex).then(
 			() => {
 				seek(currentTime);
@@ -339,8 +374,7 @@ function getAudioBackend(): AudioBackend {
 export function switchAudioBackend(type: "html5" | "mpv"): void {
 	if (currentBackend && currentBackendType !== type) {
 		const wasPlaying = playerState.isPlaying;
-		const currentTime = playerState.currentTime;
-		const currentTrack = playerState.currentTrack;
+		const { currentTrack, currentTime, radioStation } = playerState;
 
 		// Stop current backend
 		currentBackend.stop();
@@ -351,7 +385,9 @@ export function switchAudioBackend(type: "html5" | "mpv"): void {
 		getAudioBackend();
 
 		// Resume playback if we had a track
-		if (currentTrack && wasPlaying) {
+		if (radioStation && wasPlaying) {
+			playRadioStation(radioStation);
+		} else if (currentTrack && wasPlaying) {
 			playSong(currentTrack, playerState.queue, playerState.queueIndex).then(
 				() => {
 					seek(currentTime);
@@ -413,6 +449,29 @@ function updateMediaSession(song: Song) {
 	});
 }
 
+// Stations have no artwork, so show the station name and whatever the stream
+// says is playing
+function updateRadioMediaSession(
+	station: RadioStation,
+	streamTitle: string | null,
+) {
+	if ("mediaSession" in navigator) {
+		navigator.mediaSession.metadata = new MediaMetadata({
+			title: streamTitle ?? station.name,
+			artist: streamTitle ? station.name : undefined,
+		});
+	}
+
+	const api = window.electronAPI?.mpv;
+	if (!api || window.electronAPI?.platform !== "linux") return;
+
+	api.setMetadata({
+		title: streamTitle ?? station.name,
+		artist: streamTitle ? station.name : undefined,
+		trackId: `radio-${station.id}`,
+	});
+}
+
 function updateMediaSessionState(isPlaying: boolean) {
 	if ("mediaSession" in navigator) {
 		navigator.mediaSession.playbackState = isPlaying ? "playing" : "paused";
@@ -436,6 +495,8 @@ export interface PlayerState {
 	isLoading: boolean;
 	shuffle: boolean;
 	repeat: RepeatMode;
+	radioStation: RadioStation | null; // Set while a live stream is playing
+	streamTitle: string | null; // "Now playing" metadata from the stream
 }
 
 // ============================================================================
@@ -479,6 +540,8 @@ const initialState: PlayerState = {
 	isLoading: false,
 	shuffle: false,
 	repeat: "off",
+	radioStation: null,
+	streamTitle: null,
 };
 
 let playerState: PlayerState = { ...initialState };
@@ -488,6 +551,10 @@ const listeners = new Set<() => void>();
 let scrobbledTrackId: string | null = null;
 let nowPlayingReported: string | null = null;
 
+// Set when the current track is shown but its source isn't loaded, as after
+// stopping the radio, so playing it has to start it afresh
+let currentTrackUnloaded = false;
+
 function emitChange() {
 	for (const listener of listeners) {
 		listener();
@@ -530,16 +597,24 @@ function debouncedSaveQueue() {
 	}, 2000); // Save after 2 seconds of inactivity
 }
 
+export interface PlaySongOptions {
+	// Position to start from, in seconds. Podcast episodes default to where
+	// they were left off.
+	startTime?: number;
+}
+
 // Player actions
 export async function playSong(
 	song: Song,
 	queue?: Song[],
 	startIndex?: number,
+	options?: PlaySongOptions,
 ) {
 	const backend = getAudioBackend();
 
 	// Reset scrobble state for new song
 	scrobbledTrackId = null;
+	currentTrackUnloaded = false;
 
 	const newQueue = queue ?? [song];
 	const currentIndex = startIndex ?? 0;
@@ -552,11 +627,18 @@ export async function playSong(
 				: newQueue,
 		queueIndex: currentIndex,
 		isLoading: true,
+		radioStation: null,
+		streamTitle: null,
 	});
 
 	// Trigger queue sync
 	debouncedSaveQueue();
 
+	// Read before playback starts and reports progress from 0
+	const startTime =
+		options?.startTime ??
+		(song.type === "podcast" ? getResumePosition(song.id) : 0);
+
 	try {
 		const streamUrl = await getStreamUrl(song.id);
 
@@ -569,6 +651,16 @@ export async function playSong(
 			await backend.play(streamUrl);
 		}
 
+		if (startTime > 0) {
+			seek(startTime);
+		} else if (options?.startTime === undefined) {
+			offerBookmarkResume(song, (position) => {
+				if (playerState.currentTrack?.id === song.id) {
+					seek(position);
+				}
+			});
+		}
+
 		// Update media session metadata
 		updateMediaSession(song);
 
@@ -585,6 +677,47 @@ export async function playSong(
 	}
 }
 
+// Play an internet radio station. The queue is left alone so it can be picked
+// up again afterwards.
+export async function playRadioStation(station: RadioStation) {
+	const backend = getAudioBackend();
+
+	updateState({
+		currentTrack: null,
+		radioStation: station,
+		streamTitle: null,
+		currentTime: 0,
+		duration: 0,
+		isLoading: true,
+	});
+	updateRadioMediaSession(station, null);
+
+	try {
+		await backend.play(station.streamUrl);
+	} catch (error) {
+		console.error("Failed to play radio station:", error);
+		updateState({ isLoading: false, isPlaying: false });
+	}
+}
+
+// Stop the radio and go back to the current position in the queue
+export function stopRadio() {
+	if (!playerState.radioStation) return;
+
+	getAudioBackend().stop();
+	const { queue, queueIndex } = playerState;
+	currentTrackUnloaded = queueIndex < queue.length;
+	updateState({
+		radioStation: null,
+		streamTitle: null,
+		isPlaying: false,
+		isLoading: false,
+		currentTime: 0,
+		currentTrack: queue[queueIndex] ?? null,
+	});
+	updateMediaSessionState(false);
+}
+
 export async function playAlbum(songs: Song[], startIndex = 0) {
 	if (songs.length === 0) return;
 	await playSong(songs[startIndex], songs, startIndex);
@@ -595,6 +728,15 @@ export function togglePlayPause() {
 	if (playerState.isPlaying) {
 		backend.pause();
 		updateState({ isPlaying: false });
+	} else if (playerState.radioStation) {
+		// Reconnect rather than resume, so playback is live again
+		playRadioStation(playerState.radioStation);
+	} else if (currentTrackUnloaded && playerState.currentTrack) {
+		playSong(
+			playerState.currentTrack,
+			playerState.queue,
+			playerState.queueIndex,
+		);
 	} else if (playerState.currentTrack) {
 		backend.resume();
 		updateState({ isPlaying: true });
@@ -607,14 +749,22 @@ export function pause() {
 }
 
 export function play() {
-	if (playerState.currentTrack) {
+	if (playerState.radioStation) {
+		if (!playerState.isPlaying) playRadioStation(playerState.radioStation);
+	} else if (currentTrackUnloaded && playerState.currentTrack) {
+		playSong(
+			playerState.currentTrack,
+			playerState.queue,
+			playerState.queueIndex,
+		);
+	} else if (playerState.currentTrack) {
 		getAudioBackend().resume();
 	}
 }
 
 export async function playNext() {
-	const { queue, queueIndex, repeat, currentTrack } = playerState;
-	if (queue.length === 0) return;
+	const { queue, queueIndex, repeat, currentTrack, radioStation } = playerState;
+	if (queue.length === 0 || radioStation) return;
 
 	// Repeat one: replay current track
 	if (repeat === "one" && currentTrack) {
@@ -637,8 +787,8 @@ export async function playNext() {
 }
 
 export async function playPrevious() {
-	const { queue, queueIndex, currentTime, repeat } = playerState;
-	if (queue.length === 0) return;
+	const { queue, queueIndex, currentTime, repeat, radioStation } = playerState;
+	if (queue.length === 0 || radioStation) return;
 
 	// If more than 3 seconds in, restart current track
 	if (currentTime > 3) {
@@ -659,6 +809,9 @@ export async function playPrevious() {
 }
 
 export function seek(time: number) {
+	// Live streams can't seek
+	if (playerState.radioStation) return;
+
 	const backend = getAudioBackend();
 	// Update state immediately for smooth UI
 	updateState({ currentTime: time });
@@ -715,6 +868,12 @@ export function clearQueue(): {
 		previousQueueIndex: queueIndex,
 	};
 
+	// The radio keeps playing on its own, so just drop the queue
+	if (playerState.radioStation) {
+		updateState({ queue: [], originalQueue: [], queueIndex: -1 });
+		return previousState;
+	}
+
 	// If there's a current track, keep only that song in the queue
 	if (currentTrack && queue.length > 1) {
 		updateState({
@@ -731,6 +890,27 @@ export function clearQueue(): {
 	return previousState;
 }
 
+// Stop playback and drop all queue state (used when switching server profiles)
+export function resetPlayer() {
+	if (saveQueueTimeout) {
+		clearTimeout(saveQueueTimeout);
+		saveQueueTimeout = null;
+	}
+
+	currentBackend?.stop();
+	scrobbledTrackId = null;
+	nowPlayingReported = null;
+	currentTrackUnloaded = false;
+	clearCoverArtCache();
+
+	if ("mediaSession" in navigator) {
+		navigator.mediaSession.metadata = null;
+	}
+	updateMediaSessionState(false);
+
+	updateState({ ...initialState, volume: playerState.volume });
+}
+
 // Restore a previously saved queue state (for undo)
 export function restoreQueueState(state: {
 	previousQueue: Song[];
@@ -744,7 +924,9 @@ export function restoreQueueState(state: {
 		queue: previousQueue,
 		originalQueue: previousOriginalQueue,
 		queueIndex: previousQueueIndex,
-		currentTrack: previousQueue[previousQueueIndex],
+		currentTrack: playerState.radioStation
+			? null
+			: previousQueue[previousQueueIndex],
 	});
 }
 
@@ -883,6 +1065,22 @@ export function updateCurrentTrackStarred(starred: boolean) {
 	});
 }
 
+// Update a song's rating wherever it appears in the queue (for optimistic UI
+// updates). A rating of 0 removes it.
+export function updateCurrentTrackRating(songId: string, rating: number) {
+	const userRating = rating || undefined;
+	const withRating = (song: Song) =>
+		song.id === songId ? { ...song, userRating } : song;
+
+	updateState({
+		currentTrack: playerState.currentTrack
+			? withRating(playerState.currentTrack)
+			: null,
+		queue: playerState.queue.map(withRating),
+		originalQueue: playerState.originalQueue.map(withRating),
+	});
+}
+
 // Save queue immediately (for page unload)
 export function saveQueueNow(): Promise<void> {
 	const { queue, currentTrack, currentTime } = playerState;
@@ -916,6 +1114,7 @@ export async function restoreQueue(): Promise<boolean> {
 		}
 
 		// Update state with restored queue (don't auto-play)
+		currentTrackUnloaded = false;
 		updateState({
 			queue: songs,
 			originalQueue: songs,
@@ -985,6 +1184,11 @@ export async function getTrackCoverUrl(
 	return url;
 }
 
+// Cached URLs embed auth parameters, so drop them when credentials change
+export function clearCoverArtCache() {
+	coverArtCache.clear();
+}
+
 // React hook
 function subscribe(callback: () => void) {
 	listeners.add(callback);
@@ -1002,6 +1206,8 @@ export function usePlayer() {
 		...state,
 		playSong,
 		playAlbum,
+		playRadioStation,
+		stopRadio,
 		togglePlayPause,
 		play,
 		pause,
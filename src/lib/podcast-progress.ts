@@ -0,0 +1,99 @@
+import { useSyncExternalStore } from "react";
+import { createProfileStore, type ProfileMap } from "./profile-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EpisodeProgress {
+	position: number; // Seconds
+	duration: number; // Seconds
+	finished: boolean;
+	updatedAt: number;
+}
+
+// Song ID -> progress
+type ProgressMap = ProfileMap<EpisodeProgress>;
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+// Persist at most this often while playing, in seconds of playback
+const SAVE_INTERVAL = 5;
+// Episodes are treated as finished this close to the end, so outros and ads
+// don't leave them half-played
+const FINISHED_MARGIN = 30;
+const FINISHED_MARGIN_RATIO = 0.1;
+
+// Progress is stored per server profile, like settings
+const store = createProfileStore<EpisodeProgress>(
+	"slothsonic-podcast-progress",
+	"podcast progress",
+);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export function getEpisodeProgress(id: string): EpisodeProgress | undefined {
+	return store.get()[id];
+}
+
+// Where to start an episode: the saved position, or the beginning if it was
+// never started or already finished
+export function getResumePosition(id: string): number {
+	const progress = getEpisodeProgress(id);
+	return progress && !progress.finished ? progress.position : 0;
+}
+
+// Called on every time update while an episode plays
+export function recordEpisodeProgress(
+	id: string,
+	position: number,
+	duration: number,
+) {
+	if (!duration || !Number.isFinite(duration)) return;
+
+	const previous = getEpisodeProgress(id);
+	// Short episodes get a margin in proportion to their length
+	const margin = Math.min(FINISHED_MARGIN, duration * FINISHED_MARGIN_RATIO);
+	const finished = position >= duration - margin;
+
+	if (
+		previous &&
+		previous.finished === finished &&
+		Math.abs(previous.position - position) < SAVE_INTERVAL
+	) {
+		return;
+	}
+
+	store.set({
+		...store.get(),
+		[id]: { position, duration, finished, updatedAt: Date.now() },
+	});
+}
+
+export function markEpisodeFinished(
+	id: string,
+	finished: boolean,
+	duration?: number,
+) {
+	const progress = { ...store.get() };
+	if (finished) {
+		const length = duration ?? progress[id]?.duration ?? 0;
+		progress[id] = {
+			position: length,
+			duration: length,
+			finished: true,
+			updatedAt: Date.now(),
+		};
+	} else {
+		delete progress[id];
+	}
+	store.set(progress);
+}
+
+export function usePodcastProgress(): ProgressMap {
+	return useSyncExternalStore(store.subscribe, store.get, store.get);
+}
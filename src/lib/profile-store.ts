@@ -0,0 +1,83 @@
+import { getActiveProfileId } from "./auth";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Entries by ID, such as song IDs, which are only meaningful on one server
+export type ProfileMap<T> = Record<string, T>;
+
+export interface ProfileStore<T> {
+	// Entries for the active profile
+	get: () => ProfileMap<T>;
+	// Replace the active profile's entries and notify subscribers
+	set: (entries: ProfileMap<T>) => void;
+	subscribe: (callback: () => void) => () => void;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+function getStorageKey(storageKey: string, profileId: string | null): string {
+	return profileId ? `${storageKey}:${profileId}` : storageKey;
+}
+
+function load<T>(storageKey: string, profileId: string | null): ProfileMap<T> {
+	try {
+		const stored = localStorage.getItem(getStorageKey(storageKey, profileId));
+		if (stored) {
+			return JSON.parse(stored);
+		}
+	} catch {
+		// Invalid stored data
+	}
+	return {};
+}
+
+/**
+ * A localStorage-backed map kept per server profile, since IDs differ between
+ * servers. Reloads when the active profile changes; `name` is used in warnings.
+ */
+export function createProfileStore<T>(
+	storageKey: string,
+	name: string,
+): ProfileStore<T> {
+	let loadedProfileId = getActiveProfileId();
+	let current = load<T>(storageKey, loadedProfileId);
+	const listeners = new Set<() => void>();
+
+	// Reload when the active profile changed since the last access
+	const get = () => {
+		const profileId = getActiveProfileId();
+		if (profileId !== loadedProfileId) {
+			loadedProfileId = profileId;
+			current = load<T>(storageKey, profileId);
+		}
+		return current;
+	};
+
+	const set = (entries: ProfileMap<T>) => {
+		current = entries;
+		try {
+			localStorage.setItem(
+				getStorageKey(storageKey, loadedProfileId),
+				JSON.stringify(entries),
+			);
+		} catch (err) {
+			console.warn(`Failed to save ${name} to localStorage:`, err);
+		}
+		for (const listener of listeners) {
+			listener();
+		}
+	};
+
+	const subscribe = (callback: () => void) => {
+		listeners.add(callback);
+		return () => {
+			listeners.delete(callback);
+		};
+	};
+
+	return { get, set, subscribe };
+}
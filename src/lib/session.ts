@@ -0,0 +1,75 @@
+import { useSyncExternalStore } from "react";
+
+// Tracks whether the server has rejected our credentials mid-session. While a
+// re-authentication is pending, API requests wait for it instead of failing,
+// then retry with the new credentials.
+
+interface SessionState {
+	reauthRequired: boolean;
+	// Server message explaining why the credentials were rejected
+	reason: string | null;
+}
+
+let sessionState: SessionState = {
+	reauthRequired: false,
+	reason: null,
+};
+
+let pendingReauth: {
+	promise: Promise<boolean>;
+	resolve: (success: boolean) => void;
+} | null = null;
+
+const listeners = new Set<() => void>();
+
+function emitChange() {
+	for (const listener of listeners) {
+		listener();
+	}
+}
+
+function updateState(partial: Partial<SessionState>) {
+	sessionState = { ...sessionState, ...partial };
+	emitChange();
+}
+
+// Ask the user to sign in again. Concurrent callers share one prompt.
+// Resolves true once new credentials are saved, false if the user gives up.
+export function requestReauthentication(reason: string): Promise<boolean> {
+	if (pendingReauth) return pendingReauth.promise;
+
+	let resolve: (success: boolean) => void = () => {};
+	const promise = new Promise<boolean>((r) => {
+		resolve = r;
+	});
+	pendingReauth = { promise, resolve };
+	updateState({ reauthRequired: true, reason });
+	return promise;
+}
+
+// Hold new requests while a re-authentication is in progress
+export async function waitForReauthentication(): Promise<void> {
+	if (pendingReauth) {
+		await pendingReauth.promise;
+	}
+}
+
+export function completeReauthentication(success: boolean) {
+	const pending = pendingReauth;
+	pendingReauth = null;
+	updateState({ reauthRequired: false, reason: null });
+	pending?.resolve(success);
+}
+
+function subscribe(callback: () => void) {
+	listeners.add(callback);
+	return () => listeners.delete(callback);
+}
+
+function getSnapshot(): SessionState {
+	return sessionState;
+}
+
+export function useSession() {
+	return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -1,4 +1,5 @@
 import { useSyncExternalStore } from "react";
+import { getActiveProfileId } from "./auth";
 
 // ============================================================================
 // Types
@@ -9,6 +10,11 @@ export type AudioBackend = "html5" | "mpv";
 export interface Settings {
 	audioBackend: AudioBackend;
 	mpvPath?: string; // Custom path to mpv binary (optional)
+	musicFolderId?: string; // Library to browse; all libraries when unset
+	autoBookmark: boolean; // Save resume points for long tracks
+	autoBookmarkMinutes: number; // Shortest track length that gets bookmarked
+	lyricsLanguage?: string; // Preferred lyrics when a song has several languages
+	lyricsTranslation?: string; // Language shown beside synced lyrics; off when unset
 }
 
 // ============================================================================
@@ -19,11 +25,24 @@ const SETTINGS_STORAGE_KEY = "slothsonic-settings";
 
 const defaultSettings: Settings = {
 	audioBackend: "html5",
+	autoBookmark: true,
+	autoBookmarkMinutes: 20,
 };
 
+// Settings are stored per server profile. The unscoped key holds the settings
+// from before profiles existed and seeds profiles that have none yet.
+function getSettingsStorageKey(): string {
+	const profileId = getActiveProfileId();
+	return profileId
+		? `${SETTINGS_STORAGE_KEY}:${profileId}`
+		: SETTINGS_STORAGE_KEY;
+}
+
 function loadSettings(): Settings {
 	try {
-		const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+		const stored =
+			localStorage.getItem(getSettingsStorageKey()) ??
+			localStorage.getItem(SETTINGS_STORAGE_KEY);
 		if (stored) {
 			const parsed = JSON.parse(stored);
 			return { ...defaultSettings, ...parsed };
@@ -36,7 +55,7 @@ function loadSettings(): Settings {
 
 function saveSettings(settings: Settings): void {
 	try {
-		localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+		localStorage.setItem(getSettingsStorageKey(), JSON.stringify(settings));
 	} catch (err) {
 		console.warn("Failed to save settings to localStorage:", err);
 	}
@@ -73,6 +92,28 @@ declare global {
 		electronAPI?: {
 			platform: string;
 			isElectron: boolean;
+			credentials?: {
+				isAvailable: () => Promise<boolean>;
+				get: (profileId: string) => Promise<string | null>;
+				set: (profileId: string, secret: string) => Promise<boolean>;
+				delete: (profileId: string) => Promise<void>;
+			};
+			proxy?: {
+				// Returns the base URL to use in place of the server URL
+				register: (config: {
+					serverUrl: string;
+					headers?: Record<string, string>;
+					certificateFingerprint?: string;
+				}) => Promise<string>;
+				getCertificate: (serverUrl: string) => Promise<{
+					fingerprint: string;
+					subject: string | null;
+					issuer: string | null;
+					validTo: string;
+					// Whether the system already trusts it
+					trusted: boolean;
+				}>;
+			};
 			mpv?: {
 				// Availability and configuration
 				isAvailable: (customPath?: string) => Promise<boolean>;
@@ -138,6 +179,7 @@ declare global {
 					callback: (state: { playing: boolean; loading: boolean }) => void,
 				) => () => void;
 				onFallback: (callback: (isError: boolean) => void) => () => void;
+				onStreamTitle: (callback: (title: string | null) => void) => () => void;
 
 				// MPRIS control events (from D-Bus)
 				onMprisPlay: (callback: () => void) => () => void;
@@ -185,6 +227,12 @@ export function getSettings(): Settings {
 	return currentSettings;
 }
 
+// Re-read settings for the active profile (call after switching profiles)
+export function reloadSettings(): void {
+	currentSettings = loadSettings();
+	emitChange();
+}
+
 export function updateSettings(updates: Partial<Settings>): void {
 	currentSettings = { ...currentSettings, ...updates };
 	saveSettings(currentSettings);
@@ -199,10 +247,20 @@ export function setMpvPath(path: string | undefined): void {
 	updateSettings({ mpvPath: path });
 }
 
+export function setMusicFolderId(musicFolderId: string | undefined): void {
+	updateSettings({ musicFolderId });
+}
+
 // ============================================================================
 // React Hook
 // ============================================================================
 
+// The selected library, for scoping list and search queries
+export function useMusicFolderId(): string | undefined {
+	return useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+		.musicFolderId;
+}
+
 export function useSettings() {
 	const settings = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
@@ -211,6 +269,7 @@ export function useSettings() {
 		updateSettings,
 		setAudioBackend,
 		setMpvPath,
+		setMusicFolderId,
 		isElectron: isElectron(),
 		isMpvAvailable: isMpvAvailable(),
 	};
@@ -1,4 +1,9 @@
-import { getCredentials, type SubsonicCredentials } from "./auth";
+import {
+	type AuthMethod,
+	getCredentials,
+	type SubsonicCredentials,
+} from "./auth";
+import { requestReauthentication, waitForReauthentication } from "./session";
 
 // Generate a random salt for authentication
 function generateSalt(length = 16): string {
@@ -214,6 +219,22 @@ async function md5(message: string): Promise<string> {
 	return hex(state);
 }
 
+// Encode a string as hex for the legacy "enc:" password format
+export function hexEncode(value: string): string {
+	return Array.from(new TextEncoder().encode(value))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+// Parameters sent with every request, authenticated or not
+function getClientParams(): URLSearchParams {
+	return new URLSearchParams({
+		v: "1.16.1", // Subsonic API version
+		c: "slothsonic", // Client identifier
+		f: "json", // Response format
+	});
+}
+
 // Build authentication parameters for Subsonic API
 export async function getAuthParams(
 	credentials?: SubsonicCredentials | null,
@@ -223,31 +244,167 @@ export async function getAuthParams(
 		throw new Error("Not authenticated");
 	}
 
-	const salt = generateSalt();
-	const token = await md5(creds.password + salt);
-
-	const params = new URLSearchParams({
-		u: creds.username,
-		t: token,
-		s: salt,
-		v: "1.16.1", // Subsonic API version
-		c: "slothsonic", // Client identifier
-		f: "json", // Response format
-	});
+	const params = getClientParams();
+
+	switch (creds.authMethod ?? "token") {
+		case "apiKey":
+			// The spec forbids sending a username alongside an API key
+			params.set("apiKey", creds.apiKey ?? "");
+			break;
+		case "password":
+			params.set("u", creds.username);
+			params.set("p", `enc:${hexEncode(creds.password)}`);
+			break;
+		default: {
+			const salt = generateSalt();
+			params.set("u", creds.username);
+			params.set("t", await md5(creds.password + salt));
+			params.set("s", salt);
+		}
+	}
 
 	return params;
 }
 
-// Get the base URL for API requests
-function getBaseUrl(serverUrl: string): string {
-	// Hit the server directly (requires CORS to be enabled on the server)
-	return serverUrl;
+type ServerAddress = Pick<SubsonicCredentials, "serverUrl" | "connection">;
+
+// Proxy base URLs by route config, so each server is registered once
+const proxyBaseUrls = new Map<string, Promise<string>>();
+
+// Get the base URL for API requests. By default we hit the server directly,
+// which requires CORS to be enabled on it; the desktop app can instead route
+// requests through its main process.
+async function getBaseUrl(server: ServerAddress): Promise<string> {
+	const proxy = window.electronAPI?.proxy;
+	if (!proxy || !server.connection?.useProxy) {
+		return server.serverUrl;
+	}
+
+	const config = {
+		serverUrl: server.serverUrl,
+		headers: server.connection.headers,
+		certificateFingerprint: server.connection.certificateFingerprint,
+	};
+	const key = JSON.stringify(config);
+	let baseUrl = proxyBaseUrls.get(key);
+	if (!baseUrl) {
+		baseUrl = proxy.register(config);
+		proxyBaseUrls.set(key, baseUrl);
+		// Let a failed registration be retried
+		baseUrl.catch(() => proxyBaseUrls.delete(key));
+	}
+	return baseUrl;
+}
+
+// Error codes defined by the Subsonic and OpenSubsonic APIs
+export const SubsonicErrorCode = {
+	Generic: 0,
+	MissingParameter: 10,
+	ClientTooOld: 20,
+	ServerTooOld: 30,
+	WrongCredentials: 40,
+	TokenAuthNotSupported: 41,
+	AuthMechanismNotSupported: 42,
+	ConflictingAuthMechanisms: 43,
+	InvalidApiKey: 44,
+	Unauthorized: 50,
+	TrialExpired: 60,
+	NotFound: 70,
+} as const;
+
+export type SubsonicErrorCode =
+	(typeof SubsonicErrorCode)[keyof typeof SubsonicErrorCode];
+
+// The server answered, but with status "failed"
+export class SubsonicError extends Error {
+	readonly code: number;
+
+	constructor(code: number, message: string) {
+		super(message);
+		this.name = "SubsonicError";
+		this.code = code;
+	}
+
+	// The credentials (or how they were sent) were rejected
+	get isAuthError(): boolean {
+		return this.code >= 40 && this.code < 50;
+	}
+
+	get isNotFound(): boolean {
+		return this.code === SubsonicErrorCode.NotFound;
+	}
+}
+
+// The request never got a valid Subsonic response: the server is unreachable,
+// blocked by CORS, or answered with something that isn't the API
+export class NetworkError extends Error {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = "NetworkError";
+	}
+}
+
+export class TimeoutError extends NetworkError {
+	constructor(timeout: number) {
+		super(`Request timed out after ${Math.round(timeout / 1000)}s`);
+		this.name = "TimeoutError";
+	}
+}
+
+export function isAuthError(error: unknown): boolean {
+	return error instanceof SubsonicError && error.isAuthError;
+}
+
+export interface SubsonicResponse<T> {
+	"subsonic-response": {
+		status: "ok" | "failed";
+		version: string;
+		type: string;
+		serverVersion: string;
+		openSubsonic: boolean;
+		error?: {
+			code: number;
+			message: string;
+		};
+	} & T;
+}
+
+// The payload inside the "subsonic-response" envelope
+export type SubsonicResponseBody<T> = SubsonicResponse<T>["subsonic-response"];
+
+// Array values are sent as repeated parameters (e.g. songIdToAdd=1&songIdToAdd=2)
+export type SubsonicParams = Record<
+	string,
+	string | number | boolean | undefined | Array<string | number>
+>;
+
+export interface RequestOptions {
+	signal?: AbortSignal;
+	// Milliseconds before giving up; defaults to DEFAULT_TIMEOUT
+	timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+
+function appendParams(target: URLSearchParams, params?: SubsonicParams) {
+	if (!params) return;
+	for (const [key, value] of Object.entries(params)) {
+		if (value === undefined) continue;
+		if (Array.isArray(value)) {
+			target.delete(key);
+			for (const item of value) {
+				target.append(key, item.toString());
+			}
+		} else {
+			target.set(key, value.toString());
+		}
+	}
 }
 
 // Build a full API URL
 export async function buildApiUrl(
 	endpoint: string,
-	additionalParams?: Record<string, string>,
+	additionalParams?: SubsonicParams,
 ): Promise<string> {
 	const credentials = getCredentials();
 	if (!credentials) {
@@ -255,35 +412,211 @@ export async function buildApiUrl(
 	}
 
 	const params = await getAuthParams(credentials);
+	appendParams(params, additionalParams);
 
-	if (additionalParams) {
-		for (const [key, value] of Object.entries(additionalParams)) {
-			params.set(key, value);
-		}
+	const baseUrl = await getBaseUrl(credentials);
+	return `${baseUrl}/rest/${endpoint}?${params.toString()}`;
+}
+
+// Fetch a Subsonic URL and unwrap the response envelope, throwing
+// SubsonicError for API failures and NetworkError for everything else
+async function fetchSubsonic<T>(
+	url: string,
+	options?: RequestOptions,
+): Promise<SubsonicResponseBody<T>> {
+	const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+	const controller = new AbortController();
+	let timedOut = false;
+
+	const timeoutId = setTimeout(() => {
+		timedOut = true;
+		controller.abort();
+	}, timeout);
+	const abortFromCaller = () => controller.abort(options?.signal?.reason);
+	options?.signal?.addEventListener("abort", abortFromCaller);
+
+	let response: Response;
+	try {
+		if (options?.signal?.aborted) abortFromCaller();
+		response = await fetch(url, { signal: controller.signal });
+	} catch (error) {
+		if (timedOut) throw new TimeoutError(timeout);
+		// Let cancellations surface as-is so callers can ignore them
+		if (options?.signal?.aborted) throw error;
+		throw new NetworkError("Could not reach the server", { cause: error });
+	} finally {
+		clearTimeout(timeoutId);
+		options?.signal?.removeEventListener("abort", abortFromCaller);
 	}
 
-	const baseUrl = getBaseUrl(credentials.serverUrl);
-	return `${baseUrl}/rest/${endpoint}?${params.toString()}`;
+	let data: SubsonicResponse<T>;
+	try {
+		data = await response.json();
+	} catch (error) {
+		throw new NetworkError(
+			`Unexpected response from server (HTTP ${response.status})`,
+			{ cause: error },
+		);
+	}
+
+	const body = data?.["subsonic-response"];
+	if (!body) {
+		throw new NetworkError("Unexpected response from server");
+	}
+
+	if (body.status !== "ok") {
+		throw new SubsonicError(
+			body.error?.code ?? SubsonicErrorCode.Generic,
+			body.error?.message || "Request failed",
+		);
+	}
+
+	return body;
+}
+
+// Make an authenticated API request and return the unwrapped response.
+// If the server rejects our credentials, wait for the user to sign in again
+// and retry once with the new ones.
+export async function subsonicRequest<T = Record<string, never>>(
+	endpoint: string,
+	params?: SubsonicParams,
+	options?: RequestOptions,
+): Promise<SubsonicResponseBody<T>> {
+	await waitForReauthentication();
+
+	try {
+		const url = await buildApiUrl(endpoint, params);
+		return await fetchSubsonic<T>(url, options);
+	} catch (error) {
+		if (!isAuthError(error) || options?.signal?.aborted) throw error;
+
+		const recovered = await requestReauthentication(
+			(error as SubsonicError).message,
+		);
+		if (!recovered) throw error;
+
+		const url = await buildApiUrl(endpoint, params);
+		return fetchSubsonic<T>(url, options);
+	}
+}
+
+export interface OpenSubsonicExtension {
+	name: string;
+	versions: number[];
 }
 
-// Test connection to the Subsonic server
+// List the OpenSubsonic extensions a server supports. The endpoint must
+// answer without authentication, so this works before signing in.
+// Returns null for plain Subsonic servers.
+export async function getOpenSubsonicExtensions(
+	server: ServerAddress,
+	options?: RequestOptions,
+): Promise<OpenSubsonicExtension[] | null> {
+	try {
+		const baseUrl = await getBaseUrl(server);
+		const url = `${baseUrl}/rest/getOpenSubsonicExtensions?${getClientParams().toString()}`;
+
+		const body = await fetchSubsonic<{
+			openSubsonicExtensions?: OpenSubsonicExtension[];
+		}>(url, options);
+		return body.openSubsonicExtensions ?? [];
+	} catch {
+		return null;
+	}
+}
+
+export interface PingResult {
+	success: boolean;
+	error?: string;
+	// The method that worked, to be stored with the credentials
+	authMethod?: AuthMethod;
+	// Detection could not settle on a method; the user has to pick one
+	ambiguous?: boolean;
+	// Methods the server is known to accept
+	availableMethods?: AuthMethod[];
+}
+
+async function pingWithMethod(
+	credentials: SubsonicCredentials,
+	authMethod: AuthMethod,
+): Promise<{ success: boolean; error?: string; code?: number }> {
+	const params = await getAuthParams({ ...credentials, authMethod });
+	const baseUrl = await getBaseUrl(credentials);
+	const url = `${baseUrl}/rest/ping?${params.toString()}`;
+
+	try {
+		await fetchSubsonic(url);
+		return { success: true };
+	} catch (error) {
+		if (error instanceof SubsonicError) {
+			return { success: false, error: error.message, code: error.code };
+		}
+		throw error;
+	}
+}
+
+// Test connection to the Subsonic server. When credentials carry no auth
+// method, detect one: token auth first, then the plain password for servers
+// that can't verify tokens (LDAP, proxy auth).
 export async function ping(
 	credentials: SubsonicCredentials,
-): Promise<{ success: boolean; error?: string }> {
+): Promise<PingResult> {
 	try {
-		const params = await getAuthParams(credentials);
-		const baseUrl = getBaseUrl(credentials.serverUrl);
-		const url = `${baseUrl}/rest/ping?${params.toString()}`;
+		if (credentials.authMethod) {
+			const result = await pingWithMethod(credentials, credentials.authMethod);
+			return result.success
+				? { success: true, authMethod: credentials.authMethod }
+				: { success: false, error: result.error };
+		}
+
+		const extensions = await getOpenSubsonicExtensions(credentials);
+		const supportsApiKey =
+			extensions?.some((ext) => ext.name === "apiKeyAuthentication") ?? false;
+
+		const tokenResult = await pingWithMethod(credentials, "token");
+		if (tokenResult.success) {
+			return { success: true, authMethod: "token" };
+		}
 
-		const response = await fetch(url);
-		const data = await response.json();
+		// Codes meaning the server rejects the auth method rather than the
+		// credentials themselves
+		const methodRejected =
+			tokenResult.code === SubsonicErrorCode.TokenAuthNotSupported ||
+			tokenResult.code === SubsonicErrorCode.AuthMechanismNotSupported;
+		if (!methodRejected) {
+			return { success: false, error: tokenResult.error };
+		}
+
+		const passwordResult = await pingWithMethod(credentials, "password");
+		if (passwordResult.success) {
+			return { success: true, authMethod: "password" };
+		}
+
+		if (
+			supportsApiKey &&
+			passwordResult.code === SubsonicErrorCode.AuthMechanismNotSupported
+		) {
+			// Only an API key will do, and we don't have one yet
+			return {
+				success: false,
+				error: "This server requires an API key",
+				ambiguous: true,
+				availableMethods: ["apiKey"],
+			};
+		}
 
-		if (data["subsonic-response"]?.status === "ok") {
-			return { success: true };
+		if (supportsApiKey) {
+			// The server may want an API key or may just have rejected the
+			// password; let the user decide
+			return {
+				success: false,
+				error: passwordResult.error,
+				ambiguous: true,
+				availableMethods: ["password", "apiKey"],
+			};
 		}
 
-		const error = data["subsonic-response"]?.error?.message || "Unknown error";
-		return { success: false, error };
+		return { success: false, error: passwordResult.error };
 	} catch (error) {
 		return {
 			success: false,
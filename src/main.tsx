@@ -7,6 +7,7 @@ import { StrictMode } from "react";
 import ReactDOM from "react-dom/client";
 
 import * as TanStackQueryProvider from "./integrations/tanstack-query/root-provider.tsx";
+import { initializeAuth } from "./lib/auth";
 
 // Import the generated route tree
 import { routeTree } from "./routeTree.gen";
@@ -39,17 +40,20 @@ declare module "@tanstack/react-router" {
 	}
 }
 
-// Render the app
+// Render the app once saved credentials are loaded, so the first route check
+// sees them
 const rootElement = document.getElementById("app");
 if (rootElement && !rootElement.innerHTML) {
-	const root = ReactDOM.createRoot(rootElement);
-	root.render(
-		<StrictMode>
-			<TanStackQueryProvider.Provider {...TanStackQueryProviderContext}>
-				<RouterProvider router={router} />
-			</TanStackQueryProvider.Provider>
-		</StrictMode>,
-	);
+	initializeAuth().finally(() => {
+		const root = ReactDOM.createRoot(rootElement);
+		root.render(
+			<StrictMode>
+				<TanStackQueryProvider.Provider {...TanStackQueryProviderContext}>
+					<RouterProvider router={router} />
+				</TanStackQueryProvider.Provider>
+			</StrictMode>,
+		);
+	});
 }
 
 // If you want to start measuring performance in your app, pass a function
@@ -9,44 +9,58 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
-import { Route as AppRouteRouteImport } from './routes/app/route'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as AppRouteRouteImport } from './routes/app/route'
 import { Route as AppIndexRouteImport } from './routes/app/index'
-import { Route as AppSongsRouteImport } from './routes/app/songs'
-import { Route as AppSettingsRouteImport } from './routes/app/settings'
+import { Route as AppActivityRouteImport } from './routes/app/activity'
+import { Route as AppBookmarksRouteImport } from './routes/app/bookmarks'
+import { Route as AppRadioRouteImport } from './routes/app/radio'
 import { Route as AppSearchRouteImport } from './routes/app/search'
-import { Route as AppPlaylistsIndexRouteImport } from './routes/app/playlists/index'
-import { Route as AppGenresIndexRouteImport } from './routes/app/genres/index'
-import { Route as AppArtistsIndexRouteImport } from './routes/app/artists/index'
+import { Route as AppSettingsRouteImport } from './routes/app/settings'
+import { Route as AppSharesRouteImport } from './routes/app/shares'
+import { Route as AppSongsRouteImport } from './routes/app/songs'
+import { Route as AppAdminUsersRouteImport } from './routes/app/admin/users'
 import { Route as AppAlbumsIndexRouteImport } from './routes/app/albums/index'
-import { Route as AppPlaylistsPlaylistIdRouteImport } from './routes/app/playlists/$playlistId'
-import { Route as AppGenresGenreNameRouteImport } from './routes/app/genres/$genreName'
-import { Route as AppArtistsArtistIdRouteImport } from './routes/app/artists/$artistId'
 import { Route as AppAlbumsAlbumIdRouteImport } from './routes/app/albums/$albumId'
+import { Route as AppArtistsIndexRouteImport } from './routes/app/artists/index'
+import { Route as AppArtistsArtistIdRouteImport } from './routes/app/artists/$artistId'
+import { Route as AppFoldersIndexRouteImport } from './routes/app/folders/index'
+import { Route as AppFoldersFolderIdRouteImport } from './routes/app/folders/$folderId'
+import { Route as AppGenresIndexRouteImport } from './routes/app/genres/index'
+import { Route as AppGenresGenreNameRouteImport } from './routes/app/genres/$genreName'
+import { Route as AppPlaylistsIndexRouteImport } from './routes/app/playlists/index'
+import { Route as AppPlaylistsPlaylistIdRouteImport } from './routes/app/playlists/$playlistId'
+import { Route as AppPodcastsIndexRouteImport } from './routes/app/podcasts/index'
+import { Route as AppPodcastsChannelIdRouteImport } from './routes/app/podcasts/$channelId'
 
-const AppRouteRoute = AppRouteRouteImport.update({
-  id: '/app',
-  path: '/app',
-  getParentRoute: () => rootRouteImport,
-} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AppRouteRoute = AppRouteRouteImport.update({
+  id: '/app',
+  path: '/app',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AppIndexRoute = AppIndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppSongsRoute = AppSongsRouteImport.update({
-  id: '/songs',
-  path: '/songs',
+const AppActivityRoute = AppActivityRouteImport.update({
+  id: '/activity',
+  path: '/activity',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppSettingsRoute = AppSettingsRouteImport.update({
-  id: '/settings',
-  path: '/settings',
+const AppBookmarksRoute = AppBookmarksRouteImport.update({
+  id: '/bookmarks',
+  path: '/bookmarks',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppRadioRoute = AppRadioRouteImport.update({
+  id: '/radio',
+  path: '/radio',
   getParentRoute: () => AppRouteRoute,
 } as any)
 const AppSearchRoute = AppSearchRouteImport.update({
@@ -54,19 +68,24 @@ const AppSearchRoute = AppSearchRouteImport.update({
   path: '/search',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppPlaylistsIndexRoute = AppPlaylistsIndexRouteImport.update({
-  id: '/playlists/',
-  path: '/playlists/',
+const AppSettingsRoute = AppSettingsRouteImport.update({
+  id: '/settings',
+  path: '/settings',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppGenresIndexRoute = AppGenresIndexRouteImport.update({
-  id: '/genres/',
-  path: '/genres/',
+const AppSharesRoute = AppSharesRouteImport.update({
+  id: '/shares',
+  path: '/shares',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppArtistsIndexRoute = AppArtistsIndexRouteImport.update({
-  id: '/artists/',
-  path: '/artists/',
+const AppSongsRoute = AppSongsRouteImport.update({
+  id: '/songs',
+  path: '/songs',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppAdminUsersRoute = AppAdminUsersRouteImport.update({
+  id: '/admin/users',
+  path: '/admin/users',
   getParentRoute: () => AppRouteRoute,
 } as any)
 const AppAlbumsIndexRoute = AppAlbumsIndexRouteImport.update({
@@ -74,14 +93,14 @@ const AppAlbumsIndexRoute = AppAlbumsIndexRouteImport.update({
   path: '/albums/',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppPlaylistsPlaylistIdRoute = AppPlaylistsPlaylistIdRouteImport.update({
-  id: '/playlists/$playlistId',
-  path: '/playlists/$playlistId',
+const AppAlbumsAlbumIdRoute = AppAlbumsAlbumIdRouteImport.update({
+  id: '/albums/$albumId',
+  path: '/albums/$albumId',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppGenresGenreNameRoute = AppGenresGenreNameRouteImport.update({
-  id: '/genres/$genreName',
-  path: '/genres/$genreName',
+const AppArtistsIndexRoute = AppArtistsIndexRouteImport.update({
+  id: '/artists/',
+  path: '/artists/',
   getParentRoute: () => AppRouteRoute,
 } as any)
 const AppArtistsArtistIdRoute = AppArtistsArtistIdRouteImport.update({
@@ -89,108 +108,197 @@ const AppArtistsArtistIdRoute = AppArtistsArtistIdRouteImport.update({
   path: '/artists/$artistId',
   getParentRoute: () => AppRouteRoute,
 } as any)
-const AppAlbumsAlbumIdRoute = AppAlbumsAlbumIdRouteImport.update({
-  id: '/albums/$albumId',
-  path: '/albums/$albumId',
+const AppFoldersIndexRoute = AppFoldersIndexRouteImport.update({
+  id: '/folders/',
+  path: '/folders/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppFoldersFolderIdRoute = AppFoldersFolderIdRouteImport.update({
+  id: '/folders/$folderId',
+  path: '/folders/$folderId',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppGenresIndexRoute = AppGenresIndexRouteImport.update({
+  id: '/genres/',
+  path: '/genres/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppGenresGenreNameRoute = AppGenresGenreNameRouteImport.update({
+  id: '/genres/$genreName',
+  path: '/genres/$genreName',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppPlaylistsIndexRoute = AppPlaylistsIndexRouteImport.update({
+  id: '/playlists/',
+  path: '/playlists/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppPlaylistsPlaylistIdRoute = AppPlaylistsPlaylistIdRouteImport.update({
+  id: '/playlists/$playlistId',
+  path: '/playlists/$playlistId',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppPodcastsIndexRoute = AppPodcastsIndexRouteImport.update({
+  id: '/podcasts/',
+  path: '/podcasts/',
+  getParentRoute: () => AppRouteRoute,
+} as any)
+const AppPodcastsChannelIdRoute = AppPodcastsChannelIdRouteImport.update({
+  id: '/podcasts/$channelId',
+  path: '/podcasts/$channelId',
   getParentRoute: () => AppRouteRoute,
 } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/app': typeof AppRouteRouteWithChildren
+  '/app/activity': typeof AppActivityRoute
+  '/app/bookmarks': typeof AppBookmarksRoute
+  '/app/radio': typeof AppRadioRoute
   '/app/search': typeof AppSearchRoute
   '/app/settings': typeof AppSettingsRoute
+  '/app/shares': typeof AppSharesRoute
   '/app/songs': typeof AppSongsRoute
   '/app/': typeof AppIndexRoute
+  '/app/admin/users': typeof AppAdminUsersRoute
   '/app/albums/$albumId': typeof AppAlbumsAlbumIdRoute
   '/app/artists/$artistId': typeof AppArtistsArtistIdRoute
+  '/app/folders/$folderId': typeof AppFoldersFolderIdRoute
   '/app/genres/$genreName': typeof AppGenresGenreNameRoute
   '/app/playlists/$playlistId': typeof AppPlaylistsPlaylistIdRoute
-  '/app/albums': typeof AppAlbumsIndexRoute
-  '/app/artists': typeof AppArtistsIndexRoute
-  '/app/genres': typeof AppGenresIndexRoute
-  '/app/playlists': typeof AppPlaylistsIndexRoute
+  '/app/podcasts/$channelId': typeof AppPodcastsChannelIdRoute
+  '/app/albums/': typeof AppAlbumsIndexRoute
+  '/app/artists/': typeof AppArtistsIndexRoute
+  '/app/folders/': typeof AppFoldersIndexRoute
+  '/app/genres/': typeof AppGenresIndexRoute
+  '/app/playlists/': typeof AppPlaylistsIndexRoute
+  '/app/podcasts/': typeof AppPodcastsIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/app/activity': typeof AppActivityRoute
+  '/app/bookmarks': typeof AppBookmarksRoute
+  '/app/radio': typeof AppRadioRoute
   '/app/search': typeof AppSearchRoute
   '/app/settings': typeof AppSettingsRoute
+  '/app/shares': typeof AppSharesRoute
   '/app/songs': typeof AppSongsRoute
   '/app': typeof AppIndexRoute
+  '/app/admin/users': typeof AppAdminUsersRoute
   '/app/albums/$albumId': typeof AppAlbumsAlbumIdRoute
   '/app/artists/$artistId': typeof AppArtistsArtistIdRoute
+  '/app/folders/$folderId': typeof AppFoldersFolderIdRoute
   '/app/genres/$genreName': typeof AppGenresGenreNameRoute
   '/app/playlists/$playlistId': typeof AppPlaylistsPlaylistIdRoute
+  '/app/podcasts/$channelId': typeof AppPodcastsChannelIdRoute
   '/app/albums': typeof AppAlbumsIndexRoute
   '/app/artists': typeof AppArtistsIndexRoute
+  '/app/folders': typeof AppFoldersIndexRoute
   '/app/genres': typeof AppGenresIndexRoute
   '/app/playlists': typeof AppPlaylistsIndexRoute
+  '/app/podcasts': typeof AppPodcastsIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/app': typeof AppRouteRouteWithChildren
+  '/app/activity': typeof AppActivityRoute
+  '/app/bookmarks': typeof AppBookmarksRoute
+  '/app/radio': typeof AppRadioRoute
   '/app/search': typeof AppSearchRoute
   '/app/settings': typeof AppSettingsRoute
+  '/app/shares': typeof AppSharesRoute
   '/app/songs': typeof AppSongsRoute
   '/app/': typeof AppIndexRoute
+  '/app/admin/users': typeof AppAdminUsersRoute
   '/app/albums/$albumId': typeof AppAlbumsAlbumIdRoute
   '/app/artists/$artistId': typeof AppArtistsArtistIdRoute
+  '/app/folders/$folderId': typeof AppFoldersFolderIdRoute
   '/app/genres/$genreName': typeof AppGenresGenreNameRoute
   '/app/playlists/$playlistId': typeof AppPlaylistsPlaylistIdRoute
+  '/app/podcasts/$channelId': typeof AppPodcastsChannelIdRoute
   '/app/albums/': typeof AppAlbumsIndexRoute
   '/app/artists/': typeof AppArtistsIndexRoute
+  '/app/folders/': typeof AppFoldersIndexRoute
   '/app/genres/': typeof AppGenresIndexRoute
   '/app/playlists/': typeof AppPlaylistsIndexRoute
+  '/app/podcasts/': typeof AppPodcastsIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
     | '/app'
+    | '/app/activity'
+    | '/app/bookmarks'
+    | '/app/radio'
     | '/app/search'
     | '/app/settings'
+    | '/app/shares'
     | '/app/songs'
     | '/app/'
+    | '/app/admin/users'
     | '/app/albums/$albumId'
     | '/app/artists/$artistId'
+    | '/app/folders/$folderId'
     | '/app/genres/$genreName'
     | '/app/playlists/$playlistId'
-    | '/app/albums'
-    | '/app/artists'
-    | '/app/genres'
-    | '/app/playlists'
+    | '/app/podcasts/$channelId'
+    | '/app/albums/'
+    | '/app/artists/'
+    | '/app/folders/'
+    | '/app/genres/'
+    | '/app/playlists/'
+    | '/app/podcasts/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/app/activity'
+    | '/app/bookmarks'
+    | '/app/radio'
     | '/app/search'
     | '/app/settings'
+    | '/app/shares'
     | '/app/songs'
     | '/app'
+    | '/app/admin/users'
     | '/app/albums/$albumId'
     | '/app/artists/$artistId'
+    | '/app/folders/$folderId'
     | '/app/genres/$genreName'
     | '/app/playlists/$playlistId'
+    | '/app/podcasts/$channelId'
     | '/app/albums'
     | '/app/artists'
+    | '/app/folders'
     | '/app/genres'
     | '/app/playlists'
+    | '/app/podcasts'
   id:
     | '__root__'
     | '/'
     | '/app'
+    | '/app/activity'
+    | '/app/bookmarks'
+    | '/app/radio'
     | '/app/search'
     | '/app/settings'
+    | '/app/shares'
     | '/app/songs'
     | '/app/'
+    | '/app/admin/users'
     | '/app/albums/$albumId'
     | '/app/artists/$artistId'
+    | '/app/folders/$folderId'
     | '/app/genres/$genreName'
     | '/app/playlists/$playlistId'
+    | '/app/podcasts/$channelId'
     | '/app/albums/'
     | '/app/artists/'
+    | '/app/folders/'
     | '/app/genres/'
     | '/app/playlists/'
+    | '/app/podcasts/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -200,13 +308,6 @@ export interface RootRouteChildren {
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
-    '/app': {
-      id: '/app'
-      path: '/app'
-      fullPath: '/app'
-      preLoaderRoute: typeof AppRouteRouteImport
-      parentRoute: typeof rootRouteImport
-    }
     '/': {
       id: '/'
       path: '/'
@@ -214,6 +315,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/app': {
+      id: '/app'
+      path: '/app'
+      fullPath: '/app'
+      preLoaderRoute: typeof AppRouteRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/app/': {
       id: '/app/'
       path: '/'
@@ -221,18 +329,25 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppIndexRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/songs': {
-      id: '/app/songs'
-      path: '/songs'
-      fullPath: '/app/songs'
-      preLoaderRoute: typeof AppSongsRouteImport
+    '/app/activity': {
+      id: '/app/activity'
+      path: '/activity'
+      fullPath: '/app/activity'
+      preLoaderRoute: typeof AppActivityRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/settings': {
-      id: '/app/settings'
-      path: '/settings'
-      fullPath: '/app/settings'
-      preLoaderRoute: typeof AppSettingsRouteImport
+    '/app/bookmarks': {
+      id: '/app/bookmarks'
+      path: '/bookmarks'
+      fullPath: '/app/bookmarks'
+      preLoaderRoute: typeof AppBookmarksRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/radio': {
+      id: '/app/radio'
+      path: '/radio'
+      fullPath: '/app/radio'
+      preLoaderRoute: typeof AppRadioRouteImport
       parentRoute: typeof AppRouteRoute
     }
     '/app/search': {
@@ -242,46 +357,53 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppSearchRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/playlists/': {
-      id: '/app/playlists/'
-      path: '/playlists'
-      fullPath: '/app/playlists'
-      preLoaderRoute: typeof AppPlaylistsIndexRouteImport
+    '/app/settings': {
+      id: '/app/settings'
+      path: '/settings'
+      fullPath: '/app/settings'
+      preLoaderRoute: typeof AppSettingsRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/genres/': {
-      id: '/app/genres/'
-      path: '/genres'
-      fullPath: '/app/genres'
-      preLoaderRoute: typeof AppGenresIndexRouteImport
+    '/app/shares': {
+      id: '/app/shares'
+      path: '/shares'
+      fullPath: '/app/shares'
+      preLoaderRoute: typeof AppSharesRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/artists/': {
-      id: '/app/artists/'
-      path: '/artists'
-      fullPath: '/app/artists'
-      preLoaderRoute: typeof AppArtistsIndexRouteImport
+    '/app/songs': {
+      id: '/app/songs'
+      path: '/songs'
+      fullPath: '/app/songs'
+      preLoaderRoute: typeof AppSongsRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/admin/users': {
+      id: '/app/admin/users'
+      path: '/admin/users'
+      fullPath: '/app/admin/users'
+      preLoaderRoute: typeof AppAdminUsersRouteImport
       parentRoute: typeof AppRouteRoute
     }
     '/app/albums/': {
       id: '/app/albums/'
       path: '/albums'
-      fullPath: '/app/albums'
+      fullPath: '/app/albums/'
       preLoaderRoute: typeof AppAlbumsIndexRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/playlists/$playlistId': {
-      id: '/app/playlists/$playlistId'
-      path: '/playlists/$playlistId'
-      fullPath: '/app/playlists/$playlistId'
-      preLoaderRoute: typeof AppPlaylistsPlaylistIdRouteImport
+    '/app/albums/$albumId': {
+      id: '/app/albums/$albumId'
+      path: '/albums/$albumId'
+      fullPath: '/app/albums/$albumId'
+      preLoaderRoute: typeof AppAlbumsAlbumIdRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/genres/$genreName': {
-      id: '/app/genres/$genreName'
-      path: '/genres/$genreName'
-      fullPath: '/app/genres/$genreName'
-      preLoaderRoute: typeof AppGenresGenreNameRouteImport
+    '/app/artists/': {
+      id: '/app/artists/'
+      path: '/artists'
+      fullPath: '/app/artists/'
+      preLoaderRoute: typeof AppArtistsIndexRouteImport
       parentRoute: typeof AppRouteRoute
     }
     '/app/artists/$artistId': {
@@ -291,44 +413,111 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppArtistsArtistIdRouteImport
       parentRoute: typeof AppRouteRoute
     }
-    '/app/albums/$albumId': {
-      id: '/app/albums/$albumId'
-      path: '/albums/$albumId'
-      fullPath: '/app/albums/$albumId'
-      preLoaderRoute: typeof AppAlbumsAlbumIdRouteImport
+    '/app/folders/': {
+      id: '/app/folders/'
+      path: '/folders'
+      fullPath: '/app/folders/'
+      preLoaderRoute: typeof AppFoldersIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/folders/$folderId': {
+      id: '/app/folders/$folderId'
+      path: '/folders/$folderId'
+      fullPath: '/app/folders/$folderId'
+      preLoaderRoute: typeof AppFoldersFolderIdRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/genres/': {
+      id: '/app/genres/'
+      path: '/genres'
+      fullPath: '/app/genres/'
+      preLoaderRoute: typeof AppGenresIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/genres/$genreName': {
+      id: '/app/genres/$genreName'
+      path: '/genres/$genreName'
+      fullPath: '/app/genres/$genreName'
+      preLoaderRoute: typeof AppGenresGenreNameRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/playlists/': {
+      id: '/app/playlists/'
+      path: '/playlists'
+      fullPath: '/app/playlists/'
+      preLoaderRoute: typeof AppPlaylistsIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/playlists/$playlistId': {
+      id: '/app/playlists/$playlistId'
+      path: '/playlists/$playlistId'
+      fullPath: '/app/playlists/$playlistId'
+      preLoaderRoute: typeof AppPlaylistsPlaylistIdRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/podcasts/': {
+      id: '/app/podcasts/'
+      path: '/podcasts'
+      fullPath: '/app/podcasts/'
+      preLoaderRoute: typeof AppPodcastsIndexRouteImport
+      parentRoute: typeof AppRouteRoute
+    }
+    '/app/podcasts/$channelId': {
+      id: '/app/podcasts/$channelId'
+      path: '/podcasts/$channelId'
+      fullPath: '/app/podcasts/$channelId'
+      preLoaderRoute: typeof AppPodcastsChannelIdRouteImport
       parentRoute: typeof AppRouteRoute
     }
   }
 }
 
 interface AppRouteRouteChildren {
+  AppActivityRoute: typeof AppActivityRoute
+  AppBookmarksRoute: typeof AppBookmarksRoute
+  AppRadioRoute: typeof AppRadioRoute
   AppSearchRoute: typeof AppSearchRoute
   AppSettingsRoute: typeof AppSettingsRoute
+  AppSharesRoute: typeof AppSharesRoute
   AppSongsRoute: typeof AppSongsRoute
   AppIndexRoute: typeof AppIndexRoute
+  AppAdminUsersRoute: typeof AppAdminUsersRoute
   AppAlbumsAlbumIdRoute: typeof AppAlbumsAlbumIdRoute
   AppArtistsArtistIdRoute: typeof AppArtistsArtistIdRoute
+  AppFoldersFolderIdRoute: typeof AppFoldersFolderIdRoute
   AppGenresGenreNameRoute: typeof AppGenresGenreNameRoute
   AppPlaylistsPlaylistIdRoute: typeof AppPlaylistsPlaylistIdRoute
+  AppPodcastsChannelIdRoute: typeof AppPodcastsChannelIdRoute
   AppAlbumsIndexRoute: typeof AppAlbumsIndexRoute
   AppArtistsIndexRoute: typeof AppArtistsIndexRoute
+  AppFoldersIndexRoute: typeof AppFoldersIndexRoute
   AppGenresIndexRoute: typeof AppGenresIndexRoute
   AppPlaylistsIndexRoute: typeof AppPlaylistsIndexRoute
+  AppPodcastsIndexRoute: typeof AppPodcastsIndexRoute
 }
 
 const AppRouteRouteChildren: AppRouteRouteChildren = {
+  AppActivityRoute: AppActivityRoute,
+  AppBookmarksRoute: AppBookmarksRoute,
+  AppRadioRoute: AppRadioRoute,
   AppSearchRoute: AppSearchRoute,
   AppSettingsRoute: AppSettingsRoute,
+  AppSharesRoute: AppSharesRoute,
   AppSongsRoute: AppSongsRoute,
   AppIndexRoute: AppIndexRoute,
+  AppAdminUsersRoute: AppAdminUsersRoute,
   AppAlbumsAlbumIdRoute: AppAlbumsAlbumIdRoute,
   AppArtistsArtistIdRoute: AppArtistsArtistIdRoute,
+  AppFoldersFolderIdRoute: AppFoldersFolderIdRoute,
   AppGenresGenreNameRoute: AppGenresGenreNameRoute,
   AppPlaylistsPlaylistIdRoute: AppPlaylistsPlaylistIdRoute,
+  AppPodcastsChannelIdRoute: AppPodcastsChannelIdRoute,
   AppAlbumsIndexRoute: AppAlbumsIndexRoute,
   AppArtistsIndexRoute: AppArtistsIndexRoute,
+  AppFoldersIndexRoute: AppFoldersIndexRoute,
   AppGenresIndexRoute: AppGenresIndexRoute,
   AppPlaylistsIndexRoute: AppPlaylistsIndexRoute,
+  AppPodcastsIndexRoute: AppPodcastsIndexRoute,
 }
 
 const AppRouteRouteWithChildren = AppRouteRoute._addFileChildren(
@@ -0,0 +1,199 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { Activity, Disc3, Music, Play, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { ArtistLinks } from "@/components/ArtistLinks";
+import { Button } from "@/components/ui/button";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+	getArtistCredits,
+	getNowPlaying,
+	type NowPlayingEntry,
+} from "@/lib/api";
+import { getTrackCoverUrl, playSong, usePlayer } from "@/lib/player";
+import { cn } from "@/lib/utils";
+
+export const Route = createFileRoute("/app/activity")({
+	component: ActivityPage,
+});
+
+// Subsonic has no push updates, so poll while the page is open
+const POLL_INTERVAL = 10 * 1000;
+const OWN_PLAY_REFRESH_DELAY = 2000;
+
+function formatMinutesAgo(minutes?: number): string {
+	if (!minutes) return "Just now";
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.floor(minutes / 60);
+	return `${hours} hour${hours !== 1 ? "s" : ""} ago`;
+}
+
+function EntryCover({ entry }: { entry: NowPlayingEntry }) {
+	const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (entry.coverArt) {
+			getTrackCoverUrl(entry.coverArt, 100).then(setCoverUrl);
+		}
+	}, [entry.coverArt]);
+
+	if (coverUrl) {
+		return (
+			<img
+				src={coverUrl}
+				alt={entry.album ?? entry.title}
+				className="w-12 h-12 rounded object-cover flex-shrink-0"
+			/>
+		);
+	}
+
+	return (
+		<div className="w-12 h-12 rounded bg-muted flex items-center justify-center flex-shrink-0">
+			<Music className="w-5 h-5 text-muted-foreground" />
+		</div>
+	);
+}
+
+function ActivityPage() {
+	const queryClient = useQueryClient();
+	const { user } = useCurrentUser();
+	const { currentTrack } = usePlayer();
+
+	const {
+		data: entries,
+		isLoading,
+		isFetching,
+		refetch,
+	} = useQuery({
+		queryKey: ["nowPlaying"],
+		queryFn: ({ signal }) => getNowPlaying({ signal }),
+		refetchInterval: POLL_INTERVAL,
+	});
+
+	// Our own plays are the one change we hear about directly, so show them
+	// without waiting for the next poll. The server only registers a track once
+	// it starts streaming, hence the short delay.
+	const currentTrackId = currentTrack?.id;
+	useEffect(() => {
+		if (!currentTrackId) return;
+		const timeout = setTimeout(() => {
+			queryClient.invalidateQueries({ queryKey: ["nowPlaying"] });
+		}, OWN_PLAY_REFRESH_DELAY);
+		return () => clearTimeout(timeout);
+	}, [currentTrackId, queryClient]);
+
+	// Most recent first
+	const sortedEntries = [...(entries ?? [])].sort(
+		(a, b) => (a.minutesAgo ?? 0) - (b.minutesAgo ?? 0),
+	);
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div className="flex items-start justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Activity</h1>
+					<p className="text-muted-foreground mt-1">
+						What everyone on this server is listening to
+					</p>
+				</div>
+				<Button
+					variant="outline"
+					size="icon"
+					onClick={() => refetch()}
+					disabled={isFetching}
+					title="Refresh"
+				>
+					<RefreshCw className={cn("w-4 h-4", isFetching && "animate-spin")} />
+				</Button>
+			</div>
+
+			{isLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 3 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-16 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : sortedEntries.length === 0 ? (
+				<div className="text-center py-12">
+					<Activity className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">Nobody is listening right now</p>
+					<p className="text-sm text-muted-foreground mt-1">
+						This page updates automatically
+					</p>
+				</div>
+			) : (
+				<div className="divide-y rounded-lg border">
+					{sortedEntries.map((entry) => {
+						const isMe = !!user && entry.username === user.username;
+						const artists = getArtistCredits(entry);
+						return (
+							<div
+								key={`${entry.username}-${entry.playerId}-${entry.id}`}
+								className="flex items-center gap-3 px-3 py-2"
+							>
+								<EntryCover entry={entry} />
+								<div className="min-w-0 flex-1 space-y-0.5">
+									<p className="text-sm font-medium truncate">{entry.title}</p>
+									<p className="text-xs text-muted-foreground truncate">
+										{artists.length > 0 && (
+											<ArtistLinks
+												artists={artists}
+												linkClassName="hover:text-foreground"
+											/>
+										)}
+										{artists.length > 0 && entry.album && " • "}
+										{entry.album}
+									</p>
+									<p className="text-xs text-muted-foreground truncate">
+										<span
+											className={cn(
+												"font-medium",
+												isMe ? "text-primary" : "text-foreground",
+											)}
+										>
+											{isMe ? "You" : (entry.username ?? "Unknown user")}
+										</span>
+										{entry.playerName && ` on ${entry.playerName}`}
+										{" • "}
+										{formatMinutesAgo(entry.minutesAgo)}
+									</p>
+								</div>
+								{entry.albumId && (
+									<Button
+										variant="ghost"
+										size="icon"
+										asChild
+										title="Go to album"
+									>
+										<Link
+											to="/app/albums/$albumId"
+											params={{ albumId: entry.albumId }}
+										>
+											<Disc3 className="w-4 h-4" />
+										</Link>
+									</Button>
+								)}
+								<Button
+									variant="outline"
+									size="sm"
+									className="gap-2"
+									onClick={() => playSong(entry)}
+									disabled={currentTrackId === entry.id}
+								>
+									<Play className="w-4 h-4" />
+									<span className="hidden sm:inline">Play this too</span>
+								</Button>
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+}
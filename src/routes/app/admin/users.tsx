@@ -0,0 +1,465 @@
+import { useForm } from "@tanstack/react-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import {
+	KeyRound,
+	Loader2,
+	ShieldAlert,
+	Trash2,
+	UserPlus,
+	Users,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import * as v from "valibot";
+
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+	createUser,
+	deleteUser,
+	getUsers,
+	type User,
+	type UserRole,
+	type UserRoles,
+	updateUser,
+} from "@/lib/api";
+
+const ROLES: { role: UserRole; label: string }[] = [
+	{ role: "adminRole", label: "Admin" },
+	{ role: "settingsRole", label: "Settings" },
+	{ role: "streamRole", label: "Stream" },
+	{ role: "downloadRole", label: "Download" },
+	{ role: "uploadRole", label: "Upload" },
+	{ role: "playlistRole", label: "Playlists" },
+	{ role: "coverArtRole", label: "Cover art" },
+	{ role: "commentRole", label: "Comments" },
+	{ role: "podcastRole", label: "Podcasts" },
+	{ role: "shareRole", label: "Sharing" },
+	{ role: "jukeboxRole", label: "Jukebox" },
+];
+
+// What a new account can do unless changed
+const DEFAULT_ROLES: UserRoles = {
+	settingsRole: true,
+	streamRole: true,
+	downloadRole: true,
+	playlistRole: true,
+	coverArtRole: true,
+	commentRole: true,
+};
+
+const userSchema = v.object({
+	username: v.pipe(
+		v.string(),
+		v.trim(),
+		v.nonEmpty("Username is required"),
+		v.regex(/^\S+$/, "Username can't contain spaces"),
+	),
+	email: v.pipe(
+		v.string(),
+		v.trim(),
+		v.nonEmpty("Email is required"),
+		v.email("Please enter a valid email address"),
+	),
+	password: v.pipe(v.string(), v.nonEmpty("Password is required")),
+});
+
+export const Route = createFileRoute("/app/admin/users")({
+	component: UsersPage,
+});
+
+interface RoleToggleProps {
+	label: string;
+	checked: boolean;
+	disabled?: boolean;
+	onChange: (checked: boolean) => void;
+}
+
+function RoleToggle({ label, checked, disabled, onChange }: RoleToggleProps) {
+	return (
+		<label className="flex items-center gap-2 text-sm">
+			<input
+				type="checkbox"
+				className="size-4 accent-primary"
+				checked={checked}
+				disabled={disabled}
+				onChange={(e) => onChange(e.target.checked)}
+			/>
+			{label}
+		</label>
+	);
+}
+
+interface CreateUserDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function CreateUserDialog({ open, onOpenChange }: CreateUserDialogProps) {
+	const queryClient = useQueryClient();
+	const [roles, setRoles] = useState<UserRoles>(DEFAULT_ROLES);
+
+	const createMutation = useMutation({
+		mutationFn: (value: v.InferOutput<typeof userSchema>) =>
+			createUser({ ...value, ...roles }),
+		onSuccess: (_, value) => {
+			queryClient.invalidateQueries({ queryKey: ["users"] });
+			handleOpenChange(false);
+			toast.success(`Created ${value.username}`);
+		},
+		onError: (error) => {
+			toast.error(`Failed to create user: ${error.message}`);
+		},
+	});
+
+	const form = useForm({
+		defaultValues: {
+			username: "",
+			email: "",
+			password: "",
+		},
+		validators: {
+			onSubmit: userSchema,
+		},
+		onSubmit: async ({ value }) => {
+			createMutation.mutate(v.parse(userSchema, value));
+		},
+	});
+
+	const handleOpenChange = (isOpen: boolean) => {
+		onOpenChange(isOpen);
+		if (!isOpen) {
+			form.reset();
+			setRoles(DEFAULT_ROLES);
+		}
+	};
+
+	const fields = [
+		{ name: "username", label: "Username", type: "text" },
+		{ name: "email", label: "Email", type: "email" },
+		{ name: "password", label: "Password", type: "password" },
+	] as const;
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Add User</DialogTitle>
+					<DialogDescription>
+						Create an account on this server.
+					</DialogDescription>
+				</DialogHeader>
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						e.stopPropagation();
+						form.handleSubmit();
+					}}
+					className="space-y-4"
+				>
+					{fields.map(({ name, label, type }) => (
+						<form.Field key={name} name={name}>
+							{(field) => (
+								<Field data-invalid={field.state.meta.errors.length > 0}>
+									<FieldLabel htmlFor={field.name}>{label}</FieldLabel>
+									<Input
+										id={field.name}
+										type={type}
+										autoComplete={type === "password" ? "new-password" : "off"}
+										value={field.state.value}
+										onChange={(e) => field.handleChange(e.target.value)}
+										autoFocus={name === "username"}
+									/>
+									{field.state.meta.errors.length > 0 && (
+										<FieldError
+											errors={field.state.meta.errors.map((err) => ({
+												message: typeof err === "string" ? err : err?.message,
+											}))}
+										/>
+									)}
+								</Field>
+							)}
+						</form.Field>
+					))}
+					<div className="space-y-2">
+						<p className="text-sm font-medium">Permissions</p>
+						<div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+							{ROLES.map(({ role, label }) => (
+								<RoleToggle
+									key={role}
+									label={label}
+									checked={!!roles[role]}
+									onChange={(checked) =>
+										setRoles((prev) => ({ ...prev, [role]: checked }))
+									}
+								/>
+							))}
+						</div>
+					</div>
+					<DialogFooter className="mt-6">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => handleOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={createMutation.isPending}>
+							{createMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Creating...
+								</>
+							) : (
+								"Add User"
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function UsersPage() {
+	const queryClient = useQueryClient();
+	const {
+		user: currentUser,
+		isAdmin,
+		isLoading: isUserLoading,
+	} = useCurrentUser();
+	const [createDialogOpen, setCreateDialogOpen] = useState(false);
+	const [passwordUser, setPasswordUser] = useState<User | null>(null);
+	const [deletingUser, setDeletingUser] = useState<User | null>(null);
+
+	const { data: users, isLoading } = useQuery({
+		queryKey: ["users"],
+		queryFn: ({ signal }) => getUsers({ signal }),
+		enabled: isAdmin,
+	});
+
+	const roleMutation = useMutation({
+		mutationFn: ({
+			username,
+			role,
+			value,
+		}: {
+			username: string;
+			role: UserRole;
+			value: boolean;
+		}) => updateUser({ username, [role]: value }),
+		onSuccess: (_, { username }) => {
+			queryClient.invalidateQueries({ queryKey: ["users"] });
+			queryClient.invalidateQueries({ queryKey: ["user", username] });
+		},
+		onError: () => {
+			toast.error("Failed to update permissions");
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (username: string) => deleteUser(username),
+		onSuccess: (_, username) => {
+			queryClient.invalidateQueries({ queryKey: ["users"] });
+			setDeletingUser(null);
+			toast.success(`Deleted ${username}`);
+		},
+		onError: () => {
+			toast.error("Failed to delete user");
+		},
+	});
+
+	if (!isUserLoading && !isAdmin) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<ShieldAlert className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">
+						Only server administrators can manage users
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	// Sort for a stable order while toggles refetch the list
+	const sortedUsers = [...(users ?? [])].sort((a, b) =>
+		a.username.localeCompare(b.username),
+	);
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Users</h1>
+					<p className="text-muted-foreground mt-1">
+						{users?.length ?? 0} user{users?.length !== 1 ? "s" : ""}
+					</p>
+				</div>
+				<Button
+					onClick={() => setCreateDialogOpen(true)}
+					className="gap-2"
+					disabled={!isAdmin}
+				>
+					<UserPlus className="w-4 h-4" />
+					Add User
+				</Button>
+			</div>
+
+			{isLoading || isUserLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 3 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-28 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : sortedUsers.length === 0 ? (
+				<div className="text-center py-12">
+					<Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">No users found</p>
+				</div>
+			) : (
+				<div className="divide-y rounded-lg border">
+					{sortedUsers.map((user) => {
+						const isSelf = user.username === currentUser?.username;
+						const isUpdating =
+							roleMutation.isPending &&
+							roleMutation.variables?.username === user.username;
+						return (
+							<div key={user.username} className="p-4 space-y-3">
+								<div className="flex items-center gap-3">
+									<div className="min-w-0 flex-1">
+										<p className="font-medium truncate">
+											{user.username}
+											{isSelf && (
+												<span className="text-muted-foreground font-normal">
+													{" "}
+													(you)
+												</span>
+											)}
+										</p>
+										{user.email && (
+											<p className="text-sm text-muted-foreground truncate">
+												{user.email}
+											</p>
+										)}
+									</div>
+									{isUpdating && (
+										<Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+									)}
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => setPasswordUser(user)}
+										title="Change password"
+									>
+										<KeyRound className="w-4 h-4" />
+									</Button>
+									<Button
+										variant="ghost"
+										size="icon"
+										onClick={() => setDeletingUser(user)}
+										disabled={isSelf}
+										title={
+											isSelf
+												? "You can't delete your own account"
+												: "Delete user"
+										}
+									>
+										<Trash2 className="w-4 h-4" />
+									</Button>
+								</div>
+								<div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+									{ROLES.map(({ role, label }) => (
+										<RoleToggle
+											key={role}
+											label={label}
+											checked={!!user[role]}
+											// Removing your own admin role would lock you out of this page
+											disabled={isUpdating || (isSelf && role === "adminRole")}
+											onChange={(value) =>
+												roleMutation.mutate({
+													username: user.username,
+													role,
+													value,
+												})
+											}
+										/>
+									))}
+								</div>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			<CreateUserDialog
+				open={createDialogOpen}
+				onOpenChange={setCreateDialogOpen}
+			/>
+
+			{passwordUser && (
+				<ChangePasswordDialog
+					key={passwordUser.username}
+					username={passwordUser.username}
+					open
+					onOpenChange={(open) => !open && setPasswordUser(null)}
+				/>
+			)}
+
+			{/* Delete confirmation dialog */}
+			<Dialog
+				open={!!deletingUser}
+				onOpenChange={(open) => !open && setDeletingUser(null)}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Delete User</DialogTitle>
+						<DialogDescription>
+							Are you sure you want to delete "{deletingUser?.username}"? Their
+							playlists, bookmarks and shares may be removed too. This action
+							cannot be undone.
+						</DialogDescription>
+					</DialogHeader>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setDeletingUser(null)}>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							onClick={() =>
+								deletingUser && deleteMutation.mutate(deletingUser.username)
+							}
+							disabled={deleteMutation.isPending}
+						>
+							{deleteMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Deleting...
+								</>
+							) : (
+								"Delete"
+							)}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
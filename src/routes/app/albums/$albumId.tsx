@@ -1,13 +1,38 @@
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { ArrowLeft, Clock, Disc3, Pause, Play, Tag } from "lucide-react";
-import { useEffect, useState } from "react";
+import {
+	ArrowLeft,
+	Clock,
+	Disc3,
+	ExternalLink,
+	Info,
+	Pause,
+	Play,
+	Tag,
+} from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
 import { AddToPlaylistButton } from "@/components/AddToPlaylistButton";
+import { ArtistLinks } from "@/components/ArtistLinks";
+import { GenreLinks } from "@/components/GenreLinks";
 import { MoreByArtist } from "@/components/MoreByArtist";
+import { RatingStars } from "@/components/RatingStars";
 import { SongContextMenu } from "@/components/SongContextMenu";
 import { StarButton } from "@/components/StarButton";
 import { Button } from "@/components/ui/button";
-import { getAlbum, getCoverArtUrl } from "@/lib/api";
+
+import {
+	type Album,
+	type ArtistCredit,
+	getAlbum,
+	getAlbumInfo2,
+	getArtistCredits,
+	getCoverArtUrl,
+	getGenreNames,
+	type ItemDate,
+	type Song,
+} from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { formatDuration, formatSize, stripLastFmHtml } from "@/lib/format";
 import { playAlbum, playSong, usePlayer } from "@/lib/player";
 import { cn } from "@/lib/utils";
 
@@ -15,12 +40,6 @@ export const Route = createFileRoute("/app/albums/$albumId")({
 	component: AlbumDetailPage,
 });
 
-function formatDuration(seconds: number): string {
-	const mins = Math.floor(seconds / 60);
-	const secs = seconds % 60;
-	return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
-
 function formatTotalDuration(seconds: number): string {
 	const hours = Math.floor(seconds / 3600);
 	const mins = Math.floor((seconds % 3600) / 60);
@@ -30,6 +49,156 @@ function formatTotalDuration(seconds: number): string {
 	return `${mins} min`;
 }
 
+// Show as much of a partial date as is known
+function formatItemDate(date?: ItemDate): string | null {
+	if (!date?.year) return null;
+	if (!date.month) return date.year.toString();
+	return new Date(date.year, date.month - 1, date.day ?? 1).toLocaleDateString(
+		undefined,
+		date.day
+			? { year: "numeric", month: "long", day: "numeric" }
+			: { year: "numeric", month: "long" },
+	);
+}
+
+function formatNames(artists: ArtistCredit[]): string {
+	return artists.map((artist) => artist.name).join(", ");
+}
+
+interface Disc {
+	number: number;
+	title?: string;
+	songs: Song[];
+}
+
+// Group songs by disc, keeping the server's order within each disc
+function groupByDisc(album: Album, songs: Song[]): Disc[] {
+	const discs = new Map<number, Disc>();
+	for (const song of songs) {
+		const number = song.discNumber ?? 1;
+		let disc = discs.get(number);
+		if (!disc) {
+			disc = {
+				number,
+				title: album.discTitles?.find((d) => d.disc === number)?.title,
+				songs: [],
+			};
+			discs.set(number, disc);
+		}
+		disc.songs.push(song);
+	}
+	return Array.from(discs.values()).sort((a, b) => a.number - b.number);
+}
+
+function AlbumDetailsPanel({ album, songs }: { album: Album; songs: Song[] }) {
+	const { features } = useServerCapabilities();
+	const [notesExpanded, setNotesExpanded] = useState(false);
+
+	const { data: info } = useQuery({
+		queryKey: ["album-info", album.id],
+		queryFn: ({ signal }) => getAlbumInfo2(album.id, { signal }),
+		enabled: features.albumInfo,
+	});
+
+	const notes = info?.notes ? stripLastFmHtml(info.notes) : "";
+	const musicBrainzId = album.musicBrainzId || info?.musicBrainzId;
+	const totalSize = songs.reduce((acc, song) => acc + (song.size ?? 0), 0);
+	const released = formatItemDate(album.releaseDate);
+	const originallyReleased = formatItemDate(album.originalReleaseDate);
+
+	const details = [
+		{
+			label: album.recordLabels?.length === 1 ? "Label" : "Labels",
+			value: album.recordLabels?.map((l) => l.name).join(", "),
+		},
+		{
+			label: "Release type",
+			value:
+				album.releaseTypes?.join(", ") ||
+				(album.isCompilation ? "Compilation" : undefined),
+		},
+		{ label: "Released", value: released },
+		{
+			// Only worth showing when it differs, e.g. for reissues
+			label: "Original release",
+			value: originallyReleased !== released ? originallyReleased : null,
+		},
+		{ label: "Size", value: totalSize > 0 ? formatSize(totalSize) : null },
+	].filter((detail) => detail.value);
+
+	if (!notes && details.length === 0 && !musicBrainzId && !info?.lastFmUrl) {
+		return null;
+	}
+
+	return (
+		<section className="bg-card rounded-lg border p-4 space-y-4">
+			<div className="flex items-center gap-2">
+				<Info className="w-4 h-4 text-primary" />
+				<h3 className="text-sm font-medium text-foreground">Details</h3>
+			</div>
+
+			{notes && (
+				<div className="max-w-3xl space-y-1">
+					<p
+						className={cn(
+							"text-sm text-muted-foreground whitespace-pre-line",
+							!notesExpanded && "line-clamp-4",
+						)}
+					>
+						{notes}
+					</p>
+					<button
+						type="button"
+						className="text-sm font-medium text-foreground hover:underline"
+						onClick={() => setNotesExpanded((expanded) => !expanded)}
+					>
+						{notesExpanded ? "Show less" : "Show more"}
+					</button>
+				</div>
+			)}
+
+			{details.length > 0 && (
+				<dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+					{details.map((detail) => (
+						<Fragment key={detail.label}>
+							<dt className="text-muted-foreground">{detail.label}</dt>
+							<dd className="text-foreground">{detail.value}</dd>
+						</Fragment>
+					))}
+				</dl>
+			)}
+
+			{(musicBrainzId || info?.lastFmUrl) && (
+				<div className="flex flex-wrap gap-3 text-xs">
+					{musicBrainzId && (
+						<a
+							href={`https://musicbrainz.org/release/${musicBrainzId}`}
+							target="_blank"
+							rel="noreferrer"
+							className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+							title={musicBrainzId}
+						>
+							<ExternalLink className="w-3 h-3" />
+							MusicBrainz
+						</a>
+					)}
+					{info?.lastFmUrl && (
+						<a
+							href={info.lastFmUrl}
+							target="_blank"
+							rel="noreferrer"
+							className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+						>
+							<ExternalLink className="w-3 h-3" />
+							Last.fm
+						</a>
+					)}
+				</div>
+			)}
+		</section>
+	);
+}
+
 function AlbumDetailPage() {
 	const { albumId } = Route.useParams();
 	const [coverUrl, setCoverUrl] = useState<string | null>(null);
@@ -39,7 +208,7 @@ function AlbumDetailPage() {
 
 	const { data, isLoading, error } = useQuery({
 		queryKey: ["album", albumId],
-		queryFn: () => getAlbum(albumId),
+		queryFn: ({ signal }) => getAlbum(albumId, { signal }),
 	});
 
 	useEffect(() => {
@@ -80,7 +249,12 @@ function AlbumDetailPage() {
 		);
 	}
 
-	const { album, songs } = data;
+	const { album } = data;
+	const albumArtists = getArtistCredits(album);
+	const genres = getGenreNames(album);
+	// Play in disc order, so the queue matches the grouped track list
+	const discs = groupByDisc(album, data.songs);
+	const songs = discs.flatMap((disc) => disc.songs);
 	const totalDuration = songs.reduce(
 		(acc, song) => acc + (song.duration || 0),
 		0,
@@ -149,33 +323,23 @@ function AlbumDetailPage() {
 						{album.name}
 					</h1>
 					<div className="flex flex-wrap items-center justify-center md:justify-start gap-2 text-muted-foreground">
-						{album.artistId && album.artist && (
-							<Link
-								to="/app/artists/$artistId"
-								params={{ artistId: album.artistId }}
-								className="font-medium text-foreground hover:text-primary transition-colors"
-							>
-								{album.artist}
-							</Link>
+						{albumArtists.length > 0 && (
+							<ArtistLinks
+								artists={albumArtists}
+								className="font-medium text-foreground"
+								linkClassName="hover:no-underline hover:text-primary transition-colors"
+							/>
 						)}
-						{album.artist && !album.artistId && (
-							<span className="font-medium text-foreground">
-								{album.artist}
-							</span>
-						)}
-						{album.genre && (
+						{genres.length > 0 && (
 							<>
 								<span>•</span>
-								<Link
-									to="/app/genres/$genreName"
-									params={{
-										genreName: encodeURIComponent(album.genre),
-									}}
-									className="flex items-center gap-1 text-foreground hover:text-primary transition-colors"
-								>
+								<span className="flex items-center gap-1 text-foreground">
 									<Tag className="w-3 h-3" />
-									<span>{album.genre}</span>
-								</Link>
+									<GenreLinks
+										genres={genres}
+										linkClassName="hover:no-underline hover:text-primary transition-colors"
+									/>
+								</span>
 							</>
 						)}
 						{album.year && (
@@ -219,6 +383,12 @@ function AlbumDetailPage() {
 							isStarred={!!album.starred}
 							size="lg"
 						/>
+						<RatingStars
+							id={album.id}
+							type="album"
+							rating={album.userRating}
+							size="lg"
+						/>
 					</div>
 				</div>
 			</div>
@@ -236,114 +406,137 @@ function AlbumDetailPage() {
 					</span>
 				</div>
 				<div className="divide-y">
-					{songs.map((song, index) => {
-						const isCurrentTrack = song.id === currentTrack?.id;
-						const isThisTrackPlaying = isCurrentTrack && isPlaying;
-
-						return (
-							<SongContextMenu
-								key={song.id}
-								song={song}
-								songs={songs}
-								index={index}
-							>
-								<div
-									className={cn(
-										"w-full grid grid-cols-[2rem_1fr_2rem_2rem_3rem] gap-4 px-4 py-3 hover:bg-muted/50 transition-colors group",
-										isCurrentTrack && "bg-muted/30",
-									)}
-								>
-									{/* Track number / Play indicator */}
-									<button
-										type="button"
-										onClick={() => handlePlayTrack(index)}
-										className="flex items-center justify-center"
+					{discs.map((disc) => (
+						<Fragment key={disc.number}>
+							{(discs.length > 1 || disc.title) && (
+								<div className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-muted-foreground bg-muted/30">
+									<Disc3 className="w-4 h-4" />
+									<span>
+										Disc {disc.number}
+										{disc.title && ` — ${disc.title}`}
+									</span>
+								</div>
+							)}
+							{disc.songs.map((song) => {
+								const index = songs.indexOf(song);
+								const songArtists = getArtistCredits(song);
+								const isCurrentTrack = song.id === currentTrack?.id;
+								const isThisTrackPlaying = isCurrentTrack && isPlaying;
+
+								return (
+									<SongContextMenu
+										key={song.id}
+										song={song}
+										songs={songs}
+										index={index}
 									>
-										{isThisTrackPlaying ? (
-											<span className="w-3 h-3 flex gap-0.5 items-end">
-												<span className="w-0.5 h-2 bg-primary animate-pulse" />
-												<span
-													className="w-0.5 h-3 bg-primary animate-pulse"
-													style={{ animationDelay: "0.2s" }}
-												/>
-												<span
-													className="w-0.5 h-1.5 bg-primary animate-pulse"
-													style={{ animationDelay: "0.4s" }}
-												/>
-											</span>
-										) : (
-											<>
-												<span
+										<div
+											className={cn(
+												"w-full grid grid-cols-[2rem_1fr_2rem_2rem_3rem] gap-4 px-4 py-3 hover:bg-muted/50 transition-colors group",
+												isCurrentTrack && "bg-muted/30",
+											)}
+										>
+											{/* Track number / Play indicator */}
+											<button
+												type="button"
+												onClick={() => handlePlayTrack(index)}
+												className="flex items-center justify-center"
+											>
+												{isThisTrackPlaying ? (
+													<span className="w-3 h-3 flex gap-0.5 items-end">
+														<span className="w-0.5 h-2 bg-primary animate-pulse" />
+														<span
+															className="w-0.5 h-3 bg-primary animate-pulse"
+															style={{ animationDelay: "0.2s" }}
+														/>
+														<span
+															className="w-0.5 h-1.5 bg-primary animate-pulse"
+															style={{ animationDelay: "0.4s" }}
+														/>
+													</span>
+												) : (
+													<>
+														<span
+															className={cn(
+																"text-sm group-hover:hidden",
+																isCurrentTrack
+																	? "text-primary"
+																	: "text-muted-foreground",
+															)}
+														>
+															{song.track || index + 1}
+														</span>
+														<Play
+															className={cn(
+																"w-4 h-4 hidden group-hover:block",
+																isCurrentTrack
+																	? "text-primary"
+																	: "text-foreground",
+															)}
+														/>
+													</>
+												)}
+											</button>
+
+											{/* Song info */}
+											<div className="min-w-0">
+												<button
+													type="button"
+													onClick={() => handlePlayTrack(index)}
 													className={cn(
-														"text-sm group-hover:hidden",
-														isCurrentTrack
-															? "text-primary"
-															: "text-muted-foreground",
+														"block w-full font-medium truncate text-left",
+														isCurrentTrack ? "text-primary" : "text-foreground",
 													)}
 												>
-													{song.track || index + 1}
-												</span>
-												<Play
-													className={cn(
-														"w-4 h-4 hidden group-hover:block",
-														isCurrentTrack ? "text-primary" : "text-foreground",
+													{song.title}
+												</button>
+												{/* Guest artists, when they differ from the album's */}
+												{songArtists.length > 0 &&
+													formatNames(songArtists) !==
+														formatNames(albumArtists) && (
+														<p className="text-sm text-muted-foreground truncate">
+															<ArtistLinks
+																artists={songArtists}
+																linkClassName="hover:text-foreground"
+															/>
+														</p>
 													)}
+											</div>
+
+											{/* Star button */}
+											<div className="flex items-center">
+												<StarButton
+													id={song.id}
+													type="song"
+													isStarred={!!song.starred}
+													size="sm"
 												/>
-											</>
-										)}
-									</button>
-
-									{/* Song info */}
-									<button
-										type="button"
-										onClick={() => handlePlayTrack(index)}
-										className="min-w-0 text-left"
-									>
-										<p
-											className={cn(
-												"font-medium truncate",
-												isCurrentTrack ? "text-primary" : "text-foreground",
-											)}
-										>
-											{song.title}
-										</p>
-										{song.artist && song.artist !== album.artist && (
-											<p className="text-sm text-muted-foreground truncate">
-												{song.artist}
-											</p>
-										)}
-									</button>
-
-									{/* Star button */}
-									<div className="flex items-center">
-										<StarButton
-											id={song.id}
-											type="song"
-											isStarred={!!song.starred}
-											size="sm"
-										/>
-									</div>
-
-									{/* Add to playlist */}
-									<div className="flex items-center">
-										<AddToPlaylistButton
-											songId={song.id}
-											song={song}
-											size="sm"
-										/>
-									</div>
-
-									{/* Duration */}
-									<span className="text-sm text-muted-foreground flex items-center justify-end">
-										{song.duration ? formatDuration(song.duration) : "—"}
-									</span>
-								</div>
-							</SongContextMenu>
-						);
-					})}
+											</div>
+
+											{/* Add to playlist */}
+											<div className="flex items-center">
+												<AddToPlaylistButton
+													songId={song.id}
+													song={song}
+													size="sm"
+												/>
+											</div>
+
+											{/* Duration */}
+											<span className="text-sm text-muted-foreground flex items-center justify-end">
+												{song.duration ? formatDuration(song.duration) : "—"}
+											</span>
+										</div>
+									</SongContextMenu>
+								);
+							})}
+						</Fragment>
+					))}
 				</div>
 			</div>
 
+			<AlbumDetailsPanel album={album} songs={songs} />
+
 			{/* More albums by this artist */}
 			{album.artistId && (
 				<MoreByArtist artistId={album.artistId} excludeAlbumId={album.id} />
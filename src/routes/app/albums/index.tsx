@@ -7,6 +7,7 @@ import { AlbumCard } from "@/components/AlbumCard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { type AlbumListType, getAlbumList, search } from "@/lib/api";
+import { useMusicFolderId } from "@/lib/settings";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/app/albums/")({
@@ -40,13 +41,14 @@ function AlbumsPage() {
 	const [searchQuery, setSearchQuery] = useState("");
 	const debouncedSearch = useDebounce(searchQuery, 300);
 	const loadMoreRef = useRef<HTMLDivElement>(null);
+	const musicFolderId = useMusicFolderId();
 
 	const isSearching = debouncedSearch.trim().length > 0;
 
 	// Server-side search query
 	const { data: searchResults, isLoading: isSearchLoading } = useQuery({
-		queryKey: ["search", "albums", debouncedSearch],
-		queryFn: () => search(debouncedSearch),
+		queryKey: ["search", "albums", debouncedSearch, musicFolderId],
+		queryFn: ({ signal }) => search(debouncedSearch, { signal, musicFolderId }),
 		enabled: isSearching,
 	});
 
@@ -58,9 +60,9 @@ function AlbumsPage() {
 		hasNextPage,
 		fetchNextPage,
 	} = useInfiniteQuery({
-		queryKey: ["albums", sortType, "infinite"],
-		queryFn: ({ pageParam = 0 }) =>
-			getAlbumList(sortType, PAGE_SIZE, pageParam),
+		queryKey: ["albums", sortType, "infinite", musicFolderId],
+		queryFn: ({ pageParam = 0, signal }) =>
+			getAlbumList(sortType, PAGE_SIZE, pageParam, { signal, musicFolderId }),
 		getNextPageParam: (lastPage, allPages) => {
 			if (lastPage.length < PAGE_SIZE) {
 				return undefined;
@@ -1,27 +1,62 @@
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { ArrowLeft, User } from "lucide-react";
+import {
+	ArrowLeft,
+	ExternalLink,
+	ListPlus,
+	Play,
+	TrendingUp,
+	User,
+} from "lucide-react";
 import { useEffect, useState } from "react";
+import { toast } from "sonner";
 
 import { AlbumGrid } from "@/components/AlbumCard";
 import { SimilarArtists } from "@/components/SimilarArtists";
+import { SongList } from "@/components/SongList";
 import { Button } from "@/components/ui/button";
-import { getArtist, getCoverArtUrl } from "@/lib/api";
+import {
+	getArtist,
+	getArtistInfo2,
+	getCoverArtUrl,
+	getTopSongs,
+} from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { stripLastFmHtml } from "@/lib/format";
+import { addToQueue, playAlbum } from "@/lib/player";
 import { cn } from "@/lib/utils";
 
+const TOP_SONG_COUNT = 10;
+
 export const Route = createFileRoute("/app/artists/$artistId")({
 	component: ArtistDetailPage,
 });
 
 function ArtistDetailPage() {
 	const { artistId } = Route.useParams();
+	const { features } = useServerCapabilities();
 	const [coverUrl, setCoverUrl] = useState<string | null>(null);
-	const [imageError, setImageError] = useState(false);
+	const [failedImages, setFailedImages] = useState<string[]>([]);
 	const [imageLoaded, setImageLoaded] = useState(false);
+	const [bioExpanded, setBioExpanded] = useState(false);
 
 	const { data, isLoading, error } = useQuery({
 		queryKey: ["artist", artistId],
-		queryFn: () => getArtist(artistId),
+		queryFn: ({ signal }) => getArtist(artistId, { signal }),
+	});
+
+	const { data: info } = useQuery({
+		queryKey: ["artist-info", artistId],
+		queryFn: ({ signal }) => getArtistInfo2(artistId, undefined, { signal }),
+		enabled: features.artistInfo,
+	});
+
+	const artistName = data?.artist.name;
+	const { data: topSongs } = useQuery({
+		queryKey: ["top-songs", artistName],
+		queryFn: ({ signal }) =>
+			getTopSongs(artistName ?? "", TOP_SONG_COUNT, { signal }),
+		enabled: !!artistName && features.topSongs,
 	});
 
 	useEffect(() => {
@@ -62,6 +97,20 @@ function ArtistDetailPage() {
 	}
 
 	const { artist, albums } = data;
+	// Prefer the large image from the artist info, falling back to the
+	// server's own cover art if it fails to load
+	const imageUrl = [info?.largeImageUrl, coverUrl].find(
+		(url): url is string => !!url && !failedImages.includes(url),
+	);
+	const biography = info?.biography ? stripLastFmHtml(info.biography) : "";
+
+	const handleQueueTopSongs = () => {
+		if (!topSongs?.length) return;
+		addToQueue(topSongs);
+		toast.success(
+			`Added ${topSongs.length} song${topSongs.length !== 1 ? "s" : ""} to queue`,
+		);
+	};
 
 	return (
 		<div className="p-6 space-y-6">
@@ -78,16 +127,20 @@ function ArtistDetailPage() {
 			<div className="flex flex-col md:flex-row gap-6 items-center md:items-end">
 				{/* Artist image */}
 				<div className="w-48 h-48 rounded-full overflow-hidden bg-muted flex-shrink-0 shadow-lg">
-					{coverUrl && !imageError ? (
+					{imageUrl ? (
 						<img
-							src={coverUrl}
+							key={imageUrl}
+							src={imageUrl}
 							alt={artist.name}
 							className={cn(
 								"w-full h-full object-cover transition-opacity duration-200",
 								imageLoaded ? "opacity-100" : "opacity-0",
 							)}
 							onLoad={() => setImageLoaded(true)}
-							onError={() => setImageError(true)}
+							onError={() => {
+								setImageLoaded(false);
+								setFailedImages((prev) => [...prev, imageUrl]);
+							}}
 						/>
 					) : (
 						<div className="w-full h-full flex items-center justify-center">
@@ -97,7 +150,7 @@ function ArtistDetailPage() {
 				</div>
 
 				{/* Artist info */}
-				<div className="flex flex-col items-center md:items-start space-y-2">
+				<div className="flex flex-col items-center md:items-start space-y-2 min-w-0">
 					<p className="text-sm text-muted-foreground uppercase tracking-wide">
 						Artist
 					</p>
@@ -105,9 +158,87 @@ function ArtistDetailPage() {
 					<p className="text-muted-foreground">
 						{albums.length} album{albums.length !== 1 ? "s" : ""}
 					</p>
+					{(info?.lastFmUrl || info?.musicBrainzId) && (
+						<div className="flex flex-wrap gap-3 text-xs">
+							{info.lastFmUrl && (
+								<a
+									href={info.lastFmUrl}
+									target="_blank"
+									rel="noreferrer"
+									className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+								>
+									<ExternalLink className="w-3 h-3" />
+									Last.fm
+								</a>
+							)}
+							{info.musicBrainzId && (
+								<a
+									href={`https://musicbrainz.org/artist/${info.musicBrainzId}`}
+									target="_blank"
+									rel="noreferrer"
+									className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+									title={info.musicBrainzId}
+								>
+									<ExternalLink className="w-3 h-3" />
+									MusicBrainz
+								</a>
+							)}
+						</div>
+					)}
 				</div>
 			</div>
 
+			{/* Biography */}
+			{biography && (
+				<section className="max-w-3xl space-y-1">
+					<p
+						className={cn(
+							"text-sm text-muted-foreground whitespace-pre-line",
+							!bioExpanded && "line-clamp-4",
+						)}
+					>
+						{biography}
+					</p>
+					<button
+						type="button"
+						className="text-sm font-medium text-foreground hover:underline"
+						onClick={() => setBioExpanded((expanded) => !expanded)}
+					>
+						{bioExpanded ? "Show less" : "Show more"}
+					</button>
+				</section>
+			)}
+
+			{/* Top songs */}
+			{topSongs && topSongs.length > 0 && (
+				<section>
+					<div className="flex flex-wrap items-center gap-2 mb-4">
+						<TrendingUp className="w-5 h-5 text-primary" />
+						<h2 className="text-xl font-semibold text-foreground mr-auto">
+							Top Songs
+						</h2>
+						<Button
+							size="sm"
+							className="gap-2"
+							onClick={() => playAlbum(topSongs, 0)}
+						>
+							<Play className="w-4 h-4" />
+							Play
+						</Button>
+						<Button
+							size="sm"
+							variant="outline"
+							className="gap-2"
+							onClick={handleQueueTopSongs}
+						>
+							<ListPlus className="w-4 h-4" />
+							Add to Queue
+						</Button>
+					</div>
+					<SongList songs={topSongs} showArtist={false} showHeader={false} />
+				</section>
+			)}
+
 			{/* Albums */}
 			{albums.length > 0 && (
 				<section>
@@ -5,6 +5,7 @@ import { useState } from "react";
 import { ArtistGrid } from "@/components/ArtistCard";
 import { Input } from "@/components/ui/input";
 import { getArtists } from "@/lib/api";
+import { useMusicFolderId } from "@/lib/settings";
 
 export const Route = createFileRoute("/app/artists/")({
 	component: ArtistsPage,
@@ -12,10 +13,11 @@ export const Route = createFileRoute("/app/artists/")({
 
 function ArtistsPage() {
 	const [filter, setFilter] = useState("");
+	const musicFolderId = useMusicFolderId();
 
 	const { data: artists, isLoading } = useQuery({
-		queryKey: ["artists"],
-		queryFn: getArtists,
+		queryKey: ["artists", musicFolderId],
+		queryFn: ({ signal }) => getArtists({ signal, musicFolderId }),
 	});
 
 	const filteredArtists =
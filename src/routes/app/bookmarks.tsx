@@ -0,0 +1,162 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { Bookmark as BookmarkIcon, Music, Play, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { type Bookmark, deleteBookmark, getBookmarks } from "@/lib/api";
+import { formatDuration } from "@/lib/format";
+import { getTrackCoverUrl, playSong } from "@/lib/player";
+
+export const Route = createFileRoute("/app/bookmarks")({
+	component: BookmarksPage,
+});
+
+function BookmarkCover({ bookmark }: { bookmark: Bookmark }) {
+	const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (bookmark.entry.coverArt) {
+			getTrackCoverUrl(bookmark.entry.coverArt, 100).then(setCoverUrl);
+		}
+	}, [bookmark.entry.coverArt]);
+
+	if (coverUrl) {
+		return (
+			<img
+				src={coverUrl}
+				alt={bookmark.entry.title}
+				className="w-12 h-12 rounded object-cover flex-shrink-0"
+			/>
+		);
+	}
+
+	return (
+		<div className="w-12 h-12 rounded bg-muted flex items-center justify-center flex-shrink-0">
+			<Music className="w-5 h-5 text-muted-foreground" />
+		</div>
+	);
+}
+
+function BookmarksPage() {
+	const queryClient = useQueryClient();
+
+	const { data: bookmarks, isLoading } = useQuery({
+		queryKey: ["bookmarks"],
+		queryFn: ({ signal }) => getBookmarks({ signal }),
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteBookmark(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["bookmarks"] });
+			toast.success("Bookmark removed");
+		},
+		onError: () => {
+			toast.error("Failed to remove bookmark");
+		},
+	});
+
+	// Most recently updated first
+	const sortedBookmarks = [...(bookmarks ?? [])].sort(
+		(a, b) => new Date(b.changed).getTime() - new Date(a.changed).getTime(),
+	);
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div>
+				<h1 className="text-3xl font-bold text-foreground">Bookmarks</h1>
+				<p className="text-muted-foreground mt-1">
+					Resume points saved from all your devices
+				</p>
+			</div>
+
+			{isLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 5 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-16 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : sortedBookmarks.length === 0 ? (
+				<div className="text-center py-12">
+					<BookmarkIcon className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">No bookmarks yet</p>
+					<p className="text-sm text-muted-foreground mt-1">
+						Long tracks are bookmarked automatically while they play
+					</p>
+				</div>
+			) : (
+				<div className="divide-y rounded-lg border">
+					{sortedBookmarks.map((bookmark) => {
+						const position = bookmark.position / 1000;
+						const duration = bookmark.entry.duration ?? 0;
+						return (
+							<div
+								key={bookmark.entry.id}
+								className="flex items-center gap-3 px-3 py-2"
+							>
+								<BookmarkCover bookmark={bookmark} />
+								<div className="min-w-0 flex-1 space-y-1">
+									<p className="text-sm font-medium truncate">
+										{bookmark.entry.title}
+									</p>
+									<p className="text-xs text-muted-foreground truncate">
+										{bookmark.entry.artist}
+										{bookmark.entry.artist && " • "}
+										{formatDuration(position)}
+										{duration > 0 && ` of ${formatDuration(duration)}`}
+										{" • "}
+										{new Date(bookmark.changed).toLocaleString()}
+									</p>
+									{duration > 0 && (
+										<div className="h-1 w-full max-w-xs rounded-full bg-muted overflow-hidden">
+											<div
+												className="h-full bg-primary"
+												style={{
+													width: `${Math.min(100, (position / duration) * 100)}%`,
+												}}
+											/>
+										</div>
+									)}
+									{bookmark.comment && (
+										<p className="text-xs text-muted-foreground truncate">
+											{bookmark.comment}
+										</p>
+									)}
+								</div>
+								<Button
+									variant="outline"
+									size="sm"
+									className="gap-2"
+									onClick={() =>
+										playSong(bookmark.entry, undefined, undefined, {
+											startTime: position,
+										})
+									}
+								>
+									<Play className="w-4 h-4" />
+									Resume
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => deleteMutation.mutate(bookmark.entry.id)}
+									disabled={deleteMutation.isPending}
+									title="Remove bookmark"
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,248 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	ChevronRight,
+	Folder,
+	FolderOpen,
+	ListEnd,
+	Loader2,
+	Play,
+	Shuffle,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { SongList } from "@/components/SongList";
+import { Button } from "@/components/ui/button";
+import {
+	getMusicDirectory,
+	getMusicDirectorySongs,
+	MAX_FOLDER_SONGS,
+	type Song,
+} from "@/lib/api";
+import { addToQueue, playAlbum } from "@/lib/player";
+
+export const Route = createFileRoute("/app/folders/$folderId")({
+	component: FolderDetailPage,
+});
+
+type FolderAction = "play" | "shuffle" | "queue";
+
+function FolderDetailPage() {
+	const { folderId } = Route.useParams();
+	const [pendingAction, setPendingAction] = useState<FolderAction | null>(null);
+	const actionController = useRef<AbortController | null>(null);
+
+	// Leaving the folder cancels loading it, so a late result can't replace
+	// the queue
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Cancel when the folder changes
+	useEffect(() => {
+		return () => {
+			actionController.current?.abort();
+			actionController.current = null;
+			setPendingAction(null);
+		};
+	}, [folderId]);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ["music-directory", folderId],
+		queryFn: ({ signal }) => getMusicDirectory(folderId, { signal }),
+	});
+
+	// Play and queue actions include everything in the subfolders too
+	const runFolderAction = async (action: FolderAction) => {
+		actionController.current?.abort();
+		const controller = new AbortController();
+		actionController.current = controller;
+		setPendingAction(action);
+		try {
+			const { songs, truncated } = await getMusicDirectorySongs(
+				folderId,
+				MAX_FOLDER_SONGS,
+				{ signal: controller.signal },
+			);
+			if (controller.signal.aborted) return;
+			if (truncated) {
+				toast.info(
+					`This folder is large, so only the first ${MAX_FOLDER_SONGS.toLocaleString()} songs are included`,
+				);
+			}
+			if (songs.length === 0) {
+				toast.error("No songs in this folder");
+				return;
+			}
+			if (action === "queue") {
+				addToQueue(songs);
+				toast.success(`Added ${songs.length} songs to queue`);
+			} else {
+				playAlbum(action === "shuffle" ? shuffleSongs(songs) : songs, 0);
+			}
+		} catch {
+			if (!controller.signal.aborted) {
+				toast.error("Failed to load folder");
+			}
+		} finally {
+			if (actionController.current === controller) {
+				actionController.current = null;
+				setPendingAction(null);
+			}
+		}
+	};
+
+	if (isLoading) {
+		return (
+			<div className="p-6 space-y-4 animate-pulse">
+				<div className="h-8 bg-muted rounded w-1/3" />
+				<div className="h-4 bg-muted rounded w-1/4" />
+				<div className="space-y-2 pt-4">
+					{Array.from({ length: 6 }).map((_, i) => (
+						// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+						<div key={i} className="h-10 bg-muted rounded-md" />
+					))}
+				</div>
+			</div>
+		);
+	}
+
+	if (error || !data) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<p className="text-destructive">Failed to load folder</p>
+					<Link to="/app/folders">
+						<Button variant="outline" className="mt-4">
+							Back to Folders
+						</Button>
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	const { directory, folders, songs } = data;
+	const isEmpty = folders.length === 0 && songs.length === 0;
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Back button */}
+			{directory.parent ? (
+				<Link
+					to="/app/folders/$folderId"
+					params={{ folderId: directory.parent }}
+					className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+				>
+					<ArrowLeft className="w-4 h-4" />
+					Up one level
+				</Link>
+			) : (
+				<Link
+					to="/app/folders"
+					className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+				>
+					<ArrowLeft className="w-4 h-4" />
+					Back to Folders
+				</Link>
+			)}
+
+			{/* Folder header */}
+			<div className="flex flex-col sm:flex-row gap-6 items-center sm:items-start">
+				<div className="w-32 h-32 sm:w-40 sm:h-40 rounded-lg bg-muted flex items-center justify-center flex-shrink-0 shadow-lg">
+					<FolderOpen className="w-16 h-16 text-muted-foreground" />
+				</div>
+
+				<div className="flex flex-col justify-end space-y-2 text-center sm:text-left items-center sm:items-start min-w-0">
+					<p className="text-sm text-muted-foreground uppercase tracking-wide">
+						Folder
+					</p>
+					<h1 className="text-2xl sm:text-4xl font-bold text-foreground break-all">
+						{directory.name}
+					</h1>
+					<p className="text-muted-foreground">
+						{folders.length > 0 &&
+							`${folders.length} folder${folders.length !== 1 ? "s" : ""}`}
+						{folders.length > 0 && songs.length > 0 && " • "}
+						{songs.length > 0 &&
+							`${songs.length} song${songs.length !== 1 ? "s" : ""}`}
+					</p>
+					<div className="pt-4 flex items-center gap-3">
+						<Button
+							size="lg"
+							className="gap-2"
+							onClick={() => runFolderAction("play")}
+							disabled={isEmpty || pendingAction !== null}
+						>
+							{pendingAction === "play" ? (
+								<Loader2 className="w-5 h-5 animate-spin" />
+							) : (
+								<Play className="w-5 h-5" />
+							)}
+							Play All
+						</Button>
+						<Button
+							variant="outline"
+							size="lg"
+							className="gap-2"
+							onClick={() => runFolderAction("shuffle")}
+							disabled={isEmpty || pendingAction !== null}
+						>
+							{pendingAction === "shuffle" ? (
+								<Loader2 className="w-5 h-5 animate-spin" />
+							) : (
+								<Shuffle className="w-5 h-5" />
+							)}
+							Shuffle
+						</Button>
+						<Button
+							variant="outline"
+							size="lg"
+							className="gap-2"
+							onClick={() => runFolderAction("queue")}
+							disabled={isEmpty || pendingAction !== null}
+							title="Add everything in this folder to the queue"
+						>
+							{pendingAction === "queue" ? (
+								<Loader2 className="w-5 h-5 animate-spin" />
+							) : (
+								<ListEnd className="w-5 h-5" />
+							)}
+							Queue
+						</Button>
+					</div>
+				</div>
+			</div>
+
+			{/* Subfolders */}
+			{folders.length > 0 && (
+				<div className="space-y-1">
+					{folders.map((folder) => (
+						<Link
+							key={folder.id}
+							to="/app/folders/$folderId"
+							params={{ folderId: folder.id }}
+							className="flex items-center gap-3 px-3 py-2 rounded-md text-sm hover:bg-muted transition-colors"
+						>
+							<Folder className="w-4 h-4 text-muted-foreground shrink-0" />
+							<span className="flex-1 truncate">{folder.name}</span>
+							<ChevronRight className="w-4 h-4 text-muted-foreground" />
+						</Link>
+					))}
+				</div>
+			)}
+
+			{/* Files */}
+			{songs.length > 0 && <SongList songs={songs} showAlbum showArtist />}
+
+			{isEmpty && (
+				<div className="text-center py-12">
+					<FolderOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">This folder is empty</p>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function shuffleSongs(songs: Song[]): Song[] {
+	return [...songs].sort(() => Math.random() - 0.5);
+}
@@ -0,0 +1,107 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { ChevronRight, Folder, FolderTree } from "lucide-react";
+import { useState } from "react";
+
+import { SongList } from "@/components/SongList";
+import { Input } from "@/components/ui/input";
+import { getIndexes } from "@/lib/api";
+import { useMusicFolderId } from "@/lib/settings";
+
+export const Route = createFileRoute("/app/folders/")({
+	component: FoldersPage,
+});
+
+function FoldersPage() {
+	const [filter, setFilter] = useState("");
+	const musicFolderId = useMusicFolderId();
+
+	const { data, isLoading } = useQuery({
+		queryKey: ["folder-indexes", musicFolderId],
+		queryFn: ({ signal }) => getIndexes({ signal, musicFolderId }),
+	});
+
+	const indexes =
+		data?.indexes
+			.map((index) => ({
+				...index,
+				folders: index.folders.filter((folder) =>
+					folder.name.toLowerCase().includes(filter.toLowerCase()),
+				),
+			}))
+			.filter((index) => index.folders.length > 0) ?? [];
+
+	const folderCount =
+		data?.indexes.reduce((acc, index) => acc + index.folders.length, 0) ?? 0;
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Folders</h1>
+					<p className="text-muted-foreground mt-1">
+						{folderCount} folder{folderCount !== 1 ? "s" : ""} in your library
+					</p>
+				</div>
+				<Input
+					type="search"
+					placeholder="Filter folders..."
+					value={filter}
+					onChange={(e) => setFilter(e.target.value)}
+					className="max-w-xs"
+				/>
+			</div>
+
+			{isLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 10 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-10 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : indexes.length === 0 && !data?.songs.length ? (
+				<div className="text-center py-12">
+					<FolderTree className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">
+						{filter ? "No folders match your filter" : "No folders found"}
+					</p>
+				</div>
+			) : (
+				<div className="space-y-6">
+					{indexes.map((index) => (
+						<section key={index.name} className="space-y-1">
+							<h2 className="text-sm font-semibold text-muted-foreground px-3">
+								{index.name}
+							</h2>
+							{index.folders.map((folder) => (
+								<Link
+									key={folder.id}
+									to="/app/folders/$folderId"
+									params={{ folderId: folder.id }}
+									className="flex items-center gap-3 px-3 py-2 rounded-md text-sm hover:bg-muted transition-colors"
+								>
+									<Folder className="w-4 h-4 text-muted-foreground shrink-0" />
+									<span className="flex-1 truncate">{folder.name}</span>
+									<ChevronRight className="w-4 h-4 text-muted-foreground" />
+								</Link>
+							))}
+						</section>
+					))}
+
+					{!filter && data && data.songs.length > 0 && (
+						<section className="space-y-2">
+							<h2 className="text-sm font-semibold text-muted-foreground px-3">
+								Files
+							</h2>
+							<SongList songs={data.songs} showAlbum showArtist />
+						</section>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
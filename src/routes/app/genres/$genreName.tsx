@@ -7,6 +7,7 @@ import { SongList } from "@/components/SongList";
 import { Button } from "@/components/ui/button";
 import { getSongsByGenre } from "@/lib/api";
 import { playAlbum } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 
 export const Route = createFileRoute("/app/genres/$genreName")({
 	component: GenreDetailPage,
@@ -16,12 +17,16 @@ function GenreDetailPage() {
 	const { genreName } = Route.useParams();
 	const decodedGenreName = decodeURIComponent(genreName);
 	const loadMoreRef = useRef<HTMLDivElement>(null);
+	const musicFolderId = useMusicFolderId();
 
 	const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
 		useInfiniteQuery({
-			queryKey: ["genre-songs", decodedGenreName],
-			queryFn: ({ pageParam = 0 }) =>
-				getSongsByGenre(decodedGenreName, 50, pageParam),
+			queryKey: ["genre-songs", decodedGenreName, musicFolderId],
+			queryFn: ({ pageParam = 0, signal }) =>
+				getSongsByGenre(decodedGenreName, 50, pageParam, {
+					signal,
+					musicFolderId,
+				}),
 			getNextPageParam: (lastPage, allPages) => {
 				if (lastPage.length < 50) return undefined;
 				return allPages.length * 50;
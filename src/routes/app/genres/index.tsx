@@ -17,7 +17,7 @@ function GenresPage() {
 
 	const { data: genres, isLoading } = useQuery({
 		queryKey: ["genres"],
-		queryFn: getGenres,
+		queryFn: ({ signal }) => getGenres({ signal }),
 	});
 
 	const filteredGenres =
@@ -1,7 +1,10 @@
 import { useQuery } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
 import {
+	BarChart3,
+	Clock,
 	Disc3,
+	HardDrive,
 	Heart,
 	History,
 	Keyboard,
@@ -12,42 +15,50 @@ import {
 
 import { AlbumGrid } from "@/components/AlbumCard";
 import { SongList } from "@/components/SongList";
-import { getAlbumList, getLibraryStats, getStarred } from "@/lib/api";
+import { getAlbumList, getStarred } from "@/lib/api";
+import { formatSize } from "@/lib/format";
+import { getLibraryStats, type StatsBucket } from "@/lib/library-stats";
+import { useMusicFolderId } from "@/lib/settings";
 
 export const Route = createFileRoute("/app/")({
 	component: AppHome,
 });
 
 function AppHome() {
+	const musicFolderId = useMusicFolderId();
+
 	const { data: recentAlbums, isLoading: loadingAlbums } = useQuery({
-		queryKey: ["albums", "newest"],
-		queryFn: () => getAlbumList("newest", 12),
+		queryKey: ["albums", "newest", musicFolderId],
+		queryFn: ({ signal }) =>
+			getAlbumList("newest", 12, 0, { signal, musicFolderId }),
 	});
 
-	// Library stats (albums, artists, songs counts)
+	// Library stats, recomputed by the stats module only after a rescan
 	const { data: libraryStats } = useQuery({
-		queryKey: ["libraryStats"],
-		queryFn: getLibraryStats,
+		queryKey: ["libraryStats", musicFolderId],
+		queryFn: ({ signal }) => getLibraryStats({ signal, musicFolderId }),
 		staleTime: 5 * 60 * 1000, // Cache for 5 minutes
 	});
 
 	// Starred/Favorites
 	const { data: starred, isLoading: loadingStarred } = useQuery({
-		queryKey: ["starred"],
-		queryFn: getStarred,
+		queryKey: ["starred", musicFolderId],
+		queryFn: ({ signal }) => getStarred({ signal, musicFolderId }),
 	});
 
 	// Most played albums
 	const { data: frequentAlbums, isLoading: loadingFrequent } = useQuery({
-		queryKey: ["albums", "frequent"],
-		queryFn: () => getAlbumList("frequent", 12),
+		queryKey: ["albums", "frequent", musicFolderId],
+		queryFn: ({ signal }) =>
+			getAlbumList("frequent", 12, 0, { signal, musicFolderId }),
 	});
 
 	// Recently played albums
 	const { data: recentlyPlayedAlbums, isLoading: loadingRecentlyPlayed } =
 		useQuery({
-			queryKey: ["albums", "recent"],
-			queryFn: () => getAlbumList("recent", 12),
+			queryKey: ["albums", "recent", musicFolderId],
+			queryFn: ({ signal }) =>
+				getAlbumList("recent", 12, 0, { signal, musicFolderId }),
 		});
 
 	const formatNumber = (num: number) => {
@@ -68,7 +79,7 @@ function AppHome() {
 			</div>
 
 			{/* Stats */}
-			<div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+			<div className="grid grid-cols-1 sm:grid-cols-3 xl:grid-cols-5 gap-4">
 				<StatCard
 					icon={Disc3}
 					label="Albums"
@@ -76,7 +87,7 @@ function AppHome() {
 				/>
 				<StatCard
 					icon={Users}
-					label="Artists"
+					label="Album Artists"
 					value={libraryStats ? formatNumber(libraryStats.artistCount) : "—"}
 				/>
 				<StatCard
@@ -84,8 +95,46 @@ function AppHome() {
 					label="Songs"
 					value={libraryStats ? formatNumber(libraryStats.songCount) : "—"}
 				/>
+				<StatCard
+					icon={Clock}
+					label="Playtime"
+					value={
+						libraryStats ? formatPlaytime(libraryStats.totalDuration) : "—"
+					}
+				/>
+				<StatCard
+					icon={HardDrive}
+					label="Size"
+					value={
+						libraryStats?.totalSize !== undefined
+							? formatSize(libraryStats.totalSize)
+							: "—"
+					}
+				/>
 			</div>
 
+			{/* Library breakdown */}
+			{libraryStats &&
+				(libraryStats.formats.length > 0 ||
+					libraryStats.topGenres.length > 0) && (
+					<section className="bg-card rounded-lg border p-4">
+						<div className="flex items-center gap-2 mb-4">
+							<BarChart3 className="w-4 h-4 text-primary" />
+							<h3 className="text-sm font-medium text-foreground">
+								Library Breakdown
+							</h3>
+						</div>
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+							<BreakdownList title="Formats" buckets={libraryStats.formats} />
+							<BreakdownList title="Bitrates" buckets={libraryStats.bitrates} />
+							<BreakdownList
+								title="Top Genres"
+								buckets={libraryStats.topGenres}
+							/>
+						</div>
+					</section>
+				)}
+
 			{/* Keyboard Shortcuts */}
 			<section className="bg-card rounded-lg border p-4">
 				<div className="flex items-center gap-2 mb-3">
@@ -182,6 +231,49 @@ function AppHome() {
 	);
 }
 
+function formatPlaytime(seconds: number): string {
+	const hours = Math.floor(seconds / 3600);
+	if (hours >= 24) {
+		return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+	}
+	return `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function BreakdownList({
+	title,
+	buckets,
+}: {
+	title: string;
+	buckets: StatsBucket[];
+}) {
+	if (buckets.length === 0) return null;
+	const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+
+	return (
+		<div className="space-y-2">
+			<p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+				{title}
+			</p>
+			{buckets.map((bucket) => (
+				<div key={bucket.label} className="space-y-1">
+					<div className="flex justify-between gap-2 text-sm">
+						<span className="truncate">{bucket.label}</span>
+						<span className="text-muted-foreground tabular-nums">
+							{bucket.count.toLocaleString()}
+						</span>
+					</div>
+					<div className="h-1 rounded-full bg-muted overflow-hidden">
+						<div
+							className="h-full bg-primary"
+							style={{ width: `${(bucket.count / total) * 100}%` }}
+						/>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+}
+
 function StatCard({
 	icon: Icon,
 	label,
@@ -37,7 +37,9 @@ import {
 	search,
 	updatePlaylist,
 } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
 import { playAlbum, playSong, usePlayer } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/app/playlists/$playlistId")({
@@ -142,6 +144,9 @@ function PlaylistDetailPage() {
 	const [isSearching, setIsSearching] = useState(false);
 	const { currentTrack, isPlaying, togglePlayPause, shuffle, toggleShuffle } =
 		usePlayer();
+	const { features } = useServerCapabilities();
+	const canEdit = features.playlistEditing;
+	const musicFolderId = useMusicFolderId();
 
 	const {
 		data: playlist,
@@ -149,7 +154,7 @@ function PlaylistDetailPage() {
 		error,
 	} = useQuery({
 		queryKey: ["playlist", playlistId],
-		queryFn: () => getPlaylist(playlistId),
+		queryFn: ({ signal }) => getPlaylist(playlistId, { signal }),
 	});
 
 	const updateMutation = useMutation({
@@ -203,7 +208,7 @@ function PlaylistDetailPage() {
 		setIsSearching(true);
 		const timeoutId = setTimeout(async () => {
 			try {
-				const results = await search(searchQuery);
+				const results = await search(searchQuery, { musicFolderId });
 				setSearchResults(results.songs);
 			} catch {
 				toast.error("Search failed");
@@ -213,7 +218,7 @@ function PlaylistDetailPage() {
 		}, 300);
 
 		return () => clearTimeout(timeoutId);
-	}, [searchQuery]);
+	}, [searchQuery, musicFolderId]);
 
 	const toggleSongSelection = (songId: string) => {
 		setSelectedSongIds((prev) => {
@@ -442,15 +447,17 @@ function PlaylistDetailPage() {
 							<h1 className="text-2xl sm:text-4xl font-bold text-foreground">
 								{playlist.name}
 							</h1>
-							<Button
-								variant="ghost"
-								size="icon"
-								className="h-8 w-8"
-								onClick={() => setIsEditing(true)}
-								title="Edit name"
-							>
-								<Pencil className="w-4 h-4" />
-							</Button>
+							{canEdit && (
+								<Button
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8"
+									onClick={() => setIsEditing(true)}
+									title="Edit name"
+								>
+									<Pencil className="w-4 h-4" />
+								</Button>
+							)}
 						</div>
 					)}
 
@@ -510,15 +517,17 @@ function PlaylistDetailPage() {
 							<Shuffle className="w-5 h-5" />
 							Shuffle
 						</Button>
-						<Button
-							variant="outline"
-							size="icon"
-							className="h-10 w-10"
-							onClick={() => setAddSongsDialogOpen(true)}
-							title="Add songs"
-						>
-							<Plus className="w-5 h-5" />
-						</Button>
+						{canEdit && (
+							<Button
+								variant="outline"
+								size="icon"
+								className="h-10 w-10"
+								onClick={() => setAddSongsDialogOpen(true)}
+								title="Add songs"
+							>
+								<Plus className="w-5 h-5" />
+							</Button>
+						)}
 						<Button
 							variant="outline"
 							size="icon"
@@ -619,13 +628,22 @@ function PlaylistDetailPage() {
 					<p className="text-sm text-muted-foreground mt-1">
 						Add songs from albums or search to add songs
 					</p>
-					<Button className="mt-4" onClick={() => setAddSongsDialogOpen(true)}>
-						<Plus className="w-4 h-4 mr-2" />
-						Add Songs
-					</Button>
+					{canEdit && (
+						<Button
+							className="mt-4"
+							onClick={() => setAddSongsDialogOpen(true)}
+						>
+							<Plus className="w-4 h-4 mr-2" />
+							Add Songs
+						</Button>
+					)}
 				</div>
 			) : (
-				<PlaylistSongList playlistId={playlistId} songs={songs} />
+				<PlaylistSongList
+					playlistId={playlistId}
+					songs={songs}
+					editable={canEdit}
+				/>
 			)}
 		</div>
 	);
@@ -134,7 +134,7 @@ function PlaylistsPage() {
 
 	const { data: playlists, isLoading } = useQuery({
 		queryKey: ["playlists"],
-		queryFn: getPlaylists,
+		queryFn: ({ signal }) => getPlaylists({ signal }),
 	});
 
 	const createMutation = useMutation({
@@ -0,0 +1,152 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { AlertCircle, ArrowLeft, ExternalLink, Podcast } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { PodcastEpisodeList } from "@/components/PodcastEpisodeList";
+import { Button } from "@/components/ui/button";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { getCoverArtUrl, getPodcastChannel } from "@/lib/api";
+import { stripHtml } from "@/lib/format";
+
+export const Route = createFileRoute("/app/podcasts/$channelId")({
+	component: PodcastChannelPage,
+});
+
+function PodcastChannelPage() {
+	const { channelId } = Route.useParams();
+	const { isAdmin } = useCurrentUser();
+	const [coverUrl, setCoverUrl] = useState<string | null>(null);
+
+	const {
+		data: channel,
+		isLoading,
+		error,
+	} = useQuery({
+		queryKey: ["podcast", channelId],
+		queryFn: ({ signal }) => getPodcastChannel(channelId, { signal }),
+		// Keep download status current while episodes download
+		refetchInterval: (query) =>
+			query.state.data?.episode?.some(
+				(episode) => episode.status === "downloading",
+			)
+				? 5000
+				: false,
+	});
+
+	useEffect(() => {
+		if (channel?.coverArt) {
+			getCoverArtUrl(channel.coverArt, 300).then(setCoverUrl);
+		}
+	}, [channel?.coverArt]);
+
+	if (isLoading) {
+		return (
+			<div className="p-6 space-y-6 animate-pulse">
+				<div className="flex gap-6">
+					<div className="w-40 h-40 bg-muted rounded-lg" />
+					<div className="space-y-3 flex-1">
+						<div className="h-8 bg-muted rounded w-1/3" />
+						<div className="h-4 bg-muted rounded w-2/3" />
+					</div>
+				</div>
+				<div className="space-y-2">
+					{Array.from({ length: 6 }).map((_, i) => (
+						// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+						<div key={i} className="h-16 bg-muted rounded-md" />
+					))}
+				</div>
+			</div>
+		);
+	}
+
+	if (error || !channel) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<p className="text-destructive">Failed to load podcast</p>
+					<Link to="/app/podcasts">
+						<Button variant="outline" className="mt-4">
+							Back to Podcasts
+						</Button>
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	const episodes = channel.episode ?? [];
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Back button */}
+			<Link
+				to="/app/podcasts"
+				className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+			>
+				<ArrowLeft className="w-4 h-4" />
+				Back to Podcasts
+			</Link>
+
+			{/* Channel header */}
+			<div className="flex flex-col sm:flex-row gap-6 items-center sm:items-start">
+				<div className="w-40 h-40 rounded-lg overflow-hidden bg-muted flex items-center justify-center flex-shrink-0 shadow-lg">
+					{coverUrl ? (
+						<img
+							src={coverUrl}
+							alt={channel.title ?? channel.url}
+							className="w-full h-full object-cover"
+						/>
+					) : (
+						<Podcast className="w-16 h-16 text-muted-foreground" />
+					)}
+				</div>
+
+				<div className="flex flex-col space-y-2 text-center sm:text-left items-center sm:items-start min-w-0">
+					<p className="text-sm text-muted-foreground uppercase tracking-wide">
+						Podcast
+					</p>
+					<h1 className="text-2xl sm:text-4xl font-bold text-foreground">
+						{channel.title || channel.url}
+					</h1>
+					<p className="text-muted-foreground">
+						{episodes.length} episode{episodes.length !== 1 ? "s" : ""}
+					</p>
+					{channel.status === "error" && (
+						<p className="text-sm text-destructive flex items-center gap-1">
+							<AlertCircle className="w-4 h-4 shrink-0" />
+							{channel.errorMessage || "Failed to load feed"}
+						</p>
+					)}
+					{channel.description && (
+						<p className="text-sm text-muted-foreground line-clamp-4 max-w-3xl">
+							{stripHtml(channel.description)}
+						</p>
+					)}
+					<a
+						href={channel.url}
+						target="_blank"
+						rel="noreferrer"
+						className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+					>
+						<ExternalLink className="w-3 h-3" />
+						RSS feed
+					</a>
+				</div>
+			</div>
+
+			{/* Episodes */}
+			{episodes.length === 0 ? (
+				<div className="text-center py-12">
+					<p className="text-muted-foreground">No episodes yet</p>
+				</div>
+			) : (
+				<PodcastEpisodeList
+					episodes={episodes}
+					channels={[channel]}
+					canManage={isAdmin}
+				/>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,314 @@
+import { useForm } from "@tanstack/react-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { AlertCircle, Loader2, Plus, Podcast, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import * as v from "valibot";
+
+import { PodcastEpisodeList } from "@/components/PodcastEpisodeList";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+	createPodcastChannel,
+	getCoverArtUrl,
+	getNewestPodcasts,
+	getPodcasts,
+	type PodcastChannel,
+	refreshPodcasts,
+} from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { cn } from "@/lib/utils";
+
+const addPodcastSchema = v.object({
+	url: v.pipe(
+		v.string(),
+		v.trim(),
+		v.nonEmpty("Feed URL is required"),
+		v.url("Please enter a valid URL"),
+	),
+});
+
+export const Route = createFileRoute("/app/podcasts/")({
+	component: PodcastsPage,
+});
+
+function PodcastCard({ channel }: { channel: PodcastChannel }) {
+	const [coverUrl, setCoverUrl] = useState<string | null>(null);
+	const [imageLoaded, setImageLoaded] = useState(false);
+
+	useEffect(() => {
+		if (channel.coverArt) {
+			getCoverArtUrl(channel.coverArt, 200).then(setCoverUrl);
+		}
+	}, [channel.coverArt]);
+
+	return (
+		<Link
+			to="/app/podcasts/$channelId"
+			params={{ channelId: channel.id }}
+			className="block rounded-lg bg-card p-3 hover:bg-muted/50 transition-colors"
+		>
+			<div className="aspect-square rounded-md overflow-hidden bg-muted mb-3">
+				{coverUrl ? (
+					<img
+						src={coverUrl}
+						alt={channel.title ?? channel.url}
+						className={cn(
+							"w-full h-full object-cover transition-opacity duration-200",
+							imageLoaded ? "opacity-100" : "opacity-0",
+						)}
+						onLoad={() => setImageLoaded(true)}
+					/>
+				) : (
+					<div className="w-full h-full flex items-center justify-center">
+						<Podcast className="w-12 h-12 text-muted-foreground" />
+					</div>
+				)}
+			</div>
+			<h3 className="font-medium text-sm truncate text-foreground">
+				{channel.title || channel.url}
+			</h3>
+			{channel.status === "error" ? (
+				<p className="text-xs text-destructive truncate flex items-center gap-1">
+					<AlertCircle className="w-3 h-3 shrink-0" />
+					{channel.errorMessage || "Failed to load feed"}
+				</p>
+			) : channel.status === "downloading" ? (
+				<p className="text-xs text-muted-foreground truncate">
+					Loading feed...
+				</p>
+			) : null}
+		</Link>
+	);
+}
+
+function PodcastsPage() {
+	const [dialogOpen, setDialogOpen] = useState(false);
+	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const { isAdmin } = useCurrentUser();
+
+	const { data: channels, isLoading } = useQuery({
+		queryKey: ["podcasts"],
+		queryFn: ({ signal }) => getPodcasts({ signal }),
+		enabled: features.podcasts,
+		// Newly added feeds load in the background on the server
+		refetchInterval: (query) =>
+			query.state.data?.some((channel) => channel.status === "downloading")
+				? 5000
+				: false,
+	});
+
+	const { data: newestEpisodes } = useQuery({
+		queryKey: ["newestPodcasts"],
+		queryFn: ({ signal }) => getNewestPodcasts(10, { signal }),
+		enabled: features.podcasts,
+	});
+
+	const createMutation = useMutation({
+		mutationFn: (url: string) => createPodcastChannel(url),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+			setDialogOpen(false);
+			form.reset();
+			toast.success("Podcast added");
+		},
+		onError: () => {
+			toast.error("Failed to add podcast");
+		},
+	});
+
+	const refreshMutation = useMutation({
+		mutationFn: refreshPodcasts,
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["podcasts"] });
+			queryClient.invalidateQueries({ queryKey: ["podcast"] });
+			queryClient.invalidateQueries({ queryKey: ["newestPodcasts"] });
+			toast.success("Checking feeds for new episodes");
+		},
+		onError: () => {
+			toast.error("Failed to refresh podcasts");
+		},
+	});
+
+	const form = useForm({
+		defaultValues: {
+			url: "",
+		},
+		validators: {
+			onSubmit: addPodcastSchema,
+		},
+		onSubmit: async ({ value }) => {
+			createMutation.mutate(value.url.trim());
+		},
+	});
+
+	if (!features.podcasts) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<Podcast className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">
+						This server doesn't support podcasts
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Podcasts</h1>
+					<p className="text-muted-foreground mt-1">
+						{channels?.length ?? 0} podcast
+						{channels?.length !== 1 ? "s" : ""}
+					</p>
+				</div>
+				{isAdmin && (
+					<div className="flex items-center gap-2">
+						<Button
+							variant="outline"
+							onClick={() => refreshMutation.mutate()}
+							disabled={refreshMutation.isPending}
+						>
+							<RefreshCw
+								className={cn(
+									"w-4 h-4 mr-2",
+									refreshMutation.isPending && "animate-spin",
+								)}
+							/>
+							Refresh
+						</Button>
+						<Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+							<DialogTrigger asChild>
+								<Button>
+									<Plus className="w-4 h-4 mr-2" />
+									Add Podcast
+								</Button>
+							</DialogTrigger>
+							<DialogContent>
+								<DialogHeader>
+									<DialogTitle>Add Podcast</DialogTitle>
+									<DialogDescription>
+										Enter the RSS feed URL. The server subscribes to it for
+										everyone.
+									</DialogDescription>
+								</DialogHeader>
+								<form
+									onSubmit={(e) => {
+										e.preventDefault();
+										e.stopPropagation();
+										form.handleSubmit();
+									}}
+								>
+									<form.Field name="url">
+										{(field) => (
+											<Field data-invalid={field.state.meta.errors.length > 0}>
+												<FieldLabel htmlFor={field.name}>Feed URL</FieldLabel>
+												<Input
+													id={field.name}
+													type="url"
+													placeholder="https://example.com/feed.xml"
+													value={field.state.value}
+													onChange={(e) => field.handleChange(e.target.value)}
+													autoFocus
+												/>
+												{field.state.meta.errors.length > 0 && (
+													<FieldError
+														errors={field.state.meta.errors.map((err) => ({
+															message:
+																typeof err === "string" ? err : err?.message,
+														}))}
+													/>
+												)}
+											</Field>
+										)}
+									</form.Field>
+									<DialogFooter className="mt-6">
+										<Button
+											type="button"
+											variant="outline"
+											onClick={() => {
+												setDialogOpen(false);
+												form.reset();
+											}}
+										>
+											Cancel
+										</Button>
+										<Button type="submit" disabled={createMutation.isPending}>
+											{createMutation.isPending ? (
+												<>
+													<Loader2 className="w-4 h-4 animate-spin mr-2" />
+													Adding...
+												</>
+											) : (
+												"Add Podcast"
+											)}
+										</Button>
+									</DialogFooter>
+								</form>
+							</DialogContent>
+						</Dialog>
+					</div>
+				)}
+			</div>
+
+			{/* Channel Grid */}
+			{isLoading ? (
+				<div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+					{Array.from({ length: 6 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="rounded-lg bg-card p-3 animate-pulse"
+						>
+							<div className="aspect-square rounded-md bg-muted mb-3" />
+							<div className="h-4 bg-muted rounded w-3/4" />
+						</div>
+					))}
+				</div>
+			) : !channels || channels.length === 0 ? (
+				<div className="text-center py-12">
+					<Podcast className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">No podcasts yet</p>
+				</div>
+			) : (
+				<div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+					{channels.map((channel) => (
+						<PodcastCard key={channel.id} channel={channel} />
+					))}
+				</div>
+			)}
+
+			{/* Newest Episodes */}
+			{channels && newestEpisodes && newestEpisodes.length > 0 && (
+				<section className="space-y-3">
+					<h2 className="text-xl font-semibold text-foreground">
+						Newest Episodes
+					</h2>
+					<PodcastEpisodeList
+						episodes={newestEpisodes}
+						channels={channels}
+						canManage={isAdmin}
+						showChannel
+					/>
+				</section>
+			)}
+		</div>
+	);
+}
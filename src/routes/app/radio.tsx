@@ -0,0 +1,417 @@
+import { useForm } from "@tanstack/react-form";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import {
+	ExternalLink,
+	Loader2,
+	Pause,
+	Pencil,
+	Play,
+	Plus,
+	Radio,
+	Trash2,
+} from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import * as v from "valibot";
+
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+	createInternetRadioStation,
+	deleteInternetRadioStation,
+	getInternetRadioStations,
+	type RadioStation,
+	updateInternetRadioStation,
+} from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { usePlayer } from "@/lib/player";
+import { cn } from "@/lib/utils";
+
+const stationSchema = v.object({
+	name: v.pipe(
+		v.string(),
+		v.trim(),
+		v.nonEmpty("Station name is required"),
+		v.maxLength(100, "Station name must be 100 characters or less"),
+	),
+	streamUrl: v.pipe(
+		v.string(),
+		v.trim(),
+		v.nonEmpty("Stream URL is required"),
+		v.url("Please enter a valid URL"),
+	),
+	homepageUrl: v.union([
+		v.literal(""),
+		v.pipe(v.string(), v.trim(), v.url("Please enter a valid URL")),
+	]),
+});
+
+export const Route = createFileRoute("/app/radio")({
+	component: RadioPage,
+});
+
+interface StationDialogProps {
+	station: RadioStation | null; // null when adding a new station
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function StationDialog({ station, open, onOpenChange }: StationDialogProps) {
+	const queryClient = useQueryClient();
+
+	const saveMutation = useMutation({
+		mutationFn: (value: v.InferOutput<typeof stationSchema>) =>
+			station
+				? updateInternetRadioStation({ id: station.id, ...value })
+				: createInternetRadioStation(value),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["radioStations"] });
+			onOpenChange(false);
+			toast.success(station ? "Station updated" : "Station added");
+		},
+		onError: () => {
+			toast.error(
+				station ? "Failed to update station" : "Failed to add station",
+			);
+		},
+	});
+
+	const form = useForm({
+		defaultValues: {
+			name: station?.name ?? "",
+			streamUrl: station?.streamUrl ?? "",
+			homepageUrl: station?.homePageUrl ?? "",
+		},
+		validators: {
+			onSubmit: stationSchema,
+		},
+		onSubmit: async ({ value }) => {
+			saveMutation.mutate(v.parse(stationSchema, value));
+		},
+	});
+
+	const fields = [
+		{ name: "name", label: "Name", placeholder: "My favourite station" },
+		{
+			name: "streamUrl",
+			label: "Stream URL",
+			placeholder: "https://stream.example.com/live.mp3",
+		},
+		{
+			name: "homepageUrl",
+			label: "Homepage (optional)",
+			placeholder: "https://example.com",
+		},
+	] as const;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>{station ? "Edit Station" : "Add Station"}</DialogTitle>
+					<DialogDescription>
+						Stations are shared with everyone on this server.
+					</DialogDescription>
+				</DialogHeader>
+				<form
+					onSubmit={(e) => {
+						e.preventDefault();
+						e.stopPropagation();
+						form.handleSubmit();
+					}}
+					className="space-y-4"
+				>
+					{fields.map(({ name, label, placeholder }) => (
+						<form.Field key={name} name={name}>
+							{(field) => (
+								<Field data-invalid={field.state.meta.errors.length > 0}>
+									<FieldLabel htmlFor={field.name}>{label}</FieldLabel>
+									<Input
+										id={field.name}
+										type={name === "name" ? "text" : "url"}
+										placeholder={placeholder}
+										value={field.state.value}
+										onChange={(e) => field.handleChange(e.target.value)}
+										autoFocus={name === "name"}
+									/>
+									{field.state.meta.errors.length > 0 && (
+										<FieldError
+											errors={field.state.meta.errors.map((err) => ({
+												message: typeof err === "string" ? err : err?.message,
+											}))}
+										/>
+									)}
+								</Field>
+							)}
+						</form.Field>
+					))}
+					<DialogFooter className="mt-6">
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={saveMutation.isPending}>
+							{saveMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Saving...
+								</>
+							) : station ? (
+								"Save"
+							) : (
+								"Add Station"
+							)}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function RadioPage() {
+	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const { isAdmin } = useCurrentUser();
+	const {
+		radioStation,
+		isPlaying,
+		isLoading: isBuffering,
+		playRadioStation,
+		togglePlayPause,
+	} = usePlayer();
+
+	const [editingStation, setEditingStation] = useState<RadioStation | null>(
+		null,
+	);
+	const [stationDialogOpen, setStationDialogOpen] = useState(false);
+	const [deletingStation, setDeletingStation] = useState<RadioStation | null>(
+		null,
+	);
+
+	const canEdit = isAdmin && features.radioEditing;
+
+	const { data: stations, isLoading } = useQuery({
+		queryKey: ["radioStations"],
+		queryFn: ({ signal }) => getInternetRadioStations({ signal }),
+		enabled: features.internetRadio,
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteInternetRadioStation(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["radioStations"] });
+			setDeletingStation(null);
+			toast.success("Station deleted");
+		},
+		onError: () => {
+			toast.error("Failed to delete station");
+		},
+	});
+
+	const openStationDialog = (station: RadioStation | null) => {
+		setEditingStation(station);
+		setStationDialogOpen(true);
+	};
+
+	const handlePlay = (station: RadioStation) => {
+		if (radioStation?.id === station.id) {
+			togglePlayPause();
+		} else {
+			playRadioStation(station);
+		}
+	};
+
+	if (!features.internetRadio) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<Radio className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">
+						This server doesn't support internet radio
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+				<div>
+					<h1 className="text-3xl font-bold text-foreground">Radio</h1>
+					<p className="text-muted-foreground mt-1">
+						{stations?.length ?? 0} station
+						{stations?.length !== 1 ? "s" : ""}
+					</p>
+				</div>
+				{canEdit && (
+					<Button onClick={() => openStationDialog(null)}>
+						<Plus className="w-4 h-4 mr-2" />
+						Add Station
+					</Button>
+				)}
+			</div>
+
+			{isLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 6 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-14 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : !stations || stations.length === 0 ? (
+				<div className="text-center py-12">
+					<Radio className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground mb-4">No radio stations yet</p>
+					{canEdit && (
+						<Button onClick={() => openStationDialog(null)}>
+							<Plus className="w-4 h-4 mr-2" />
+							Add your first station
+						</Button>
+					)}
+				</div>
+			) : (
+				<div className="divide-y rounded-lg border">
+					{stations.map((station) => {
+						const isCurrent = radioStation?.id === station.id;
+						return (
+							<div
+								key={station.id}
+								className={cn(
+									"flex items-center gap-3 px-3 py-2",
+									isCurrent && "bg-muted/30",
+								)}
+							>
+								<Button
+									variant={isCurrent ? "default" : "ghost"}
+									size="icon"
+									className="w-10 h-10 rounded-full shrink-0"
+									onClick={() => handlePlay(station)}
+									title={isCurrent && isPlaying ? "Pause" : "Play"}
+								>
+									{isCurrent && isBuffering ? (
+										<Loader2 className="w-4 h-4 animate-spin" />
+									) : isCurrent && isPlaying ? (
+										<Pause className="w-4 h-4" />
+									) : (
+										<Play className="w-4 h-4 ml-0.5" />
+									)}
+								</Button>
+								<div className="min-w-0 flex-1">
+									<p
+										className={cn(
+											"text-sm font-medium truncate",
+											isCurrent && "text-primary",
+										)}
+									>
+										{station.name}
+									</p>
+									<p className="text-xs text-muted-foreground truncate">
+										{station.streamUrl}
+									</p>
+								</div>
+								{station.homePageUrl && (
+									<Button variant="ghost" size="icon" asChild>
+										<a
+											href={station.homePageUrl}
+											target="_blank"
+											rel="noreferrer"
+											title="Open homepage"
+										>
+											<ExternalLink className="w-4 h-4" />
+										</a>
+									</Button>
+								)}
+								{canEdit && (
+									<>
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => openStationDialog(station)}
+											title="Edit station"
+										>
+											<Pencil className="w-4 h-4" />
+										</Button>
+										<Button
+											variant="ghost"
+											size="icon"
+											onClick={() => setDeletingStation(station)}
+											title="Delete station"
+										>
+											<Trash2 className="w-4 h-4" />
+										</Button>
+									</>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{canEdit && (
+				<StationDialog
+					key={editingStation?.id ?? "new"}
+					station={editingStation}
+					open={stationDialogOpen}
+					onOpenChange={setStationDialogOpen}
+				/>
+			)}
+
+			{/* Delete confirmation dialog */}
+			<Dialog
+				open={!!deletingStation}
+				onOpenChange={(open) => !open && setDeletingStation(null)}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Delete Station</DialogTitle>
+						<DialogDescription>
+							Are you sure you want to delete "{deletingStation?.name}"? This
+							removes it for everyone on this server.
+						</DialogDescription>
+					</DialogHeader>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setDeletingStation(null)}>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							onClick={() =>
+								deletingStation && deleteMutation.mutate(deletingStation.id)
+							}
+							disabled={deleteMutation.isPending}
+						>
+							{deleteMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Deleting...
+								</>
+							) : (
+								"Delete"
+							)}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
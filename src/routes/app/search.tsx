@@ -8,6 +8,7 @@ import { ArtistGrid } from "@/components/ArtistCard";
 import { SongList } from "@/components/SongList";
 import { Input } from "@/components/ui/input";
 import { search } from "@/lib/api";
+import { useMusicFolderId } from "@/lib/settings";
 
 export const Route = createFileRoute("/app/search")({
 	validateSearch: (searchParams: Record<string, unknown>) => {
@@ -22,10 +23,11 @@ function SearchPage() {
 	const { q } = Route.useSearch();
 	const navigate = useNavigate();
 	const [inputValue, setInputValue] = useState(q);
+	const musicFolderId = useMusicFolderId();
 
 	const { data, isLoading, isFetching } = useQuery({
-		queryKey: ["search", q],
-		queryFn: () => search(q),
+		queryKey: ["search", q, musicFolderId],
+		queryFn: ({ signal }) => search(q, { signal, musicFolderId }),
 		enabled: q.length > 0,
 	});
 
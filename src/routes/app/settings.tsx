@@ -1,7 +1,11 @@
-import { createFileRoute } from "@tanstack/react-router";
-import { FolderOpen } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { FolderOpen, KeyRound, Loader2, Users } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
 
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { ConnectionOptionsFields } from "@/components/ConnectionOptionsFields";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -20,24 +24,44 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { getCurrentBackendType, switchAudioBackend } from "@/lib/player";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+	type ConnectionOptions,
+	type ServerProfile,
+	updateProfileConnection,
+	useAuth,
+} from "@/lib/auth";
+import {
+	clearCoverArtCache,
+	getCurrentBackendType,
+	switchAudioBackend,
+} from "@/lib/player";
 import {
 	type AudioBackend,
 	checkMpvInstalled,
 	useSettings,
 } from "@/lib/settings";
+import { ping } from "@/lib/subsonic";
 
 export const Route = createFileRoute("/app/settings")({
 	component: SettingsPage,
 });
 
 function SettingsPage() {
-	const { settings, setAudioBackend, setMpvPath, isElectron, isMpvAvailable } =
-		useSettings();
+	const {
+		settings,
+		updateSettings,
+		setAudioBackend,
+		setMpvPath,
+		isElectron,
+		isMpvAvailable,
+	} = useSettings();
+	const { credentials } = useAuth();
 	const [mpvInstalled, setMpvInstalled] = useState<boolean | null>(null);
 	const [mpvPathInput, setMpvPathInput] = useState(settings.mpvPath || "");
 	const [pathValidating, setPathValidating] = useState(false);
 	const [pathValid, setPathValid] = useState<boolean | null>(null);
+	const bookmarkMinutesId = useId();
 	const currentBackend = getCurrentBackendType();
 
 	// Check MPV availability on mount and when path changes
@@ -270,7 +294,159 @@ function SettingsPage() {
 							</CardContent>
 						</Card>
 					)}
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Bookmarks</CardTitle>
+						<CardDescription>
+							Resume long tracks such as audiobooks on any device
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="space-y-4">
+						<label className="flex items-start gap-2 text-sm cursor-pointer">
+							<input
+								type="checkbox"
+								checked={settings.autoBookmark}
+								onChange={(e) =>
+									updateSettings({ autoBookmark: e.target.checked })
+								}
+								className="size-4 mt-0.5 accent-primary"
+							/>
+							<span>
+								<span className="font-medium">Save resume points</span>
+								<span className="block text-muted-foreground">
+									Bookmark your position on the server while long tracks play
+								</span>
+							</span>
+						</label>
+						<div className="space-y-2">
+							<Label htmlFor={bookmarkMinutesId}>
+								Minimum track length (minutes)
+							</Label>
+							<Input
+								id={bookmarkMinutesId}
+								type="number"
+								min={1}
+								value={settings.autoBookmarkMinutes}
+								onChange={(e) => {
+									const minutes = Number.parseInt(e.target.value, 10);
+									if (minutes > 0) {
+										updateSettings({ autoBookmarkMinutes: minutes });
+									}
+								}}
+								className="w-32"
+							/>
+							<p className="text-sm text-muted-foreground">
+								Shorter tracks always start from the beginning.
+							</p>
+						</div>
+					</CardContent>
+				</Card>
+
+				{credentials && <AccountSettingsCard profile={credentials} />}
+
+				{isElectron && credentials && (
+					<ConnectionSettingsCard key={credentials.id} profile={credentials} />
+				)}
 			</div>
 		</div>
 	);
 }
+
+function AccountSettingsCard({ profile }: { profile: ServerProfile }) {
+	const { user, isAdmin } = useCurrentUser();
+	const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
+	// Without the settings role only an admin can change the password
+	const canChangePassword = isAdmin || user?.settingsRole !== false;
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Account</CardTitle>
+				<CardDescription>
+					Signed in as {profile.username}
+					{isAdmin && " (administrator)"}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="flex flex-wrap gap-2">
+				<Button
+					variant="outline"
+					className="gap-2"
+					onClick={() => setPasswordDialogOpen(true)}
+					disabled={!canChangePassword}
+				>
+					<KeyRound className="w-4 h-4" />
+					Change Password
+				</Button>
+				{isAdmin && (
+					<Button variant="outline" className="gap-2" asChild>
+						<Link to="/app/admin/users">
+							<Users className="w-4 h-4" />
+							Manage Users
+						</Link>
+					</Button>
+				)}
+				<ChangePasswordDialog
+					username={profile.username}
+					open={passwordDialogOpen}
+					onOpenChange={setPasswordDialogOpen}
+				/>
+			</CardContent>
+		</Card>
+	);
+}
+
+function ConnectionSettingsCard({ profile }: { profile: ServerProfile }) {
+	const queryClient = useQueryClient();
+	const [connection, setConnection] = useState<ConnectionOptions>(
+		profile.connection ?? {},
+	);
+	const [error, setError] = useState<string | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		setError(null);
+
+		// Make sure the server is still reachable before switching over
+		const result = await ping({ ...profile, connection });
+		setIsSaving(false);
+		if (!result.success) {
+			setError(result.error || "Failed to connect to server");
+			return;
+		}
+
+		await updateProfileConnection(profile.id, connection);
+		// Cached URLs point at the old address
+		clearCoverArtCache();
+		queryClient.invalidateQueries();
+		toast.success("Connection settings saved");
+	};
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Connection</CardTitle>
+				<CardDescription>How the app reaches {profile.name}</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<ConnectionOptionsFields
+					serverUrl={profile.serverUrl}
+					value={connection}
+					onChange={setConnection}
+				/>
+
+				{error && (
+					<div className="p-3 rounded-md bg-destructive/10 border border-destructive/20 text-destructive text-sm">
+						{error}
+					</div>
+				)}
+
+				<Button onClick={handleSave} disabled={isSaving}>
+					{isSaving && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+					Save
+				</Button>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,329 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { Copy, Link2, Loader2, Pencil, Share2, Trash2 } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+
+import {
+	copyShareUrl,
+	EXPIRY_OPTIONS,
+	type ExpiryOption,
+	getExpiryTimestamp,
+} from "@/components/ShareDialog";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { deleteShare, getShares, type Share, updateShare } from "@/lib/api";
+import { useServerCapabilities } from "@/lib/capabilities";
+import { cn } from "@/lib/utils";
+
+export const Route = createFileRoute("/app/shares")({
+	component: SharesPage,
+});
+
+// Describe what a share contains when it has no description
+function getShareTitle(share: Share): string {
+	if (share.description) return share.description;
+	const entries = share.entry ?? [];
+	if (entries.length === 0) return "Shared link";
+	if (entries.length === 1) return entries[0].title;
+	// Albums and playlists are shared as their songs
+	const album = entries[0].album;
+	if (album && entries.every((entry) => entry.album === album)) return album;
+	return `${entries[0].title} and ${entries.length - 1} more`;
+}
+
+function isExpired(share: Share): boolean {
+	return !!share.expires && new Date(share.expires).getTime() < Date.now();
+}
+
+interface EditShareDialogProps {
+	share: Share;
+	onOpenChange: (open: boolean) => void;
+}
+
+function EditShareDialog({ share, onOpenChange }: EditShareDialogProps) {
+	const queryClient = useQueryClient();
+	const [description, setDescription] = useState(share.description ?? "");
+	const [expiry, setExpiry] = useState<ExpiryOption | "keep">(
+		share.expires ? "keep" : "never",
+	);
+	const formId = useId();
+	const descriptionId = useId();
+	const expiryId = useId();
+
+	const updateMutation = useMutation({
+		mutationFn: () =>
+			updateShare({
+				id: share.id,
+				description: description.trim(),
+				expires: expiry === "keep" ? undefined : getExpiryTimestamp(expiry),
+			}),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["shares"] });
+			onOpenChange(false);
+			toast.success("Share updated");
+		},
+		onError: () => {
+			toast.error("Failed to update share");
+		},
+	});
+
+	return (
+		<Dialog open onOpenChange={onOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Edit Share</DialogTitle>
+					<DialogDescription>{share.url}</DialogDescription>
+				</DialogHeader>
+				<form
+					id={formId}
+					onSubmit={(e) => {
+						e.preventDefault();
+						updateMutation.mutate();
+					}}
+					className="space-y-4"
+				>
+					<div className="space-y-2">
+						<Label htmlFor={descriptionId}>Description</Label>
+						<Input
+							id={descriptionId}
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+							autoFocus
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor={expiryId}>Link expires</Label>
+						<Select
+							value={expiry}
+							onValueChange={(value) =>
+								setExpiry(value as ExpiryOption | "keep")
+							}
+						>
+							<SelectTrigger id={expiryId} className="w-full">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{share.expires && (
+									<SelectItem value="keep">
+										{isExpired(share) ? "Expired" : "Keep"} (
+										{new Date(share.expires).toLocaleDateString()})
+									</SelectItem>
+								)}
+								{EXPIRY_OPTIONS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</form>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						type="submit"
+						form={formId}
+						disabled={updateMutation.isPending}
+					>
+						{updateMutation.isPending ? (
+							<>
+								<Loader2 className="w-4 h-4 animate-spin mr-2" />
+								Saving...
+							</>
+						) : (
+							"Save"
+						)}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
+
+function SharesPage() {
+	const queryClient = useQueryClient();
+	const { features } = useServerCapabilities();
+	const [editingShare, setEditingShare] = useState<Share | null>(null);
+	const [revokingShare, setRevokingShare] = useState<Share | null>(null);
+
+	const { data: shares, isLoading } = useQuery({
+		queryKey: ["shares"],
+		queryFn: ({ signal }) => getShares({ signal }),
+		enabled: features.sharing,
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (id: string) => deleteShare(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["shares"] });
+			setRevokingShare(null);
+			toast.success("Share link revoked");
+		},
+		onError: () => {
+			toast.error("Failed to revoke share link");
+		},
+	});
+
+	if (!features.sharing) {
+		return (
+			<div className="p-6">
+				<div className="text-center py-12">
+					<Share2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">
+						This server doesn't support sharing
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="p-6 space-y-6">
+			{/* Header */}
+			<div>
+				<h1 className="text-3xl font-bold text-foreground">My Shares</h1>
+				<p className="text-muted-foreground mt-1">
+					{shares?.length ?? 0} share link{shares?.length !== 1 ? "s" : ""}
+				</p>
+			</div>
+
+			{isLoading ? (
+				<div className="space-y-2">
+					{Array.from({ length: 5 }).map((_, i) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: Skeleton placeholder
+							key={i}
+							className="h-16 rounded-md bg-muted animate-pulse"
+						/>
+					))}
+				</div>
+			) : !shares || shares.length === 0 ? (
+				<div className="text-center py-12">
+					<Share2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+					<p className="text-muted-foreground">No share links yet</p>
+					<p className="text-sm text-muted-foreground mt-1">
+						Right-click a song, album or playlist and choose "Share…"
+					</p>
+				</div>
+			) : (
+				<div className="divide-y rounded-lg border">
+					{shares.map((share) => {
+						const expired = isExpired(share);
+						return (
+							<div key={share.id} className="flex items-center gap-3 px-3 py-2">
+								<div className="w-10 h-10 rounded bg-muted flex items-center justify-center flex-shrink-0">
+									<Link2 className="w-4 h-4 text-muted-foreground" />
+								</div>
+								<div className="min-w-0 flex-1">
+									<p className="text-sm font-medium truncate">
+										{getShareTitle(share)}
+									</p>
+									<p className="text-xs text-muted-foreground truncate">
+										{share.url}
+									</p>
+									<p className="text-xs text-muted-foreground">
+										<span className={cn(expired && "text-destructive")}>
+											{share.expires
+												? `${expired ? "Expired" : "Expires"} ${new Date(share.expires).toLocaleDateString()}`
+												: "Never expires"}
+										</span>
+										{" • "}
+										{share.visitCount} visit{share.visitCount !== 1 ? "s" : ""}
+									</p>
+								</div>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => copyShareUrl(share)}
+									title="Copy link"
+								>
+									<Copy className="w-4 h-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => setEditingShare(share)}
+									title="Edit share"
+								>
+									<Pencil className="w-4 h-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => setRevokingShare(share)}
+									title="Revoke link"
+								>
+									<Trash2 className="w-4 h-4" />
+								</Button>
+							</div>
+						);
+					})}
+				</div>
+			)}
+
+			{editingShare && (
+				<EditShareDialog
+					key={editingShare.id}
+					share={editingShare}
+					onOpenChange={(open) => !open && setEditingShare(null)}
+				/>
+			)}
+
+			{/* Revoke confirmation dialog */}
+			<Dialog
+				open={!!revokingShare}
+				onOpenChange={(open) => !open && setRevokingShare(null)}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Revoke Share Link</DialogTitle>
+						<DialogDescription>
+							Anyone using this link will lose access. This action cannot be
+							undone.
+						</DialogDescription>
+					</DialogHeader>
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setRevokingShare(null)}>
+							Cancel
+						</Button>
+						<Button
+							variant="destructive"
+							onClick={() =>
+								revokingShare && deleteMutation.mutate(revokingShare.id)
+							}
+							disabled={deleteMutation.isPending}
+						>
+							{deleteMutation.isPending ? (
+								<>
+									<Loader2 className="w-4 h-4 animate-spin mr-2" />
+									Revoking...
+								</>
+							) : (
+								"Revoke"
+							)}
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
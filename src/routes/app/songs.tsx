@@ -6,20 +6,22 @@ import { SongList } from "@/components/SongList";
 import { Button } from "@/components/ui/button";
 import { getRandomSongs } from "@/lib/api";
 import { playAlbum } from "@/lib/player";
+import { useMusicFolderId } from "@/lib/settings";
 
 export const Route = createFileRoute("/app/songs")({
 	component: SongsPage,
 });
 
 function SongsPage() {
+	const musicFolderId = useMusicFolderId();
 	const {
 		data: songs,
 		isLoading,
 		refetch,
 		isFetching,
 	} = useQuery({
-		queryKey: ["randomSongs"],
-		queryFn: () => getRandomSongs(100),
+		queryKey: ["randomSongs", musicFolderId],
+		queryFn: ({ signal }) => getRandomSongs(100, { signal, musicFolderId }),
 	});
 
 	const handleShufflePlay = () => {
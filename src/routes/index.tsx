@@ -1,9 +1,21 @@
-import { useForm } from "@tanstack/react-form";
-import { createFileRoute, redirect, useNavigate } from "@tanstack/react-router";
-import { Loader2, Lock, Music, Server, User } from "lucide-react";
-import { useState } from "react";
+import { useForm, useStore } from "@tanstack/react-form";
+import { createFileRoute, Link, redirect } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	ChevronDown,
+	ChevronRight,
+	Loader2,
+	Lock,
+	Music,
+	Server,
+	Tag,
+	Trash2,
+	User,
+} from "lucide-react";
+import { useId, useState } from "react";
 import * as v from "valibot";
 
+import { ConnectionOptionsFields } from "@/components/ConnectionOptionsFields";
 import { Button } from "@/components/ui/button";
 import {
 	Card,
@@ -14,13 +26,37 @@ import {
 } from "@/components/ui/card";
 import { Field, FieldError, FieldLabel } from "@/components/ui/field";
 import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
 
-import { login as authLogin, isAuthenticated } from "@/lib/auth";
+import { useProfileSwitcher } from "@/hooks/use-profile-switcher";
+import {
+	type AuthMethod,
+	type ConnectionOptions,
+	getDefaultProfileName,
+	hasSecret,
+	isAuthenticated,
+	type ServerProfile,
+	type SubsonicCredentials,
+	useAuth,
+} from "@/lib/auth";
+import { isElectron } from "@/lib/settings";
 import { ping } from "@/lib/subsonic";
 
 export const Route = createFileRoute("/")({
-	beforeLoad: () => {
-		if (isAuthenticated()) {
+	validateSearch: (
+		searchParams: Record<string, unknown>,
+	): { addProfile?: boolean } => {
+		return searchParams.addProfile === true ? { addProfile: true } : {};
+	},
+	beforeLoad: ({ search }) => {
+		// Signed-in users only land here when adding another server
+		if (isAuthenticated() && !search.addProfile) {
 			throw redirect({ to: "/app" });
 		}
 	},
@@ -34,18 +70,32 @@ const loginSchema = v.object({
 		v.url("Please enter a valid URL"),
 	),
 	username: v.pipe(v.string(), v.nonEmpty("Username is required")),
-	password: v.pipe(v.string(), v.nonEmpty("Password is required")),
+	password: v.pipe(v.string(), v.nonEmpty("Password or API key is required")),
+	name: v.string(),
+	rememberPassword: v.boolean(),
 });
 
 function LoginPage() {
-	const navigate = useNavigate();
+	const { addProfile } = Route.useSearch();
+	const { profiles, isAuthenticated, saveProfile, removeProfile } = useAuth();
+	const switchToProfile = useProfileSwitcher();
 	const [serverError, setServerError] = useState<string | null>(null);
+	// Auth method picker, shown once detection turns out ambiguous
+	const [showAuthMethod, setShowAuthMethod] = useState(false);
+	const [authMethod, setAuthMethod] = useState<AuthMethod | "auto">("auto");
+	const authMethodId = useId();
+	const [showConnection, setShowConnection] = useState(false);
+	const [connection, setConnection] = useState<ConnectionOptions>({});
+	// Remounts the connection fields when a saved profile is loaded
+	const [connectionKey, setConnectionKey] = useState(0);
 
 	const form = useForm({
 		defaultValues: {
 			serverUrl: "",
 			username: "",
 			password: "",
+			name: "",
+			rememberPassword: true,
 		},
 		validators: {
 			onSubmit: loginSchema,
@@ -53,23 +103,66 @@ function LoginPage() {
 		onSubmit: async ({ value }) => {
 			setServerError(null);
 
-			const credentials = {
-				serverUrl: value.serverUrl.trim(),
-				username: value.username.trim(),
-				password: value.password,
-			};
+			// The secret field holds the API key in API key mode
+			const credentials: SubsonicCredentials =
+				authMethod === "apiKey"
+					? {
+							serverUrl: value.serverUrl.trim(),
+							username: value.username.trim(),
+							password: "",
+							authMethod,
+							apiKey: value.password,
+							connection,
+						}
+					: {
+							serverUrl: value.serverUrl.trim(),
+							username: value.username.trim(),
+							password: value.password,
+							authMethod: authMethod === "auto" ? undefined : authMethod,
+							connection,
+						};
 
 			const result = await ping(credentials);
 
 			if (result.success) {
-				authLogin(credentials);
-				navigate({ to: "/app" });
+				const profileId = await saveProfile(
+					{ ...credentials, authMethod: result.authMethod },
+					{ name: value.name, rememberPassword: value.rememberPassword },
+				);
+				await switchToProfile(profileId);
 			} else {
+				if (result.ambiguous) {
+					setShowAuthMethod(true);
+					setAuthMethod(result.availableMethods?.[0] ?? "auto");
+				}
 				setServerError(result.error || "Failed to connect to server");
 			}
 		},
 	});
 
+	const handleSavedServer = (profile: ServerProfile) => {
+		if (hasSecret(profile)) {
+			switchToProfile(profile.id);
+			return;
+		}
+
+		// The password wasn't remembered: prefill everything else and ask for it
+		form.setFieldValue("serverUrl", profile.serverUrl);
+		form.setFieldValue("username", profile.username);
+		form.setFieldValue("name", profile.name);
+		form.setFieldValue("rememberPassword", false);
+		setConnection(profile.connection ?? {});
+		setConnectionKey((key) => key + 1);
+		if (profile.authMethod === "apiKey") {
+			setShowAuthMethod(true);
+			setAuthMethod("apiKey");
+		}
+		setServerError(null);
+		document.getElementById("password")?.focus();
+	};
+
+	const serverUrl = useStore(form.store, (state) => state.values.serverUrl);
+
 	return (
 		<div className="min-h-screen flex items-center justify-center bg-background p-4">
 			<div className="w-full max-w-md">
@@ -84,10 +177,52 @@ function LoginPage() {
 					<p className="text-muted-foreground">Connect to your music server</p>
 				</div>
 
+				{/* Saved servers */}
+				{!addProfile && profiles.length > 0 && (
+					<Card className="mb-4">
+						<CardHeader>
+							<CardTitle>Saved Servers</CardTitle>
+							<CardDescription>Reconnect to a saved server</CardDescription>
+						</CardHeader>
+						<CardContent className="space-y-1">
+							{profiles.map((profile) => (
+								<div
+									key={profile.id}
+									className="flex items-center gap-2 rounded-md hover:bg-muted"
+								>
+									<button
+										type="button"
+										onClick={() => handleSavedServer(profile)}
+										className="flex-1 min-w-0 px-3 py-2 text-left"
+									>
+										<p className="text-sm font-medium truncate">
+											{profile.name}
+										</p>
+										<p className="text-xs text-muted-foreground truncate">
+											{profile.username}@
+											{getDefaultProfileName(profile.serverUrl)}
+											{!hasSecret(profile) && " · Password required"}
+										</p>
+									</button>
+									<Button
+										variant="ghost"
+										size="icon"
+										className="size-8 mr-1"
+										onClick={() => removeProfile(profile.id)}
+										title="Remove server"
+									>
+										<Trash2 className="w-4 h-4" />
+									</Button>
+								</div>
+							))}
+						</CardContent>
+					</Card>
+				)}
+
 				{/* Login Card */}
 				<Card>
 					<CardHeader>
-						<CardTitle>Sign In</CardTitle>
+						<CardTitle>{addProfile ? "Add Server" : "Sign In"}</CardTitle>
 						<CardDescription>
 							Enter your Subsonic server credentials
 						</CardDescription>
@@ -155,17 +290,48 @@ function LoginPage() {
 								)}
 							</form.Field>
 
+							{/* Auth method */}
+							{showAuthMethod && (
+								<Field>
+									<FieldLabel htmlFor={authMethodId}>Authentication</FieldLabel>
+									<Select
+										value={authMethod}
+										onValueChange={(value) =>
+											setAuthMethod(value as AuthMethod | "auto")
+										}
+									>
+										<SelectTrigger id={authMethodId} className="w-full">
+											<SelectValue placeholder="Select authentication" />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectItem value="auto">Detect automatically</SelectItem>
+											<SelectItem value="token">Token (recommended)</SelectItem>
+											<SelectItem value="password">
+												Password (LDAP / proxy auth)
+											</SelectItem>
+											<SelectItem value="apiKey">API key</SelectItem>
+										</SelectContent>
+									</Select>
+								</Field>
+							)}
+
 							{/* Password */}
 							<form.Field name="password">
 								{(field) => (
 									<Field data-invalid={field.state.meta.errors.length > 0}>
-										<FieldLabel htmlFor={field.name}>Password</FieldLabel>
+										<FieldLabel htmlFor={field.name}>
+											{authMethod === "apiKey" ? "API key" : "Password"}
+										</FieldLabel>
 										<div className="relative">
 											<Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
 											<Input
 												id={field.name}
 												type="password"
-												placeholder="Enter your password"
+												placeholder={
+													authMethod === "apiKey"
+														? "Enter your API key"
+														: "Enter your password"
+												}
 												value={field.state.value}
 												onChange={(e) => field.handleChange(e.target.value)}
 												className="pl-10"
@@ -182,6 +348,69 @@ function LoginPage() {
 								)}
 							</form.Field>
 
+							{/* Profile name */}
+							<form.Field name="name">
+								{(field) => (
+									<Field>
+										<FieldLabel htmlFor={field.name}>
+											Profile name (optional)
+										</FieldLabel>
+										<div className="relative">
+											<Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+											<Input
+												id={field.name}
+												type="text"
+												placeholder="e.g. Home server"
+												value={field.state.value}
+												onChange={(e) => field.handleChange(e.target.value)}
+												className="pl-10"
+											/>
+										</div>
+									</Field>
+								)}
+							</form.Field>
+
+							{/* Remember password */}
+							<form.Field name="rememberPassword">
+								{(field) => (
+									<label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+										<input
+											type="checkbox"
+											checked={field.state.value}
+											onChange={(e) => field.handleChange(e.target.checked)}
+											className="size-4 accent-primary"
+										/>
+										Remember password
+									</label>
+								)}
+							</form.Field>
+
+							{/* Desktop-only connection options */}
+							{isElectron() && (
+								<div className="space-y-3">
+									<button
+										type="button"
+										onClick={() => setShowConnection((show) => !show)}
+										className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+									>
+										{showConnection ? (
+											<ChevronDown className="w-4 h-4" />
+										) : (
+											<ChevronRight className="w-4 h-4" />
+										)}
+										Connection options
+									</button>
+									{showConnection && (
+										<ConnectionOptionsFields
+											key={connectionKey}
+											serverUrl={serverUrl.trim()}
+											value={connection}
+											onChange={setConnection}
+										/>
+									)}
+								</div>
+							)}
+
 							{/* Server Error Message */}
 							{serverError && (
 								<div className="p-3 rounded-md bg-destructive/10 border border-destructive/20 text-destructive text-sm">
@@ -212,6 +441,15 @@ function LoginPage() {
 					</CardContent>
 				</Card>
 
+				{addProfile && isAuthenticated && (
+					<Button variant="ghost" className="w-full mt-4" asChild>
+						<Link to="/app">
+							<ArrowLeft className="w-4 h-4" />
+							Back to library
+						</Link>
+					</Button>
+				)}
+
 				{/* Footer */}
 				<p className="text-center text-muted-foreground text-sm mt-6">
 					Compatible with Subsonic, Navidrome, Airsonic, and other Subsonic API